@@ -0,0 +1,153 @@
+/** @jest-environment node */
+import crypto from 'crypto';
+import { ChallengeConfig, ChallengeRejectedError, createChallengeService } from './challengeHandler';
+import { InvalidRequestError } from './verifyHandler';
+import { PassTokenPayload, SignedChallenge } from '../src/components/Captcha/challenge';
+import { TrajectorySample } from '../src/components/Captcha/resimulation';
+import { armStart, initialObjectStates } from '../src/components/Captcha/physicsScene';
+import { DEFAULT_SCENE_CONFIG, tableBounds } from '../src/components/Captcha/sceneConfig';
+import { verifyTask } from '../src/components/Captcha/taskVerifier';
+
+const CONFIG: ChallengeConfig = {
+  secret: 'challenge-secret',
+  siteSecret: 'site-secret',
+  challengeTtl: 60000,
+  tokenTtl: 60000,
+  maxRisk: 0.5
+};
+const STEP = 1 / 60;
+const TABLE = tableBounds(DEFAULT_SCENE_CONFIG.table);
+const START = armStart(TABLE);
+const EVENT_TIMES = [0, 40, 95, 120, 180, 260, 300, 390, 410, 500];
+
+// Arm path from the resting place along z, sampled every step, from the speeds of each step (units/s)
+const path = (speeds: number[]): TrajectorySample[] => {
+  let z = START.z;
+  return [0, ...speeds].map((speed, step) => {
+    z += speed * STEP;
+    return { timestamp: step * STEP * 1000, position: { ...START, z }, pointerDown: step > 0 };
+  });
+};
+
+// Speeds up and slows down within the default limits, beside the table where nothing is in the way
+const DRAG = [0.5, 1, 1.5, ...Array(20).fill(2), 1.5, 1, 0.5, 0];
+
+const submission = (signed: SignedChallenge, trajectory: TrajectorySample[]) => ({
+  ...signed,
+  stepSize: STEP,
+  trajectory,
+  eventTimes: EVENT_TIMES
+});
+
+// Pass token as the service signs it, so siteverify can be tested without solving a task
+const passToken = (payload: PassTokenPayload): string => {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${crypto.createHmac('sha256', CONFIG.secret).update(`token.${encoded}`).digest('base64url')}`;
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('issueChallenge', () => {
+  it('never issues a task the starting layout already solves', () => {
+    const service = createChallengeService(CONFIG);
+    for (let i = 0; i < 30; i++) {
+      const { challenge } = service.issueChallenge({});
+      expect(verifyTask(challenge.taskSpec, initialObjectStates(challenge.seed), TABLE).passed).toBe(false);
+    }
+    expect(service.issueChallenge({ taskId: 'red-center' }).challenge.taskSpec.id).toBe('red-center');
+  });
+
+  it('refuses unknown tasks and tasks every layout solves', () => {
+    const service = createChallengeService(CONFIG);
+    expect(() => service.issueChallenge({ taskId: 'fly' })).toThrow(InvalidRequestError);
+    // The spawn spacing keeps blue far from the others in every layout
+    expect(() => service.issueChallenge({ taskId: 'separate-blue' })).toThrow('already solved');
+  });
+});
+
+describe('submitChallenge', () => {
+  it('rejects a tampered challenge', async () => {
+    const service = createChallengeService(CONFIG);
+    const signed = service.issueChallenge({});
+    const tampered = { ...signed, challenge: { ...signed.challenge, seed: signed.challenge.seed ^ 1 } };
+    await expect(service.submitChallenge(submission(tampered, path(DRAG)))).rejects.toThrow('signature does not match');
+    const forged = { ...signed, signature: createChallengeService({ ...CONFIG, secret: 'other' }).issueChallenge({}).signature };
+    await expect(service.submitChallenge(submission(forged, path(DRAG)))).rejects.toThrow(ChallengeRejectedError);
+  });
+
+  it('rejects an expired challenge', async () => {
+    const service = createChallengeService(CONFIG);
+    const signed = service.issueChallenge({});
+    jest.spyOn(Date, 'now').mockReturnValue(signed.challenge.expiresAt + 1);
+    await expect(service.submitChallenge(submission(signed, path(DRAG)))).rejects.toThrow('Challenge expired');
+  });
+
+  it('rejects trajectories that break the motion limits or start elsewhere', async () => {
+    const service = createChallengeService(CONFIG);
+    const signed = service.issueChallenge({});
+    jest.spyOn(Date, 'now').mockReturnValue(signed.challenge.issuedAt + 10000);
+
+    const jump = path(DRAG);
+    jump[10] = { ...jump[10], position: { x: 0, y: 0.4, z: 0 } };
+    await expect(service.submitChallenge(submission(signed, jump))).rejects.toThrow('exceeds the motion limits');
+    await expect(service.submitChallenge(submission(signed, path(Array(30).fill(6))))).rejects.toThrow('accelerates');
+    const elsewhere = path(DRAG).map(sample => ({ ...sample, position: { ...sample.position, x: 0 } }));
+    await expect(service.submitChallenge(submission(signed, elsewhere))).rejects.toThrow('does not start at its resting position');
+  });
+
+  it('requires enough pointer event times within the attempt', async () => {
+    const service = createChallengeService(CONFIG);
+    const signed = service.issueChallenge({});
+    jest.spyOn(Date, 'now').mockReturnValue(signed.challenge.issuedAt + 10000);
+
+    const { eventTimes, ...withoutEvents } = submission(signed, path(DRAG));
+    await expect(service.submitChallenge(withoutEvents)).rejects.toThrow(InvalidRequestError);
+    await expect(service.submitChallenge({ ...withoutEvents, eventTimes: [...eventTimes].reverse() })).rejects.toThrow('ascending');
+    await expect(service.submitChallenge({ ...withoutEvents, eventTimes: eventTimes.slice(0, 3) })).rejects.toThrow('Too few pointer events');
+    await expect(service.submitChallenge({ ...withoutEvents, eventTimes: eventTimes.map(time => time + 10000) }))
+      .rejects.toThrow('later than the time since the challenge was issued');
+  });
+
+  it('rejects attempts without a drag or a touched object, once per challenge', async () => {
+    const service = createChallengeService(CONFIG);
+    const idle = service.issueChallenge({});
+    const untouched = service.issueChallenge({});
+    jest.spyOn(Date, 'now').mockReturnValue(idle.challenge.issuedAt + 10000);
+
+    const atRest = [{ timestamp: 0, position: START }, { timestamp: 1000, position: START }];
+    await expect(service.submitChallenge(submission(idle, atRest))).rejects.toThrow('Arm was never dragged');
+    await expect(service.submitChallenge(submission(idle, path(DRAG)))).rejects.toThrow('already answered');
+    await expect(service.submitChallenge(submission(untouched, path(DRAG)))).rejects.toThrow('Arm never touched an object');
+  });
+});
+
+describe('siteVerify', () => {
+  const payload = (): PassTokenPayload => ({
+    challengeId: 'challenge-1',
+    seed: 7,
+    taskId: 'red-center',
+    risk: 0.1,
+    issuedAt: Date.now(),
+    expiresAt: Date.now() + CONFIG.tokenTtl
+  });
+
+  it('redeems a token once', () => {
+    const service = createChallengeService(CONFIG);
+    const token = passToken(payload());
+    expect(service.siteVerify({ secret: 'site-secret', response: token })).toMatchObject({ success: true, challengeId: 'challenge-1', risk: 0.1 });
+    expect(service.siteVerify({ secret: 'site-secret', response: token })).toEqual({ success: false, 'error-codes': ['timeout-or-duplicate'] });
+  });
+
+  it('rejects wrong secrets, forged and expired tokens', () => {
+    const service = createChallengeService(CONFIG);
+    const token = passToken(payload());
+    expect(service.siteVerify({ secret: 'guess', response: token })['error-codes']).toEqual(['invalid-input-secret']);
+    expect(service.siteVerify({ secret: 'site-secret', response: `${token.split('.')[0]}.forged` })['error-codes']).toEqual(['invalid-input-response']);
+    const expired = passToken({ ...payload(), expiresAt: Date.now() - 1 });
+    expect(service.siteVerify({ secret: 'site-secret', response: expired })['error-codes']).toEqual(['timeout-or-duplicate']);
+    expect(createChallengeService({ ...CONFIG, siteSecret: null }).siteVerify({ secret: 'site-secret', response: token })['error-codes'])
+      .toEqual(['invalid-input-secret']);
+  });
+});
@@ -0,0 +1,358 @@
+// Challenge/response protocol: /challenge, /submit and /siteverify
+// Challenges and pass tokens are HMAC-signed JSON, so nothing is stored when a challenge is issued.
+// The server only remembers answered challenges and redeemed tokens until they expire, so each
+// can be used once.
+
+import crypto from 'crypto';
+import {
+  Challenge,
+  ChallengeResult,
+  PassTokenPayload,
+  SignedChallenge,
+  SiteVerifyResponse
+} from '../src/components/Captcha/challenge';
+import { TrajectorySample } from '../src/components/Captcha/resimulation';
+import { TaskSpec, parseTaskSpec } from '../src/components/Captcha/taskSpec';
+import { verifyTask } from '../src/components/Captcha/taskVerifier';
+import { armStart, createPhysicsScene, initialObjectStates, simulateTrajectory } from '../src/components/Captcha/physicsScene';
+import { motionLimitViolation } from '../src/components/Captcha/armMotion';
+import { DEFAULT_SCENE_CONFIG, tableBounds } from '../src/components/Captcha/sceneConfig';
+import { MIN_INTERACTION_PATH, MIN_TIMING_EVENTS, analyzeTrajectory } from '../src/components/Captcha/trajectoryAnalysis';
+import taskExamplesJson from '../src/components/Captcha/taskExamples.json';
+import { InvalidRequestError } from './verifyHandler';
+import { loadRapier } from './rapier';
+
+// Well-formed submission that must not be accepted (answered with 403)
+export class ChallengeRejectedError extends Error {}
+
+export interface ChallengeConfig {
+  secret: string;             // Signs challenges and pass tokens
+  siteSecret: string | null;  // Shared with the host site's backend; /siteverify is disabled without it
+  challengeTtl: number;       // Time to solve a challenge (ms)
+  tokenTtl: number;           // Time for the host site to redeem a pass token (ms)
+  maxRisk: number;            // Attempts with a higher bot risk get no token, even when the task is solved
+}
+
+// Physics steps accepted from the page (s)
+const MIN_STEP_SIZE = 1 / 240;
+const MAX_STEP_SIZE = 1 / 30;
+// Challenges are always played in the default scene
+const SCENE = DEFAULT_SCENE_CONFIG;
+const TABLE = tableBounds(SCENE.table);
+// Arm positions must stay over the table (with some slack for the arm radius)
+const MAX_ARM_OFFSET = Math.max(TABLE.halfWidth, TABLE.halfDepth) + 1;
+const MAX_ARM_HEIGHT = 2;
+// Attempts start with the arm at rest where the scene places it (within the IK solver's tolerance)
+const ARM_START = armStart(TABLE);
+const ARM_START_TOLERANCE = 1e-3;
+// Draws of a seed (and of a task, unless one is requested) for a starting layout that does not already solve the task
+const MAX_ISSUE_ATTEMPTS = 20;
+
+const TASKS: TaskSpec[] = (taskExamplesJson as unknown[]).map(example => parseTaskSpec(example));
+
+const readSeconds = (env: NodeJS.ProcessEnv, name: string, fallback: number): number => {
+  const value = env[name];
+  if (value === undefined || value === '') return fallback * 1000;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return seconds * 1000;
+};
+
+const readMaxRisk = (value: string | undefined): number => {
+  if (value === undefined || value === '') return 0.5;
+  const risk = Number(value);
+  if (!Number.isFinite(risk) || risk < 0 || risk > 1) {
+    throw new Error(`Invalid MAX_RISK: ${value}`);
+  }
+  return risk;
+};
+
+export const readChallengeConfig = (env: NodeJS.ProcessEnv): ChallengeConfig => {
+  let secret = env.CAPTCHA_SECRET;
+  if (!secret) {
+    console.warn('⚠️ CAPTCHA_SECRET is not set; using a random secret (challenges and tokens do not survive a restart)');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+  if (!env.SITE_SECRET) {
+    console.warn('⚠️ SITE_SECRET is not set; /siteverify rejects every request');
+  }
+
+  return {
+    secret,
+    siteSecret: env.SITE_SECRET || null,
+    challengeTtl: readSeconds(env, 'CHALLENGE_TTL_SECONDS', 300),
+    tokenTtl: readSeconds(env, 'TOKEN_TTL_SECONDS', 120),
+    maxRisk: readMaxRisk(env.MAX_RISK)
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Constant-time comparison of two signatures
+const signaturesMatch = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// Challenge fields in a fixed order, so the signature does not depend on how the page serialized them
+const parseChallenge = (value: unknown): Challenge => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.nonce !== 'string'
+    || !isFiniteNumber(value.seed) || !isFiniteNumber(value.issuedAt) || !isFiniteNumber(value.expiresAt)) {
+    throw new InvalidRequestError('Invalid request: malformed challenge');
+  }
+
+  let taskSpec: TaskSpec;
+  try {
+    taskSpec = parseTaskSpec(value.taskSpec);
+  } catch (err) {
+    throw new InvalidRequestError(err instanceof Error ? err.message : 'Invalid task spec');
+  }
+
+  return {
+    id: value.id,
+    seed: value.seed,
+    taskSpec,
+    nonce: value.nonce,
+    issuedAt: value.issuedAt,
+    expiresAt: value.expiresAt
+  };
+};
+
+const parseTrajectory = (value: unknown, maxDuration: number): TrajectorySample[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new InvalidRequestError('Invalid request: "trajectory" must be a non-empty array');
+  }
+
+  let previousTimestamp = 0;
+  const trajectory = value.map((sample, index): TrajectorySample => {
+    const position = isRecord(sample) ? sample.position : undefined;
+    if (!isRecord(sample) || !isFiniteNumber(sample.timestamp) || !isRecord(position)
+      || !isFiniteNumber(position.x) || !isFiniteNumber(position.y) || !isFiniteNumber(position.z)
+      || (sample.pointerDown !== undefined && typeof sample.pointerDown !== 'boolean')
+      || (sample.gripperClosed !== undefined && typeof sample.gripperClosed !== 'boolean')) {
+      throw new InvalidRequestError(`Invalid request: trajectory[${index}] needs a timestamp and a numeric position`);
+    }
+    if (sample.timestamp < previousTimestamp || (index === 0 && sample.timestamp !== 0)) {
+      throw new InvalidRequestError(`Invalid request: trajectory[${index}] is out of order (the first sample is at 0 ms)`);
+    }
+    if (sample.timestamp > maxDuration) {
+      throw new ChallengeRejectedError('Trajectory is longer than the time since the challenge was issued');
+    }
+    if (Math.abs(position.x) > MAX_ARM_OFFSET || Math.abs(position.z) > MAX_ARM_OFFSET
+      || position.y < 0 || position.y > MAX_ARM_HEIGHT) {
+      throw new ChallengeRejectedError(`Arm leaves the table at trajectory[${index}]`);
+    }
+    previousTimestamp = sample.timestamp;
+    return {
+      timestamp: sample.timestamp,
+      position: { x: position.x, y: position.y, z: position.z },
+      pointerDown: sample.pointerDown as boolean | undefined,
+      gripperClosed: sample.gripperClosed as boolean | undefined
+    };
+  });
+
+  // The page moves the arm within the default motion limits, so a faster or jumping arm was not driven by it
+  const { x, y, z } = trajectory[0].position;
+  if (Math.hypot(x - ARM_START.x, y - ARM_START.y, z - ARM_START.z) > ARM_START_TOLERANCE) {
+    throw new ChallengeRejectedError('Arm does not start at its resting position');
+  }
+  const violation = motionLimitViolation(trajectory);
+  if (violation) {
+    throw new ChallengeRejectedError(`Arm exceeds the motion limits: ${violation}`);
+  }
+  return trajectory;
+};
+
+// Pointer event times are required, and enough of them to judge their timing (a page that left them
+// out would never show the timing signal)
+const parseEventTimes = (value: unknown, maxDuration: number): number[] => {
+  if (!Array.isArray(value) || !value.every(isFiniteNumber)) {
+    throw new InvalidRequestError('Invalid request: "eventTimes" must be an array of numbers');
+  }
+  if (value.some((time, index) => time < (index === 0 ? 0 : value[index - 1]))) {
+    throw new InvalidRequestError('Invalid request: "eventTimes" must be ascending times (ms) from the start of the attempt');
+  }
+  if (value.length > 0 && value[value.length - 1] > maxDuration) {
+    throw new ChallengeRejectedError('Pointer events are later than the time since the challenge was issued');
+  }
+  if (value.length < MIN_TIMING_EVENTS) {
+    throw new ChallengeRejectedError(`Too few pointer events: ${value.length} (at least ${MIN_TIMING_EVENTS})`);
+  }
+  return value;
+};
+
+export interface ChallengeService {
+  issueChallenge: (body: unknown) => SignedChallenge;
+  submitChallenge: (body: unknown) => Promise<ChallengeResult>;
+  siteVerify: (body: unknown) => SiteVerifyResponse;
+}
+
+export const createChallengeService = (config: ChallengeConfig): ChallengeService => {
+  // Challenge IDs and token IDs that were used, with the time they can be forgotten
+  const answeredChallenges = new Map<string, number>();
+  const redeemedTokens = new Map<string, number>();
+
+  const forgetExpired = (entries: Map<string, number>, now: number) => {
+    entries.forEach((expiresAt, id) => {
+      if (expiresAt < now) entries.delete(id);
+    });
+  };
+
+  const sign = (purpose: 'challenge' | 'token', payload: string): string => {
+    return crypto.createHmac('sha256', config.secret).update(`${purpose}.${payload}`).digest('base64url');
+  };
+
+  const issueToken = (challenge: Challenge, risk: number, now: number): { token: string, expiresAt: number } => {
+    const payload: PassTokenPayload = {
+      challengeId: challenge.id,
+      seed: challenge.seed,
+      taskId: challenge.taskSpec.id,
+      risk,
+      issuedAt: now,
+      expiresAt: now + config.tokenTtl
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return { token: `${encoded}.${sign('token', encoded)}`, expiresAt: payload.expiresAt };
+  };
+
+  // New challenge: random seed and the requested task (by default a random one from the examples).
+  // The host page may pick the task, never the seed. A starting layout that already solves the task
+  // would pass without touching anything, so the seed (and a random task) is drawn again.
+  const issueChallenge = (body: unknown): SignedChallenge => {
+    const taskId = isRecord(body) ? body.taskId : undefined;
+    if (taskId !== undefined && typeof taskId !== 'string') {
+      throw new InvalidRequestError('Invalid request: "taskId" must be a string');
+    }
+    const requested = taskId === undefined ? undefined : TASKS.find(task => task.id === taskId);
+    if (taskId !== undefined && !requested) {
+      throw new InvalidRequestError(`Invalid request: unknown task "${taskId}"`);
+    }
+
+    for (let attempt = 0; attempt < MAX_ISSUE_ATTEMPTS; attempt++) {
+      const taskSpec = requested ?? TASKS[crypto.randomInt(TASKS.length)];
+      const seed = crypto.randomBytes(4).readUInt32BE(0);
+      if (verifyTask(taskSpec, initialObjectStates(seed, SCENE), TABLE).passed) continue;
+
+      const now = Date.now();
+      const challenge: Challenge = {
+        id: crypto.randomUUID(),
+        seed,
+        taskSpec,
+        nonce: crypto.randomBytes(16).toString('base64url'),
+        issuedAt: now,
+        expiresAt: now + config.challengeTtl
+      };
+      return { challenge, signature: sign('challenge', JSON.stringify(challenge)) };
+    }
+    throw requested
+      ? new InvalidRequestError(`Invalid request: task "${taskId}" is already solved in every starting layout tried`)
+      : new Error('No starting layout tried leaves a task unsolved');
+  };
+
+  // Re-simulate the attempt from the challenge seed and judge the task on the resulting scene
+  const submitChallenge = async (body: unknown): Promise<ChallengeResult> => {
+    if (!isRecord(body) || typeof body.signature !== 'string') {
+      throw new InvalidRequestError('Invalid request: expected a challenge, its signature and a trajectory');
+    }
+    const challenge = parseChallenge(body.challenge);
+    const now = Date.now();
+
+    if (!signaturesMatch(sign('challenge', JSON.stringify(challenge)), body.signature)) {
+      throw new ChallengeRejectedError('Challenge signature does not match');
+    }
+    if (now > challenge.expiresAt) {
+      throw new ChallengeRejectedError('Challenge expired');
+    }
+    forgetExpired(answeredChallenges, now);
+    if (answeredChallenges.has(challenge.id)) {
+      throw new ChallengeRejectedError('Challenge was already answered');
+    }
+
+    const stepSize = body.stepSize;
+    if (!isFiniteNumber(stepSize) || stepSize < MIN_STEP_SIZE || stepSize > MAX_STEP_SIZE) {
+      throw new InvalidRequestError(`Invalid request: "stepSize" must be between ${MIN_STEP_SIZE.toFixed(4)} and ${MAX_STEP_SIZE.toFixed(4)} s`);
+    }
+    const trajectory = parseTrajectory(body.trajectory, now - challenge.issuedAt);
+    const eventTimes = parseEventTimes(body.eventTimes, now - challenge.issuedAt);
+
+    // One attempt per challenge, whatever the outcome
+    answeredChallenges.set(challenge.id, challenge.expiresAt);
+
+    // The risk is judged on the trajectory and pointer event times the server received (both required),
+    // not on the page's own analysis
+    const analysis = analyzeTrajectory(trajectory, eventTimes);
+    // Only the arm moves the objects: an attempt that never drags it, or never touches an object, solved nothing
+    if (analysis.features.pathLength < MIN_INTERACTION_PATH) {
+      throw new ChallengeRejectedError('Arm was never dragged');
+    }
+
+    const rapier = await loadRapier();
+    const scene = createPhysicsScene(rapier, challenge.seed, stepSize, SCENE);
+    let simulation;
+    try {
+      simulation = simulateTrajectory(scene, trajectory);
+    } finally {
+      scene.world.free();
+    }
+    if (!simulation.touched) {
+      throw new ChallengeRejectedError('Arm never touched an object');
+    }
+    const verification = verifyTask(challenge.taskSpec, simulation.objects, TABLE);
+    const success = verification.passed && analysis.risk <= config.maxRisk;
+
+    const token = success ? issueToken(challenge, analysis.risk, now) : null;
+    return {
+      success,
+      token: token?.token ?? null,
+      tokenExpiresAt: token?.expiresAt ?? null,
+      verification,
+      analysis
+    };
+  };
+
+  // Host-site backend check of a pass token (reCAPTCHA-style: always answered, success tells the outcome)
+  const siteVerify = (body: unknown): SiteVerifyResponse => {
+    const secret = isRecord(body) ? body.secret : undefined;
+    const response = isRecord(body) ? body.response : undefined;
+    if (typeof secret !== 'string' || secret === '') {
+      return { success: false, 'error-codes': ['missing-input-secret'] };
+    }
+    if (!config.siteSecret || !signaturesMatch(secret, config.siteSecret)) {
+      return { success: false, 'error-codes': ['invalid-input-secret'] };
+    }
+    if (typeof response !== 'string' || response === '') {
+      return { success: false, 'error-codes': ['missing-input-response'] };
+    }
+
+    const [encoded, signature] = response.split('.');
+    if (!encoded || !signature || !signaturesMatch(sign('token', encoded), signature)) {
+      return { success: false, 'error-codes': ['invalid-input-response'] };
+    }
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as PassTokenPayload;
+
+    const now = Date.now();
+    forgetExpired(redeemedTokens, now);
+    if (now > payload.expiresAt || redeemedTokens.has(payload.challengeId)) {
+      return { success: false, 'error-codes': ['timeout-or-duplicate'] };
+    }
+    redeemedTokens.set(payload.challengeId, payload.expiresAt);
+
+    return {
+      success: true,
+      challengeId: payload.challengeId,
+      taskId: payload.taskId,
+      seed: payload.seed,
+      risk: payload.risk,
+      issuedAt: payload.issuedAt
+    };
+  };
+
+  return { issueChallenge, submitChallenge, siteVerify };
+};
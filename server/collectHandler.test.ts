@@ -0,0 +1,52 @@
+/** @jest-environment node */
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { handleUpload } from './collectHandler';
+import { InvalidRequestError } from './verifyHandler';
+
+const SCREENSHOT = 'data:image/png;base64,iVBORw0KGgo=';
+
+const upload = (episodeId: string, success: boolean | null, screenshot: string | null = SCREENSHOT) => ({
+  episodeId,
+  episode: `${JSON.stringify({ format: 'robot-captcha-episode', episode_id: episodeId, success })}\n{"step":0}`,
+  screenshot
+});
+
+describe('handleUpload', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'collect-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores an episode once and replaces it with newer content', async () => {
+    const config = { directory };
+    expect(await handleUpload(config, upload('ep-1', null))).toEqual({ episodeId: 'ep-1', status: 'stored' });
+    expect(await handleUpload(config, upload('ep-1', null))).toEqual({ episodeId: 'ep-1', status: 'duplicate' });
+    expect(await handleUpload(config, upload('ep-1', true))).toEqual({ episodeId: 'ep-1', status: 'stored' });
+    expect(await fs.readFile(path.join(directory, 'ep-1.jsonl'), 'utf8')).toBe(upload('ep-1', true).episode);
+  });
+
+  it('removes the old screenshot when the new version has none', async () => {
+    await handleUpload({ directory }, upload('ep-2', null));
+    await handleUpload({ directory }, upload('ep-2', false, null));
+    expect((await fs.readdir(directory)).sort()).toEqual(['ep-2.jsonl']);
+  });
+
+  it('survives concurrent uploads of one episode', async () => {
+    const versions = [null, true, false].map(success => upload('ep-3', success));
+    await Promise.all(versions.map(version => handleUpload({ directory }, version)));
+    const stored = await fs.readFile(path.join(directory, 'ep-3.jsonl'), 'utf8');
+    expect(versions.map(version => version.episode)).toContain(stored);
+    expect((await fs.readdir(directory)).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('rejects episode IDs that could leave the directory', async () => {
+    await expect(handleUpload({ directory }, upload('../ep', null))).rejects.toThrow(InvalidRequestError);
+  });
+});
@@ -0,0 +1,85 @@
+// Reference receiver for the episode upload queue: writes each uploaded episode to disk
+// Files are named by episode ID (<episodeId>.jsonl and, when sent, <episodeId>.png), so a retried
+// upload is recognized as a duplicate and a re-upload with newer content (e.g. after the episode
+// was verified) replaces the stored version.
+
+import fs from 'fs/promises';
+import path from 'path';
+import { EPISODE_FORMAT } from '../src/components/Captcha/episodeExport';
+import { EpisodeUpload, UploadReceipt } from '../src/components/Captcha/uploadQueue';
+import { InvalidRequestError } from './verifyHandler';
+
+export interface CollectorConfig {
+  directory: string; // Where episodes are written
+}
+
+export const readCollectorConfig = (env: NodeJS.ProcessEnv): CollectorConfig => ({
+  directory: path.resolve(env.COLLECT_DIR || 'episodes')
+});
+
+// Episode IDs are UUIDs (or base36 time and random digits); anything else could escape the directory
+const EPISODE_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const PNG_DATA_URL = 'data:image/png;base64,';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const parseUpload = (body: unknown): EpisodeUpload => {
+  if (!isRecord(body) || typeof body.episodeId !== 'string' || typeof body.episode !== 'string') {
+    throw new InvalidRequestError('Invalid request: expected "episodeId" and "episode"');
+  }
+  if (!EPISODE_ID_PATTERN.test(body.episodeId)) {
+    throw new InvalidRequestError('Invalid request: malformed episode ID');
+  }
+  const screenshot = body.screenshot ?? null;
+  if (screenshot !== null && (typeof screenshot !== 'string' || !screenshot.startsWith(PNG_DATA_URL))) {
+    throw new InvalidRequestError('Invalid request: "screenshot" must be a PNG data URL');
+  }
+
+  // Only the metadata line is checked; the frames are stored as sent
+  const newline = body.episode.indexOf('\n');
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(newline === -1 ? body.episode : body.episode.slice(0, newline));
+  } catch {
+    throw new InvalidRequestError('Invalid request: the episode does not start with a JSON metadata line');
+  }
+  if (!isRecord(metadata) || metadata.format !== EPISODE_FORMAT || metadata.episode_id !== body.episodeId) {
+    throw new InvalidRequestError(`Invalid request: not a ${EPISODE_FORMAT} with episode ID ${body.episodeId}`);
+  }
+
+  return { episodeId: body.episodeId, episode: body.episode, screenshot };
+};
+
+let temporaryFiles = 0;
+
+// Write through a temporary file so a crash never leaves a half-written episode; the counter keeps
+// concurrent uploads of the same episode from sharing one
+const writeAtomically = async (file: string, data: string | Buffer) => {
+  const temporary = `${file}.${process.pid}.${++temporaryFiles}.tmp`;
+  await fs.writeFile(temporary, data);
+  await fs.rename(temporary, file);
+};
+
+export const handleUpload = async (config: CollectorConfig, body: unknown): Promise<UploadReceipt> => {
+  const upload = parseUpload(body);
+  const episodeFile = path.join(config.directory, `${upload.episodeId}.jsonl`);
+  await fs.mkdir(config.directory, { recursive: true });
+
+  const stored = await fs.readFile(episodeFile, 'utf8').catch(() => null);
+  if (stored === upload.episode) {
+    return { episodeId: upload.episodeId, status: 'duplicate' };
+  }
+
+  await writeAtomically(episodeFile, upload.episode);
+  const screenshotFile = path.join(config.directory, `${upload.episodeId}.png`);
+  if (upload.screenshot) {
+    const png = Buffer.from(upload.screenshot.slice(PNG_DATA_URL.length), 'base64');
+    await writeAtomically(screenshotFile, png);
+  } else {
+    // The screenshot of a replaced version does not belong to the new one
+    await fs.rm(screenshotFile, { force: true });
+  }
+  return { episodeId: upload.episodeId, status: 'stored' };
+};
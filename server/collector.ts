@@ -0,0 +1,61 @@
+// Collection receiver (reference implementation)
+// Receives the episodes posted by the page's upload queue at POST /episodes and writes them to disk.
+// Run it next to the app and point the page at it (REACT_APP_COLLECT_URL or the `collectionEndpoint`
+// prop, e.g. http://localhost:8788/episodes).
+//
+// Configuration (environment variables):
+//   PORT            Port to listen on (default 8788)
+//   COLLECT_DIR     Directory the episodes are written to (default ./episodes)
+//   ALLOWED_ORIGIN  Access-Control-Allow-Origin value (default *)
+
+import http from 'http';
+import { InvalidRequestError } from './verifyHandler';
+import { handleUpload, readCollectorConfig } from './collectHandler';
+import { PayloadTooLargeError, readJson, sendJson, setCorsHeaders } from './http';
+
+const MAX_BODY_BYTES = 100 * 1024 * 1024; // Episodes with image frames are large
+
+const config = readCollectorConfig(process.env);
+const port = Number(process.env.PORT || 8788);
+const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+const server = http.createServer(async (req, res) => {
+  setCorsHeaders(res, allowedOrigin);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/health') {
+    sendJson(res, 200, { status: 'ok', directory: config.directory });
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/episodes') {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    const receipt = await handleUpload(config, await readJson(req, MAX_BODY_BYTES));
+    console.log(`📥 Episode ${receipt.episodeId} ${receipt.status}`);
+    sendJson(res, 200, receipt);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    if (err instanceof InvalidRequestError) {
+      sendJson(res, 400, { error: message });
+    } else if (err instanceof PayloadTooLargeError) {
+      sendJson(res, 413, { error: message });
+    } else {
+      // Disk errors; the page keeps the episode and retries
+      console.error('❌ Could not store episode:', message);
+      sendJson(res, 500, { error: message });
+    }
+  }
+});
+
+server.listen(port, () => {
+  console.log(`📦 Collection receiver on http://localhost:${port}/episodes (writing to ${config.directory})`);
+});
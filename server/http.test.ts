@@ -0,0 +1,18 @@
+/** @jest-environment node */
+import { TooManyRequestsError, createRateLimiter } from './http';
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit per key and window', () => {
+    const limit = createRateLimiter(2, 60000);
+    limit('a', 0);
+    limit('a', 1000);
+    expect(() => limit('a', 2000)).toThrow(TooManyRequestsError);
+    limit('b', 2000);
+    limit('a', 60000);
+  });
+
+  it('is off with a limit of 0', () => {
+    const limit = createRateLimiter(0, 60000);
+    for (let i = 0; i < 100; i++) limit('a', i);
+  });
+});
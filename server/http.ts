@@ -0,0 +1,64 @@
+// Request/response helpers shared by the verification server and the collection receiver
+
+import http from 'http';
+import { InvalidRequestError } from './verifyHandler';
+
+export class PayloadTooLargeError extends Error {}
+
+export class TooManyRequestsError extends Error {}
+
+// Fixed-window request counter per client key; a limit of 0 turns it off
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, { start: number, count: number }>();
+
+  return (key: string, now = Date.now()) => {
+    if (limit <= 0) return;
+    windows.forEach((window, windowKey) => {
+      if (now - window.start >= windowMs) windows.delete(windowKey);
+    });
+    const window = windows.get(key) ?? { start: now, count: 0 };
+    window.count++;
+    windows.set(key, window);
+    if (window.count > limit) {
+      throw new TooManyRequestsError(`Too many requests: at most ${limit} per ${windowMs / 1000} s`);
+    }
+  };
+};
+
+const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new PayloadTooLargeError(`Request body exceeds ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+export const readJson = async (req: http.IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const text = await readBody(req, maxBytes);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new InvalidRequestError('Invalid request: body is not valid JSON');
+  }
+};
+
+export const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const setCorsHeaders = (res: http.ServerResponse, allowedOrigin: string) => {
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+};
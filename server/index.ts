@@ -0,0 +1,127 @@
+// Verification server
+// Holds the model credential so it never reaches the browser: the page posts the scene (images and
+// physics state) to POST /verify and receives the verdict.
+// Also runs the CAPTCHA challenge/response protocol: POST /challenge issues a signed challenge,
+// POST /submit re-simulates the attempt and returns a pass token, and the host site's backend
+// redeems the token at POST /siteverify.
+//
+// Configuration (environment variables):
+//   PORT               Port to listen on (default 8787)
+//   VERIFIER_PROVIDER  gemini | openai | rules | mock (default mock, for development and tests)
+//   VERIFIER_MODEL     Model name (default depends on the provider)
+//   VERIFIER_API_KEY   Credential of the model provider
+//   VERIFIER_ENDPOINT  Base URL of an OpenAI-compatible API
+//   MOCK_VERDICT       pass | fail, answer of the mock model (default pass)
+//   ALLOWED_ORIGIN     Access-Control-Allow-Origin value (default *)
+//   VERIFY_TOKEN       Bearer token that allows free-text tasks on /verify (unset: only task specs)
+//   VERIFY_RATE_LIMIT  /verify (without the token), /challenge and /submit requests per minute and client address
+//                      (default 20, 0: unlimited)
+//   CAPTCHA_SECRET     Key that signs challenges and pass tokens (default random per process)
+//   SITE_SECRET        Secret of the host site's backend for /siteverify (unset: /siteverify always fails)
+//   CHALLENGE_TTL_SECONDS  Time to solve a challenge (default 300)
+//   TOKEN_TTL_SECONDS      Time to redeem a pass token (default 120)
+//   MAX_RISK           Highest bot risk (0..1) that still gets a pass token (default 0.5)
+
+import http from 'http';
+import {
+  InvalidRequestError,
+  MAX_IMAGES,
+  MAX_IMAGE_LENGTH,
+  UnauthorizedRequestError,
+  handleVerify,
+  hasServerToken,
+  readVerifierConfig,
+  readVerifyAccessConfig
+} from './verifyHandler';
+import { ChallengeRejectedError, createChallengeService, readChallengeConfig } from './challengeHandler';
+import { PayloadTooLargeError, TooManyRequestsError, createRateLimiter, readJson, sendJson, setCorsHeaders } from './http';
+
+const MAX_BODY_BYTES = MAX_IMAGES * MAX_IMAGE_LENGTH + 1024 * 1024; // Every image at its limit plus the scene state
+
+const config = readVerifierConfig(process.env);
+const access = readVerifyAccessConfig(process.env);
+// One budget per client address for anonymous /verify calls, /challenge and /submit (which re-simulates)
+const limitRequests = createRateLimiter(access.rateLimit, 60 * 1000);
+const challenges = createChallengeService(readChallengeConfig(process.env));
+const port = Number(process.env.PORT || 8787);
+const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+
+const clientAddress = (req: http.IncomingMessage): string => req.socket.remoteAddress ?? 'unknown';
+
+// Handlers of the POST routes; each receives the parsed JSON body
+const routes: Record<string, (body: unknown, req: http.IncomingMessage) => unknown> = {
+  '/verify': async (body, req) => {
+    const authorized = hasServerToken(req.headers.authorization, access.token);
+    if (!authorized) limitRequests(clientAddress(req));
+    const result = await handleVerify(config, body, authorized);
+    console.log(`✅ ${result.passed ? 'VERIFIED' : 'NOT_VERIFIED'} (${result.provider}/${result.model}, confidence ${result.confidence.toFixed(2)}, ${result.attempts} attempt(s))`);
+    return result;
+  },
+  '/challenge': (body, req) => {
+    limitRequests(clientAddress(req));
+    const signed = challenges.issueChallenge(body);
+    console.log(`🎲 Challenge ${signed.challenge.id} issued (seed ${signed.challenge.seed}, task ${signed.challenge.taskSpec.id})`);
+    return signed;
+  },
+  '/submit': async (body, req) => {
+    limitRequests(clientAddress(req));
+    const result = await challenges.submitChallenge(body);
+    console.log(`${result.success ? '🎟️ Pass token issued' : '❌ Challenge failed'} (task ${result.verification.taskId}, ${result.verification.passed ? 'solved' : 'not solved'}, bot risk ${result.analysis.risk.toFixed(2)})`);
+    return result;
+  },
+  '/siteverify': (body) => {
+    const result = challenges.siteVerify(body);
+    console.log(`🔎 siteverify: ${result.success ? `token for challenge ${result.challengeId} redeemed` : result['error-codes']?.join(', ')}`);
+    return result;
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  setCorsHeaders(res, allowedOrigin);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/health') {
+    sendJson(res, 200, { status: 'ok', provider: config.provider, model: config.model ?? null });
+    return;
+  }
+
+  const route = req.method === 'POST' && req.url ? routes[req.url] : undefined;
+  if (!route) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, await route(await readJson(req, MAX_BODY_BYTES), req));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    if (err instanceof InvalidRequestError) {
+      sendJson(res, 400, { error: message });
+    } else if (err instanceof UnauthorizedRequestError) {
+      sendJson(res, 401, { error: message });
+    } else if (err instanceof ChallengeRejectedError) {
+      sendJson(res, 403, { error: message });
+    } else if (err instanceof PayloadTooLargeError) {
+      sendJson(res, 413, { error: message });
+    } else if (err instanceof TooManyRequestsError) {
+      sendJson(res, 429, { error: message });
+    } else {
+      // The model call failed or never produced a valid verdict, or the re-simulation failed
+      console.error('❌ Verification error:', message);
+      sendJson(res, 502, { error: message });
+    }
+  }
+});
+
+if (allowedOrigin === '*' && (config.provider === 'gemini' || config.provider === 'openai')) {
+  console.warn('⚠️ ALLOWED_ORIGIN is not set; any site can make this server call the paid model (within VERIFY_RATE_LIMIT)');
+}
+
+server.listen(port, () => {
+  console.log(`🔐 Verification server on http://localhost:${port} (provider: ${config.provider}${config.model ? `, model: ${config.model}` : ''})`);
+});
@@ -0,0 +1,26 @@
+// Rapier for Node
+// The package's CommonJS entry sits in a "type": "module" package, so Node would load it as an ES
+// module without exports. It is read and run as the CommonJS script it is instead (it needs no
+// require() of its own).
+
+import fs from 'fs';
+import vm from 'vm';
+import { RapierModule } from '../src/components/Captcha/physicsScene';
+
+const loadCommonJsEntry = (): RapierModule => {
+  const filename = require.resolve('@dimforge/rapier3d-compat');
+  const entry = { exports: {} };
+  vm.compileFunction(fs.readFileSync(filename, 'utf8'), ['exports', 'module'], { filename })(entry.exports, entry);
+  return entry.exports as RapierModule;
+};
+
+let ready: Promise<RapierModule> | null = null;
+
+// Rapier with its WebAssembly module initialized (once per process)
+export const loadRapier = (): Promise<RapierModule> => {
+  if (!ready) {
+    const rapier = loadCommonJsEntry();
+    ready = rapier.init().then(() => rapier);
+  }
+  return ready;
+};
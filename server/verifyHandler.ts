@@ -0,0 +1,218 @@
+// /verify request handling
+// Validates the scene sent by the browser and runs the configured verifier with the server's credential.
+
+import {
+  VerifierConfig,
+  VerifierProvider,
+  VerifierResult,
+  VerificationInput,
+  LabeledImage,
+  VERIFIER_PROVIDERS,
+  collectImages,
+  createVerifier,
+  runVerifier
+} from '../src/components/Captcha/verifier';
+import crypto from 'crypto';
+import { describeTask, parseTaskSpec, referencedObjects } from '../src/components/Captcha/taskSpec';
+import { ObjectState, TableBounds } from '../src/components/Captcha/taskVerifier';
+import { SceneSummary, buildSceneSummary } from '../src/components/Captcha/sceneSummary';
+import { KEYFRAME_LABEL_PATTERN, VIEW_LABELS } from '../src/components/Captcha/sceneViews';
+
+// Rejected input (answered with 400)
+export class InvalidRequestError extends Error {}
+
+// Free-text task without the server token (answered with 401)
+export class UnauthorizedRequestError extends Error {}
+
+// Limits on what an anonymous page can make the server send to the model
+export const MAX_TASK_LENGTH = 500;
+export const MAX_IMAGES = 9;                 // Main view, four extra views and four keyframes
+export const MAX_IMAGE_LENGTH = 1024 * 1024; // Characters of one data URL
+
+export const readVerifierConfig = (env: NodeJS.ProcessEnv): VerifierConfig => {
+  const provider = (env.VERIFIER_PROVIDER || 'mock') as VerifierProvider;
+  if (!VERIFIER_PROVIDERS.includes(provider) || provider === 'server') {
+    throw new Error(`Invalid VERIFIER_PROVIDER: ${provider}`);
+  }
+  if (env.MOCK_VERDICT && env.MOCK_VERDICT !== 'pass' && env.MOCK_VERDICT !== 'fail') {
+    throw new Error(`Invalid MOCK_VERDICT: ${env.MOCK_VERDICT}`);
+  }
+
+  return {
+    provider,
+    model: env.VERIFIER_MODEL || undefined,
+    apiKey: env.VERIFIER_API_KEY || undefined,
+    endpoint: env.VERIFIER_ENDPOINT || undefined,
+    mockVerdict: env.MOCK_VERDICT !== 'fail'
+  };
+};
+
+export interface VerifyAccessConfig {
+  token: string | undefined; // Lets trusted callers send free-text tasks and skip the rate limit
+  rateLimit: number;         // /verify requests per minute and client address (0: unlimited)
+}
+
+export const readVerifyAccessConfig = (env: NodeJS.ProcessEnv): VerifyAccessConfig => {
+  const rateLimit = env.VERIFY_RATE_LIMIT === undefined || env.VERIFY_RATE_LIMIT === '' ? 20 : Number(env.VERIFY_RATE_LIMIT);
+  if (!Number.isInteger(rateLimit) || rateLimit < 0) {
+    throw new Error(`Invalid VERIFY_RATE_LIMIT: ${env.VERIFY_RATE_LIMIT}`);
+  }
+  return { token: env.VERIFY_TOKEN || undefined, rateLimit };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isDataUrl = (value: unknown): value is string => {
+  return typeof value === 'string' && /^data:image\/(png|jpeg);base64,/.test(value);
+};
+
+const checkImageLength = (dataUrl: string, field: string) => {
+  if (dataUrl.length > MAX_IMAGE_LENGTH) {
+    throw new InvalidRequestError(`Invalid request: ${field} exceeds ${MAX_IMAGE_LENGTH} characters`);
+  }
+};
+
+// Labels go into the prompt, so only the ones the page writes are taken
+const VIEW_LABEL_LIST: string[] = Object.values(VIEW_LABELS);
+const isKnownLabel = (label: unknown, field: string): label is string => {
+  return typeof label === 'string' && (field === 'views' ? VIEW_LABEL_LIST.includes(label) : KEYFRAME_LABEL_PATTERN.test(label));
+};
+
+const parseImages = (value: unknown, field: 'views' | 'keyframes'): LabeledImage[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    throw new InvalidRequestError(`Invalid request: "${field}" must be an array`);
+  }
+  return value.map((image, index) => {
+    if (!isRecord(image) || !isDataUrl(image.dataUrl)) {
+      throw new InvalidRequestError(`Invalid request: ${field}[${index}] needs a label and an image data URL`);
+    }
+    if (!isKnownLabel(image.label, field)) {
+      throw new InvalidRequestError(`Invalid request: ${field}[${index}] has an unknown label`);
+    }
+    checkImageLength(image.dataUrl, `${field}[${index}]`);
+    return { label: image.label, dataUrl: image.dataUrl };
+  });
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const parseObjects = (value: unknown): ObjectState[] => {
+  if (!Array.isArray(value)) {
+    throw new InvalidRequestError('Invalid request: "objects" must be an array');
+  }
+  const objects = value.map((obj, index) => {
+    const position = isRecord(obj) ? obj.position : undefined;
+    if (!isRecord(obj) || typeof obj.name !== 'string' || !/^[a-z][a-z0-9_]*$/i.test(obj.name) || !isRecord(position)
+      || ![position.x, position.y, position.z].every(isFiniteNumber)) {
+      throw new InvalidRequestError(`Invalid request: objects[${index}] needs a name and a numeric position`);
+    }
+    if ((obj.size !== undefined && !isPositive(obj.size)) || (obj.height !== undefined && !isPositive(obj.height))) {
+      throw new InvalidRequestError(`Invalid request: objects[${index}] size and height must be positive numbers`);
+    }
+    const state: ObjectState = {
+      name: obj.name,
+      position: { x: position.x as number, y: position.y as number, z: position.z as number }
+    };
+    if (obj.size !== undefined) state.size = obj.size;
+    if (obj.height !== undefined) state.height = obj.height;
+    return state;
+  });
+
+  const names = objects.map(obj => obj.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new InvalidRequestError(`Invalid request: duplicate object "${duplicate}"`);
+  }
+  return objects;
+};
+
+const parseTable = (value: unknown): TableBounds | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value) || !isPositive(value.halfWidth) || !isPositive(value.halfDepth)) {
+    throw new InvalidRequestError('Invalid request: "table" needs positive halfWidth and halfDepth');
+  }
+  return { halfWidth: value.halfWidth, halfDepth: value.halfDepth };
+};
+
+// The summary goes into the prompt, so only the arm position is taken from the page and the rest is
+// rebuilt from the validated objects
+const parseSceneSummary = (value: unknown, objects: ObjectState[], table: TableBounds | undefined): SceneSummary | null => {
+  if (value === undefined || value === null) return null;
+  const robotArm = isRecord(value) ? value.robotArm : undefined;
+  if (!isRecord(robotArm) || !isFiniteNumber(robotArm.x) || !isFiniteNumber(robotArm.z)) {
+    throw new InvalidRequestError('Invalid request: "sceneSummary" needs a numeric robotArm position');
+  }
+  return buildSceneSummary(objects, { x: robotArm.x, z: robotArm.z }, table);
+};
+
+// Free-text tasks are only taken from callers holding the server token; the page sends a task spec
+export const parseVerificationInput = (body: unknown, authorized = false): VerificationInput => {
+  if (!isRecord(body)) {
+    throw new InvalidRequestError('Invalid request: expected a JSON object');
+  }
+  if (typeof body.task !== 'string' || body.task.trim() === '') {
+    throw new InvalidRequestError('Invalid request: "task" must be a non-empty string');
+  }
+  if (body.task.length > MAX_TASK_LENGTH) {
+    throw new InvalidRequestError(`Invalid request: "task" exceeds ${MAX_TASK_LENGTH} characters`);
+  }
+  if (body.image !== null && body.image !== undefined && !isDataUrl(body.image)) {
+    throw new InvalidRequestError('Invalid request: "image" must be a PNG or JPEG data URL');
+  }
+  if (isDataUrl(body.image)) checkImageLength(body.image, '"image"');
+
+  let taskSpec = null;
+  if (body.taskSpec !== null && body.taskSpec !== undefined) {
+    try {
+      taskSpec = parseTaskSpec(body.taskSpec);
+    } catch (err) {
+      throw new InvalidRequestError(err instanceof Error ? err.message : 'Invalid task spec');
+    }
+  }
+  if (!taskSpec && !authorized) {
+    throw new UnauthorizedRequestError('Unauthorized: free-text tasks need the server token; send a "taskSpec"');
+  }
+
+  const objects = parseObjects(body.objects);
+  const missing = taskSpec ? referencedObjects(taskSpec).filter(name => !objects.some(obj => obj.name === name)) : [];
+  if (missing.length > 0) {
+    throw new InvalidRequestError(`Invalid request: the task refers to objects that are not in the scene: ${missing.join(', ')}`);
+  }
+
+  const table = parseTable(body.table);
+  const input: VerificationInput = {
+    // Anonymous callers get the task described from the spec, not their own text in the prompt
+    task: taskSpec && !authorized ? describeTask(taskSpec) : body.task,
+    taskSpec,
+    image: body.image ?? null,
+    objects,
+    table,
+    views: parseImages(body.views, 'views'),
+    keyframes: parseImages(body.keyframes, 'keyframes'),
+    sceneSummary: parseSceneSummary(body.sceneSummary, objects, table)
+  };
+  if (collectImages(input).length > MAX_IMAGES) {
+    throw new InvalidRequestError(`Invalid request: at most ${MAX_IMAGES} images`);
+  }
+  return input;
+};
+
+// Whether an Authorization header carries the server token (never, when no token is configured)
+export const hasServerToken = (header: string | undefined, token: string | undefined): boolean => {
+  if (!token || !header?.startsWith('Bearer ')) return false;
+  const left = Buffer.from(header.slice('Bearer '.length));
+  const right = Buffer.from(token);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+export const handleVerify = async (config: VerifierConfig, body: unknown, authorized = false): Promise<VerifierResult> => {
+  const input = parseVerificationInput(body, authorized);
+  const result = await runVerifier(createVerifier(config), input);
+  // The verdict follows the sub-goals, whatever overall answer the model gave
+  return { ...result, passed: result.subgoals.every(subgoal => subgoal.passed) };
+};
@@ -18,17 +18,32 @@ const Message = styled.div`
   font-weight: bold;
 `;
 
+const Token = styled.code`
+  margin-top: 8px;
+  max-width: 600px;
+  font-size: 0.75rem;
+  color: #666;
+  word-break: break-all;
+`;
+
+// `?challenge` runs the server challenge/response flow instead of client-side verification
+const challengeMode = new URLSearchParams(window.location.search).has('challenge');
+
 const App: React.FC = () => {
   const [isVerified, setIsVerified] = useState(false);
+  // Pass token to hand to the site's backend, which redeems it at /siteverify
+  const [token, setToken] = useState<string | null>(null);
 
-  const handleVerification = (verified: boolean) => {
+  const handleVerification = (verified: boolean, passToken?: string) => {
     setIsVerified(verified);
+    setToken(passToken ?? null);
   };
 
   return (
     <AppContainer>
-      <ThreeCaptcha onVerify={handleVerification} />
+      <ThreeCaptcha onVerify={handleVerification} challengeMode={challengeMode} />
       {isVerified && <Message>CAPTCHA 통과! (You are not a robot)</Message>}
+      {token && <Token>Pass token: {token}</Token>}
     </AppContainer>
   );
 };
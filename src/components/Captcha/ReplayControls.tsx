@@ -0,0 +1,158 @@
+import React from 'react';
+import styled from 'styled-components';
+import { PoseError } from './poseError';
+import { DivergenceReport } from './resimulation';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  frameIndex: number;
+  frameCount: number;
+  timestamp: number; // ms of the current frame
+  isPaused: boolean;
+  speed: number;
+  loop: boolean;
+  poseError?: PoseError | null; // Error of the current frame against the recording
+  divergence?: DivergenceReport | null; // Re-simulation result, once the last frame was reached
+  onTogglePause: () => void;
+  onStep: (direction: -1 | 1) => void;
+  onSeek: (frameIndex: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onLoopChange: (loop: boolean) => void;
+}
+
+const TransportContainer = styled.div`
+  width: 100%;
+  margin-top: 12px;
+  padding: 10px 12px;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  background: white;
+  box-sizing: border-box;
+  font-size: 0.8rem;
+  color: #555;
+`;
+
+const TransportRow = styled.div`
+  display: flex;
+  gap: 8px;
+  align-items: center;
+
+  & + & {
+    margin-top: 8px;
+  }
+
+  select {
+    padding: 2px 4px;
+    border: 1.5px solid #e0e0e0;
+    border-radius: 6px;
+    font-size: 0.8rem;
+  }
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+  }
+`;
+
+const TransportButton = styled.button`
+  padding: 4px 10px;
+  border: none;
+  border-radius: 6px;
+  background: #e0e0e0;
+  color: #333;
+  font-size: 0.85rem;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover { background: #d0d0d0; }
+  &:disabled { background: #f5f5f5; color: #999; cursor: not-allowed; }
+`;
+
+const Timeline = styled.input`
+  flex: 1;
+  cursor: pointer;
+`;
+
+const FrameInfo = styled.span`
+  margin-left: auto;
+  font-family: monospace;
+`;
+
+// Transport bar for frame-by-frame inspection of a replay
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  frameIndex,
+  frameCount,
+  timestamp,
+  isPaused,
+  speed,
+  loop,
+  poseError,
+  divergence,
+  onTogglePause,
+  onStep,
+  onSeek,
+  onSpeedChange,
+  onLoopChange
+}) => {
+  return (
+    <TransportContainer>
+      <TransportRow>
+        <Timeline
+          type="range"
+          min={0}
+          max={Math.max(0, frameCount - 1)}
+          value={frameIndex}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          aria-label="Replay timeline"
+        />
+      </TransportRow>
+      <TransportRow>
+        <TransportButton onClick={() => onStep(-1)} disabled={frameIndex <= 0} title="Previous frame">
+          ⏮️
+        </TransportButton>
+        <TransportButton onClick={onTogglePause} title={isPaused ? 'Resume' : 'Pause'}>
+          {isPaused ? '▶️' : '⏸️'}
+        </TransportButton>
+        <TransportButton onClick={() => onStep(1)} disabled={frameIndex >= frameCount - 1} title="Next frame">
+          ⏭️
+        </TransportButton>
+        <label>
+          Speed
+          <select value={speed} onChange={(e) => onSpeedChange(Number(e.target.value))}>
+            {REPLAY_SPEEDS.map(value => (
+              <option key={value} value={value}>{value}x</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input type="checkbox" checked={loop} onChange={(e) => onLoopChange(e.target.checked)} />
+          Loop
+        </label>
+        <FrameInfo>
+          Frame {frameIndex + 1}/{frameCount} · {(timestamp / 1000).toFixed(3)}s
+        </FrameInfo>
+      </TransportRow>
+      {poseError && (
+        <TransportRow>
+          <FrameInfo>
+            Pose error: {poseError.position.toFixed(4)} units · {(poseError.rotation * 180 / Math.PI).toFixed(2)}°
+          </FrameInfo>
+        </TransportRow>
+      )}
+      {divergence && (
+        <TransportRow>
+          <span>
+            {divergence.consistent ? '✅ Physically consistent' : `⚠️ Diverged at frame ${(divergence.firstDivergentFrame ?? 0) + 1}`}
+          </span>
+          <FrameInfo>
+            Max {divergence.summary.maxPosition.toFixed(4)} · mean {divergence.summary.meanPosition.toFixed(4)} · final {divergence.finalError.position.toFixed(4)} units
+          </FrameInfo>
+        </TransportRow>
+      )}
+    </TransportContainer>
+  );
+};
+
+export default ReplayControls;
@@ -2,74 +2,254 @@ import React, { useRef, useEffect, useState } from 'react';
 import styled from 'styled-components';
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
-
-interface ThreeCaptchaProps {
-  onVerify: (isVerified: boolean) => void;
+import { generateSceneLayout, resolveSceneSeed } from './sceneGenerator';
+import { verifyTask, ObjectState, TaskVerification } from './taskVerifier';
+import {
+  VerifierConfig,
+  BrowserVerifierProvider,
+  VerifierResult,
+  VerificationInput,
+  BROWSER_VERIFIER_PROVIDERS,
+  DEFAULT_SERVER_ENDPOINT,
+  createVerifier,
+  verifierProviderLabel,
+  isVisionProvider,
+  LabeledImage,
+  collectImages,
+  runVerifier,
+  MAX_VERIFIER_ATTEMPTS
+} from './verifier';
+import { EXTRA_VIEWS, renderSceneViews, renderToDataUrl, keyframeIndices, keyframeLabel } from './sceneViews';
+import { buildSceneSummary } from './sceneSummary';
+import { TaskSpec, describeTask, formatPredicate, parseTaskSpec } from './taskSpec';
+import taskExamplesJson from './taskExamples.json';
+import { FixedTimestepLoop, DEFAULT_STEP_SIZE, DEFAULT_MAX_SUB_STEPS } from './fixedTimestep';
+import {
+  RecordingFrame,
+  RecordingTiming,
+  RawFrameState,
+  FramePose,
+  CaptureRate,
+  CAPTURE_RATES,
+  DEFAULT_CAPTURE_RATE,
+  captureRateLabel,
+  RecordingSession,
+  stepsPerFrame,
+  frameIntervalMs,
+  createEpisodeId,
+  frameIndexAt,
+  normalizeCoordinates,
+  Vector3State
+} from './recording';
+import { PoseError, computePoseError, summarizePoseErrors } from './poseError';
+import { ReplayMode, REPLAY_MODES, replayModeLabel, DivergenceReport, armTrajectory, armPositionAt, buildDivergenceReport, gripperClosedAt } from './resimulation';
+import {
+  GRAVITY,
+  ROBOT_ARM_RADIUS,
+  armStart,
+  sceneLayoutOptions,
+  createGroundBody,
+  createArmBody,
+  createObjectBody
+} from './physicsScene';
+import { SignedChallenge, ChallengeResult, createSubmission, requestChallenge, submitChallenge } from './challenge';
+import { TrajectoryAnalysis, analyzeTrajectory } from './trajectoryAnalysis';
+import { CaptchaExpiry, CaptchaProgress, CaptchaSize, CaptchaStage, CaptchaTheme, VerificationMetadata } from './captchaEvents';
+import { UploadQueue, UploadStatus, createUploadQueue } from './uploadQueue';
+import ReplayControls from './ReplayControls';
+import { serializeEpisodeJsonl, parseEpisodeJsonl } from './episodeExport';
+import { serializeRecordingCsv, parseRecordingCsv } from './recordingCsv';
+import { DEFAULT_SCENE_CONFIG, SceneConfig, missingTaskObjects, objectState, tableBounds } from './sceneConfig';
+import { createObjectMesh, createTableMesh } from './sceneMeshes';
+import { ARM_JOINT_NAMES, ArmModel, ArmPose, JointAngles, armMount, createArmModel, forwardKinematics, solveArmIk } from './armKinematics';
+import { UrdfArmSummary, UrdfRobot, loadUrdf, resolveUrdfMesh } from './urdf';
+import { UrdfArm, createUrdfArm } from './urdfArm';
+import { GRIPPER_OPEN_WIDTH, Gripper } from './gripper';
+import { ArmMotion } from './armMotion';
+
+export interface ThreeCaptchaProps {
+  // `token` is the server's pass token (challenge mode)
+  onVerify: (isVerified: boolean, token?: string, metadata?: VerificationMetadata) => void;
+  seed?: number; // Scene seed (falls back to the `?seed=` URL parameter, then a random seed)
+  physicsStepSize?: number; // Fixed physics step in seconds (default 1/60)
+  maxSubSteps?: number;     // Max physics steps per rendered frame before dropping time (default 5)
+  armMaxVelocity?: number;     // Top speed of the arm tip in Three.js units per second (default 6, always in challenge mode)
+  armMaxAcceleration?: number; // Acceleration limit of the arm tip in units per second² (default 30, always in challenge mode)
+  verifierProvider?: BrowserVerifierProvider; // Initial verification backend (default 'server')
+  verifierEndpoint?: string;                  // Verification server URL (default REACT_APP_VERIFY_URL, then localhost:8787)
+  challengeMode?: boolean;                    // Pass only with a server-issued challenge and token (default false)
+  collectionEndpoint?: string; // URL that receives every completed episode (default REACT_APP_COLLECT_URL; unset: no uploads)
+  task?: string;          // Task example ID, task spec JSON or free text (challenge mode: example ID requested from the server)
+  sceneConfig?: SceneConfig; // Table and objects (default: three cubes; challenge mode always uses the default scene)
+  robotUrdf?: string;        // URL of a URDF robot to drive instead of the built-in arm (challenge mode always uses the built-in arm)
+  theme?: CaptchaTheme;   // Color scheme (default 'light')
+  size?: CaptchaSize;     // 'compact' keeps only the canvas, the task and the main buttons (default 'normal')
+  onReady?: () => void;                                   // Scene loaded and interactive
+  onProgress?: (progress: CaptchaProgress) => void;       // Stage changes of an attempt
+  onExpire?: (expiry: CaptchaExpiry) => void;             // Challenge or pass token ran out
+  onError?: (error: Error) => void;                       // Replaces the alert dialogs when given
 }
 
+// Arm height range (the pointer moves the arm at the current height, the wheel and arrow keys change it)
 const ROBOT_ARM_Y = 0.3;
+const ROBOT_ARM_MAX_Y = 1.8;
+const ROBOT_ARM_HEIGHT_STEP = 0.1;
+
+// Recording frames rendered as evidence for vision-model verification
+const KEYFRAME_COUNT = 4;
 
-// Robot arm class for physics simulation with Rapier
+// Task examples for quick selection, stored as structured task specs (only those that fit the scene are offered)
+const TASK_EXAMPLES: TaskSpec[] = (taskExamplesJson as unknown[]).map(example => parseTaskSpec(example));
+
+// Articulated robot arm (built in or loaded from a URDF file) rendered in Three.js, with the tip as a kinematic Rapier body
 class RobotArm {
-  cylinder: THREE.Mesh;
-  rigidBody: RAPIER.RigidBody | null = null;
-  position: THREE.Vector3;
+  group: THREE.Group;
+  cylinder: THREE.Mesh; // End effector (the part that touches the objects)
+  rigidBody: RAPIER.RigidBody;
+  position: THREE.Vector3; // Tip position reached by the joints
+  joints: JointAngles;
+  jointNames: string[];
   radius: number;
+  model: ArmModel;
+  urdf: UrdfArm | null; // Robot loaded from a URDF file, drawn and solved in place of the built-in arm
   world: RAPIER.World;
+  private links: THREE.Mesh[];
+  private jointMarkers: THREE.Mesh[];
+  private hand: THREE.Group; // Gripper jaws, turned with the base so they close across the arm
+  private jaws: THREE.Mesh[];
 
-  constructor(world: RAPIER.World) {
+  constructor(world: RAPIER.World, model: ArmModel, start: Vector3State, urdf: UrdfArm | null = null) {
     this.world = world;
-    this.radius = 0.45; // 3cm diameter = 1.5cm radius = 0.45 units
+    this.model = model;
+    this.urdf = urdf;
+    this.jointNames = urdf ? urdf.jointNames : ARM_JOINT_NAMES;
+    this.radius = ROBOT_ARM_RADIUS;
+    this.group = new THREE.Group();
     
-    // Create visual cylinder
-    const geometry = new THREE.CylinderGeometry(this.radius, this.radius, 0.8, 16);
     const material = new THREE.MeshPhongMaterial({ color: 0x888888 });
-    this.cylinder = new THREE.Mesh(geometry, material);
-    this.cylinder.position.set(0, 0.4, 0);
+    const jointMaterial = new THREE.MeshPhongMaterial({ color: 0x555555 });
     
-    // Create physics body with Rapier
-    const rigidBodyDesc = RAPIER.RigidBodyDesc.kinematicPositionBased();
-    this.rigidBody = world.createRigidBody(rigidBodyDesc);
+    if (urdf) {
+      this.links = [];
+      this.jointMarkers = [];
+      this.group.add(urdf.group);
+    } else {
+      // Base column, upper arm, forearm and tool: unit-height cylinders stretched between the joints
+      const linkRadii = [0.3, 0.16, 0.13, 0.1];
+      this.links = linkRadii.map(radius => new THREE.Mesh(new THREE.CylinderGeometry(radius, radius, 1, 16), material));
+      this.jointMarkers = [0.22, 0.18, 0.14].map(radius => new THREE.Mesh(new THREE.SphereGeometry(radius, 16, 12), jointMaterial));
+      this.group.add(...this.links, ...this.jointMarkers);
+    }
     
-    // Create collider (sphere for smooth interaction)
-    const colliderDesc = RAPIER.ColliderDesc.ball(this.radius);
-    world.createCollider(colliderDesc, this.rigidBody);
+    // End effector cylinder around the tip
+    const geometry = new THREE.CylinderGeometry(this.radius, this.radius, 0.8, 16);
+    this.cylinder = new THREE.Mesh(geometry, material);
+    this.group.add(this.cylinder);
+    
+    // Parallel jaws on either side of the tip
+    this.hand = new THREE.Group();
+    this.jaws = [-1, 1].map(() => new THREE.Mesh(new THREE.BoxGeometry(0.12, 0.7, 0.35), jointMaterial));
+    this.hand.add(...this.jaws);
+    this.group.add(this.hand);
+    this.setGripperWidth(GRIPPER_OPEN_WIDTH);
     
-    this.rigidBody.setTranslation({ x: 0, y: 0.4, z: 0 }, true);
+    // Create physics body with Rapier (shared with the server's re-simulation)
+    this.rigidBody = createArmBody(RAPIER, world, start);
     
-    this.position = this.cylinder.position;
+    this.position = new THREE.Vector3();
+    this.joints = [];
+    this.setPosition(new THREE.Vector3(start.x, start.y, start.z));
   }
 
-  setPosition(position: THREE.Vector3) {
-    this.position.copy(position);
-    this.cylinder.position.copy(position);
-    if (this.rigidBody) {
-      this.rigidBody.setTranslation({ x: position.x, y: position.y, z: position.z }, true);
+  // Place the tip at the target through the IK solver at once (it stops short of unreachable targets)
+  setPosition(target: THREE.Vector3) {
+    this.joints = this.solve(target);
+    this.urdf?.setJointAngles(this.joints);
+    const tip = this.showJoints(this.joints);
+    this.position.set(tip.x, tip.y, tip.z);
+    this.rigidBody.setTranslation(tip, true);
+  }
+
+  // Move the tip to the target over the next physics step, so the bodies carry the matching velocity
+  // into their contacts (the target should be one step of limited motion away, see ArmMotion)
+  moveTo(target: { x: number, y: number, z: number }) {
+    this.joints = this.solve(target);
+    this.urdf?.setJointAngles(this.joints, true);
+    const tip = this.showJoints(this.joints);
+    this.position.set(tip.x, tip.y, tip.z);
+    this.rigidBody.setNextKinematicTranslation(tip);
+  }
+
+  // Pose the meshes only, e.g. for offscreen renders of recorded frames (the body stays where it is)
+  showTarget(target: { x: number, y: number, z: number }) {
+    this.showJoints(this.solve(target));
+  }
+
+  // Pose the meshes for joint angles; returns the tip
+  showJoints(angles: JointAngles): { x: number, y: number, z: number } {
+    let tip;
+    if (this.urdf) {
+      tip = this.urdf.showJoints(angles);
+    } else {
+      const pose = forwardKinematics(this.model, angles);
+      this.showLinks(pose);
+      tip = pose.tip;
     }
+    this.cylinder.position.set(tip.x, tip.y, tip.z);
+    this.hand.position.set(tip.x, tip.y, tip.z);
+    this.hand.rotation.y = Math.atan2(tip.x - this.model.base.x, tip.z - this.model.base.z);
+    return tip;
+  }
+
+  private solve(target: { x: number, y: number, z: number }): JointAngles {
+    return this.urdf ? this.urdf.solve(target, this.joints).angles : solveArmIk(this.model, target).angles;
+  }
+
+  private showLinks(pose: ArmPose) {
+    const points = [pose.base, pose.shoulder, pose.elbow, pose.wrist, pose.tip];
+    this.links.forEach((link, i) => {
+      const from = new THREE.Vector3(points[i].x, points[i].y, points[i].z);
+      const to = new THREE.Vector3(points[i + 1].x, points[i + 1].y, points[i + 1].z);
+      const direction = to.clone().sub(from);
+      link.position.copy(from).add(to).multiplyScalar(0.5);
+      link.scale.set(1, Math.max(direction.length(), 1e-3), 1);
+      link.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction.normalize());
+    });
+    [pose.shoulder, pose.elbow, pose.wrist].forEach((point, i) => this.jointMarkers[i].position.set(point.x, point.y, point.z));
+  }
+
+  // Arm geometry recorded with episodes
+  get description(): ArmModel | UrdfArmSummary {
+    return this.urdf ? this.urdf.summary : this.model;
+  }
+
+  // Jaw gap (Three.js units)
+  setGripperWidth(width: number) {
+    this.jaws.forEach((jaw, i) => jaw.position.set((i === 0 ? -1 : 1) * (width / 2 + 0.06), -0.1, 0));
   }
 
   dispose() {
-    if (this.rigidBody) {
-      this.world.removeRigidBody(this.rigidBody);
-    }
+    this.urdf?.dispose();
+    this.world.removeRigidBody(this.rigidBody);
   }
 }
 
-const OuterBox = styled.div`
+const OuterBox = styled.div<{ $theme: CaptchaTheme, $size: CaptchaSize }>`
   display: flex;
   gap: 20px;
-  padding: 20px;
-  max-width: 1000px;
+  padding: ${props => props.$size === 'compact' ? '8px' : '20px'};
+  max-width: ${props => props.$size === 'compact' ? '460px' : '1000px'};
   margin: 0 auto;
-  background: #fafdff;
+  background: ${props => props.$theme === 'dark' ? '#1e2329' : '#fafdff'};
+  color: ${props => props.$theme === 'dark' ? '#e0e0e0' : 'inherit'};
   border: 2.5px solid #2196f3;
   border-radius: 16px;
   box-shadow: 0 4px 16px rgba(33, 150, 243, 0.08);
 `;
 
-const MainContent = styled.div`
+const MainContent = styled.div<{ $size: CaptchaSize }>`
   width: 460px;
-  padding: 12px 24px 24px 24px;
+  padding: ${props => props.$size === 'compact' ? '8px 12px 12px 12px' : '12px 24px 24px 24px'};
   display: flex;
   flex-direction: column;
   align-items: center;
@@ -141,6 +321,18 @@ const TaskExampleItem = styled.button`
   }
 `;
 
+const TaskFileLabel = styled.label`
+  margin-top: 8px;
+  font-size: 0.8rem;
+  color: #2196f3;
+  cursor: pointer;
+  text-align: center;
+
+  input {
+    display: none;
+  }
+`;
+
 const Logo = styled.div`
   font-family: 'Segoe UI', Arial, sans-serif;
   font-size: 1.6rem;
@@ -167,10 +359,10 @@ const CanvasFrame = styled.div`
   }
 `;
 
-const Instructions = styled.div`
+const Instructions = styled.div<{ $theme: CaptchaTheme }>`
   margin-top: 12px;
   font-size: 0.9rem;
-  color: #666;
+  color: ${props => props.$theme === 'dark' ? '#b0b8c0' : '#666'};
   text-align: center;
   line-height: 1.4;
 `;
@@ -218,6 +410,47 @@ const ControlButton = styled.button<{ $variant?: 'primary' | 'secondary' | 'dang
   }}
 `;
 
+const ImportLabel = styled.label<{ $disabled: boolean }>`
+  padding: 8px 16px;
+  border-radius: 6px;
+  font-size: 0.85rem;
+  font-weight: 600;
+  background: ${props => props.$disabled ? '#f5f5f5' : '#e0e0e0'};
+  color: ${props => props.$disabled ? '#999' : '#333'};
+  cursor: ${props => props.$disabled ? 'not-allowed' : 'pointer'};
+  transition: all 0.2s ease;
+
+  &:hover {
+    background: ${props => props.$disabled ? '#f5f5f5' : '#d0d0d0'};
+  }
+
+  input {
+    display: none;
+  }
+`;
+
+const RecordingOptions = styled.div`
+  display: flex;
+  gap: 16px;
+  margin-top: 12px;
+  align-items: center;
+  font-size: 0.8rem;
+  color: #555;
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+
+  select {
+    padding: 4px 6px;
+    border: 1.5px solid #e0e0e0;
+    border-radius: 6px;
+    font-size: 0.8rem;
+  }
+`;
+
 const StatusIndicator = styled.div<{ $isActive: boolean }>`
   width: 8px;
   height: 8px;
@@ -246,6 +479,18 @@ const ApiKeyLabel = styled.label`
   text-align: left;
 `;
 
+const VerifierRow = styled.div`
+  display: flex;
+  gap: 8px;
+
+  select {
+    padding: 0 8px;
+    border: 1.5px solid #e0e0e0;
+    border-radius: 6px;
+    font-size: 0.85rem;
+  }
+`;
+
 const ApiKeyInput = styled.input`
   width: 100%;
   padding: 10px 12px;
@@ -293,65 +538,217 @@ const VerificationResult = styled.div<{ $result: 'success' | 'failed' }>`
   }
 `;
 
-const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({ onVerify }) => {
+const SubgoalList = styled.ul`
+  margin: 8px 0 0 0;
+  padding: 0;
+  list-style: none;
+  font-size: 0.8rem;
+  font-weight: 400;
+  text-align: left;
+  line-height: 1.5;
+`;
+
+const DEFAULT_TASK = 'Move the robot arm to touch any of the 3D objects';
+
+// Parse a task spec and check that every object it refers to is in the scene
+const parseSceneTask = (value: unknown, sceneConfig: SceneConfig): TaskSpec => {
+  const spec = parseTaskSpec(value);
+  const missing = missingTaskObjects(spec, sceneConfig);
+  if (missing.length > 0) {
+    throw new Error(`Invalid task spec: ${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} not in the scene`);
+  }
+  return spec;
+};
+
+// Initial task from the `task` prop: a task example ID, a task spec as JSON, or free text
+const resolveTaskProp = (
+  value: string | undefined,
+  examples: TaskSpec[],
+  sceneConfig: SceneConfig
+): { task: string, taskSpec: TaskSpec | null, error: Error | null } => {
+  if (!value?.trim()) return { task: DEFAULT_TASK, taskSpec: null, error: null };
+  
+  const example = examples.find(spec => spec.id === value.trim());
+  if (example) return { task: describeTask(example), taskSpec: example, error: null };
+  
+  if (value.trim().startsWith('{')) {
+    try {
+      const spec = parseSceneTask(value, sceneConfig);
+      return { task: describeTask(spec), taskSpec: spec, error: null };
+    } catch (err) {
+      return { task: DEFAULT_TASK, taskSpec: null, error: err instanceof Error ? err : new Error('Invalid task spec') };
+    }
+  }
+  return { task: value, taskSpec: null, error: null };
+};
+
+const formatBotRisk = (analysis: TrajectoryAnalysis) => {
+  return `🕵️ Bot risk ${analysis.risk.toFixed(2)}${analysis.signals.length > 0 ? ` — ${analysis.signals.join(', ')}` : ''}`;
+};
+
+const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({
+  onVerify,
+  seed,
+  physicsStepSize = DEFAULT_STEP_SIZE,
+  maxSubSteps = DEFAULT_MAX_SUB_STEPS,
+  armMaxVelocity,
+  armMaxAcceleration,
+  verifierProvider: initialVerifierProvider = 'server',
+  verifierEndpoint: initialVerifierEndpoint = process.env.REACT_APP_VERIFY_URL,
+  challengeMode = false,
+  collectionEndpoint = process.env.REACT_APP_COLLECT_URL,
+  task: taskProp,
+  sceneConfig: sceneConfigProp,
+  robotUrdf: robotUrdfProp,
+  theme = 'light',
+  size = 'normal',
+  onReady,
+  onProgress,
+  onExpire,
+  onError
+}) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const robotArmRef = useRef<RobotArm | null>(null);
-  const objectsRef = useRef<Array<{ mesh: THREE.Mesh, body: RAPIER.RigidBody }>>([]);
+  const objectsRef = useRef<Array<{ mesh: THREE.Object3D, body: RAPIER.RigidBody }>>([]);
   const lastTimeRef = useRef<number>(0);
   const worldRef = useRef<RAPIER.World | null>(null);
-  const initializedRef = useRef<boolean>(false);
+  // Fixed-timestep loop that drives the physics independently of the frame rate
+  const physicsLoopRef = useRef<FixedTimestepLoop | null>(null);
   // Refs that always hold the latest on/off state for the animation loop
   const isRecordingRef = useRef<boolean>(false);
   const isReplayingRef = useRef<boolean>(false);
-  // Renderer ref for Gemini verification
+  // Renderer ref for screenshots and verification
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  // Scene and main camera, for offscreen renders of extra views and recording keyframes
+  const sceneRef = useRef<THREE.Scene | null>(null);
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  // Seed that determines the initial object layout of this session
+  const [sceneSeed, setSceneSeed] = useState(() => resolveSceneSeed(seed));
+  const sceneSeedRef = useRef<number>(sceneSeed);
+  const resetSceneRef = useRef<(() => void) | null>(null);
+  // Read by the physics setup, which runs once
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  // The scene is fixed for the component's lifetime (the physics setup runs once)
+  const [sceneConfig] = useState(() => challengeMode ? DEFAULT_SCENE_CONFIG : sceneConfigProp ?? DEFAULT_SCENE_CONFIG);
+  // The server re-simulates challenges with the built-in arm
+  const [robotUrdf] = useState(() => challengeMode ? undefined : robotUrdfProp);
+  const [taskExamples] = useState(() => TASK_EXAMPLES.filter(spec => missingTaskObjects(spec, sceneConfig).length === 0));
+  const table = tableBounds(sceneConfig.table);
+  const [initialTask] = useState(() => resolveTaskProp(taskProp, taskExamples, sceneConfig));
+  const isCompact = size === 'compact';
 
   // Recording and replay states
   const [isRecording, setIsRecording] = useState(false);
   const [isReplaying, setIsReplaying] = useState(false);
   const [hasRecording, setHasRecording] = useState(false);
   
-  // Gemini API states
-  const [apiKey, setApiKey] = useState('');
+  // Verification backend states
+  const [verifierProvider, setVerifierProvider] = useState<BrowserVerifierProvider>(initialVerifierProvider);
+  const [verifierEndpoint, setVerifierEndpoint] = useState(initialVerifierEndpoint ?? '');
+  // Extra evidence for vision models: offscreen views of the scene and keyframes of the recording
+  const [multiViewEvidence, setMultiViewEvidence] = useState(true);
+  const [keyframeEvidence, setKeyframeEvidence] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
-  const [task, setTask] = useState('Move the robot arm to touch any of the 3D objects');
+  const [task, setTask] = useState(initialTask.task);
+  // Machine-readable goal for the task (null for free-text tasks)
+  const [taskSpec, setTaskSpec] = useState<TaskSpec | null>(initialTask.taskSpec);
   const [verificationResult, setVerificationResult] = useState<'success' | 'failed' | null>(null);
-
-  // Task examples for quick selection
-  const taskExamples = [
-    'Bring all the boxes together in one place',
-    'Move the red box to the center of the table.',
-    'Separate the blue box from the other boxes.',
-    'Keep the red and green boxes touching each other.',
-    'Put every box near the front edge.',
-    'Place the red box between the green and blue boxes.',
-    'Keep the red and green boxes together and away from the blue box.',
-    'Align all boxes in a straight row from left to right: red → green → blue.',
-    'Move each box to a different corner of the table.',
-    'Cluster all boxes at the back-right corner.'
-  ];
+  // Verdict details (confidence and, for the rule-based verifier, per-subgoal results)
+  const [verificationDetails, setVerificationDetails] = useState<VerifierResult | null>(null);
+  // Challenge mode: the open server challenge and the server's answer to the last attempt
+  const [challenge, setChallenge] = useState<SignedChallenge | null>(null);
+  const [challengeResult, setChallengeResult] = useState<ChallengeResult | null>(null);
+  // Background upload of completed episodes to the collection endpoint
+  const uploadQueueRef = useRef<UploadQueue | null>(null);
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus | null>(null);
+
+  // Errors go to the host page's handler when there is one, otherwise to an alert
+  const reportError = (message: string, err: unknown) => {
+    const error = new Error(`${message}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    if (onError) {
+      onError(error);
+    } else {
+      alert(error.message);
+    }
+  };
+  
+  const reportProgress = (stage: CaptchaStage, signed: SignedChallenge | null = challenge) => {
+    onProgress?.({
+      stage,
+      challengeId: signed?.challenge.id ?? null,
+      taskId: signed?.challenge.taskSpec.id ?? taskSpec?.id ?? null
+    });
+  };
 
   // Function to handle task example selection
-  const selectTaskExample = (example: string) => {
-    setTask(example);
+  const selectTaskExample = (example: TaskSpec) => {
+    setTaskSpec(example);
+    setTask(describeTask(example));
     clearVerificationResult();
   };
   
-  const recordingDataRef = useRef<Array<{
-    timestamp: number;
-    robotArm: { x: number, y: number, z: number };
-    objects: Array<{
-      position: { x: number, y: number, z: number };
-      rotation: { x: number, y: number, z: number, w: number };
-    }>;
-  }>>([]);
+  const recordingDataRef = useRef<RecordingFrame[]>([]);
   const recordingStartTimeRef = useRef<number>(0);
-  const replayStartTimeRef = useRef<number>(0);
-  const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Physics step counter and dropped time at the start of the recording
+  const recordingStartStepRef = useRef<number>(0);
+  const recordingStartDroppedTimeRef = useRef<number>(0);
+  const recordingTimingRef = useRef<RecordingTiming | null>(null);
+  // Capture settings locked in when the recording starts (read from the physics tick)
+  const recordingCaptureRateRef = useRef<CaptureRate>(DEFAULT_CAPTURE_RATE);
+  const recordingStepsPerFrameRef = useRef<number>(1);
+  const recordingRawRef = useRef<boolean>(false);
+  const recordingImagesRef = useRef<boolean>(false);
+  const recordingEpisodeIdRef = useRef<string>('');
+  // Seed of the layout the recording started from (null for imported recordings that did not keep one)
+  const recordingSeedRef = useRef<number | null>(null);
+  // Names of the recorded joint angles (those of the arm that made the recording)
+  const recordingJointNamesRef = useRef<string[]>(ARM_JOINT_NAMES);
+  // Latest raycast target of the pointer in Three.js space
+  const pointerTargetRef = useRef<THREE.Vector3 | null>(null);
+  const pointerDownRef = useRef<boolean>(false);
+  // Gripper and its close command (applied on the next physics step), and the commanded arm height
+  const gripperRef = useRef<Gripper | null>(null);
+  const gripperClosedRef = useRef<boolean>(false);
+  const armHeightRef = useRef<number>(ROBOT_ARM_Y);
+  // Commanded tip position, which the arm approaches at a limited speed on every physics step
+  const armTargetRef = useRef<THREE.Vector3>(new THREE.Vector3().copy(armStart(table)));
+  const armMotionRef = useRef<ArmMotion | null>(null);
+  
+  // Recording options
+  const [captureRate, setCaptureRate] = useState<CaptureRate>(DEFAULT_CAPTURE_RATE);
+  const [rawCapture, setRawCapture] = useState(false);
+  const [captureImages, setCaptureImages] = useState(false);
+  // Ground-truth label computed by the rule-based verifier when recording stops
+  const recordingLabelRef = useRef<TaskVerification | null>(null);
+  // Pointer event times (ms since the recording started) and the bot-risk analysis of the recording
+  const pointerEventTimesRef = useRef<number[]>([]);
+  const recordingAnalysisRef = useRef<TrajectoryAnalysis | null>(null);
+  const recordingTaskSpecRef = useRef<TaskSpec | null>(null);
+  // Replay transport: playback position in recording time, advanced by real time x speed
+  const replayTimeRef = useRef<number>(0);
+  const replayLastTickRef = useRef<number>(0);
+  const replayFrameIndexRef = useRef<number>(0);
+  const replayPausedRef = useRef<boolean>(false);
+  const replaySpeedRef = useRef<number>(1);
+  const replayLoopRef = useRef<boolean>(false);
+  const [replayFrameIndex, setReplayFrameIndex] = useState(0);
+  const [isReplayPaused, setIsReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayLoop, setReplayLoop] = useState(false);
+  // Per-frame error between the restored scene and the recorded pose
+  const replayPoseErrorsRef = useRef<PoseError[]>([]);
+  const [replayPoseError, setReplayPoseError] = useState<PoseError | null>(null);
+  // Re-simulation mode: physics steps taken since the first frame and the next frame to compare
+  const replayModeRef = useRef<ReplayMode>('kinematic');
+  const resimStepRef = useRef<number>(0);
+  const resimFrameRef = useRef<number>(0);
+  const [replayMode, setReplayMode] = useState<ReplayMode>('kinematic');
+  const [divergenceReport, setDivergenceReport] = useState<DivergenceReport | null>(null);
   const frameCountRef = useRef<number>(0);
 
   // Recording and replay functions
-  const startRecording = () => {
+  const startRecording = (rate: CaptureRate = captureRate) => {
     console.log('🔴 startRecording function called!');
     console.log('🔴 Before setState - isReplaying:', isReplaying);
     
@@ -362,39 +759,63 @@ const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({ onVerify }) => {
     
     console.log('🔴 Clearing recording data...');
     recordingDataRef.current = [];
+    pointerEventTimesRef.current = [];
     frameCountRef.current = 0;
     
+    // Every episode starts from the seeded initial layout so it can be reproduced
+    resetSceneRef.current?.();
+    
     console.log('🔴 Setting start time...');
     recordingStartTimeRef.current = performance.now();
+    recordingStartStepRef.current = physicsLoopRef.current?.stepCount ?? 0;
+    recordingStartDroppedTimeRef.current = physicsLoopRef.current?.droppedTime ?? 0;
+    recordingCaptureRateRef.current = rate;
+    recordingStepsPerFrameRef.current = stepsPerFrame(rate, physicsStepSize);
+    recordingRawRef.current = rawCapture;
+    recordingImagesRef.current = captureImages;
+    recordingEpisodeIdRef.current = createEpisodeId();
+    recordingSeedRef.current = sceneSeedRef.current;
+    recordingJointNamesRef.current = robotArmRef.current?.jointNames ?? ARM_JOINT_NAMES;
     
     console.log('🔴 About to call setIsRecording(true)...');
     setIsRecording(true);
     isRecordingRef.current = true;
     
-    // Start fixed 10fps recording interval (0.1s = 100ms)
-    const targetFPS = 10;
-    const frameInterval = 1000 / targetFPS; // 100ms
-    
-    recordingIntervalRef.current = setInterval(() => {
-      if (isRecordingRef.current) {
-        recordFixedFrame();
-      }
-    }, frameInterval);
+    // Frames are sampled from the physics step counter (every N steps of simulation time)
+    recordFixedFrame(0);
     
     console.log('🔴 setIsRecording(true) called - Recording should start now!');
-    console.log(`🔴 Recording started at fixed ${targetFPS}fps (${frameInterval}ms intervals)`);
+    console.log(`🔴 Recording started at ${captureRateLabel(rate)} (every ${recordingStepsPerFrameRef.current} physics steps${rawCapture ? ', raw mode' : ''})`);
   };
 
   const stopRecording = () => {
     setIsRecording(false);
     isRecordingRef.current = false;
     
-    // Clear the recording interval
-    if (recordingIntervalRef.current) {
-      clearInterval(recordingIntervalRef.current);
-      recordingIntervalRef.current = null;
+    // Dropped frames: recording slots that fell into real time the simulation had to discard
+    const droppedTime = ((physicsLoopRef.current?.droppedTime ?? 0) - recordingStartDroppedTimeRef.current) * 1000;
+    const rate = recordingCaptureRateRef.current;
+    const frameInterval = frameIntervalMs(rate, physicsStepSize);
+    recordingTimingRef.current = {
+      captureRate: rate,
+      stepSize: physicsStepSize,
+      frameInterval,
+      droppedFrames: Math.floor(droppedTime / frameInterval),
+      droppedTime
+    };
+    if (recordingTimingRef.current.droppedFrames > 0) {
+      console.log(`⚠️ ${recordingTimingRef.current.droppedFrames} frames dropped (${droppedTime.toFixed(0)}ms of real time discarded)`);
     }
     
+    // Label the episode with the rule-based verdict for the current task
+    recordingTaskSpecRef.current = taskSpec;
+    recordingLabelRef.current = taskSpec ? verifyTask(taskSpec, getObjectStates(), table) : null;
+    console.log('🏷️ Recording label:', recordingLabelRef.current);
+    
+    // Human-likeness of the interaction
+    recordingAnalysisRef.current = analyzeTrajectory(armTrajectory(recordingDataRef.current), pointerEventTimesRef.current);
+    console.log(`🕵️ Bot risk ${recordingAnalysisRef.current.risk.toFixed(2)}${recordingAnalysisRef.current.signals.length > 0 ? ` (${recordingAnalysisRef.current.signals.join(', ')})` : ''}`, recordingAnalysisRef.current.features);
+    
     const frameCount = recordingDataRef.current.length;
     console.log('⏹️ Recording stopped. Frames:', frameCount);
     console.log('🎬 Recording data:', recordingDataRef.current.slice(0, 3)); // Show first 3 frames
@@ -402,6 +823,8 @@ const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({ onVerify }) => {
     if (frameCount > 0) {
       setHasRecording(true);
       console.log('✅ Has recording set to true');
+      // Verdicts of earlier scenes do not belong to this episode
+      uploadEpisode(null);
     } else {
       setHasRecording(false);
       console.log('❌ No recording data found');
@@ -417,15 +840,77 @@ const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({ onVerify }) => {
       return;
     }
     
-    replayStartTimeRef.current = performance.now();
+    replayTimeRef.current = 0;
+    replayLastTickRef.current = performance.now();
+    replayPoseErrorsRef.current = [];
+    replayModeRef.current = replayMode;
+    setDivergenceReport(null);
+    setReplayPaused(false);
+    // Objects are posed (or re-simulated) from the recording, so nothing may stay attached to the arm
+    gripperRef.current?.reset();
+    gripperClosedRef.current = false;
+    if (replayMode === 'simulate') {
+      restartResimulation();
+    }
+    showReplay(0);
     setIsReplaying(true);
     isReplayingRef.current = true;
     console.log('▶️ Replay started with', recordingDataRef.current.length, 'frames');
   };
 
+  const setReplayPaused = (paused: boolean) => {
+    replayPausedRef.current = paused;
+    setIsReplayPaused(paused);
+  };
+
+  const toggleReplayPause = () => {
+    const frames = recordingDataRef.current;
+    // Resuming at the end of a finished replay starts it over
+    if (replayPausedRef.current && replayFrameIndexRef.current >= frames.length - 1) {
+      seekReplay(0);
+    }
+    replayLastTickRef.current = performance.now();
+    setReplayPaused(!replayPausedRef.current);
+  };
+
+  // Jump to a frame; playback continues from there unless paused
+  const seekReplay = (frameIndex: number) => {
+    const frames = recordingDataRef.current;
+    const index = Math.max(0, Math.min(frames.length - 1, frameIndex));
+    replayTimeRef.current = frames[index].timestamp;
+    showReplay(replayTimeRef.current);
+  };
+
+  // Single-frame step (pauses playback)
+  const stepReplay = (direction: -1 | 1) => {
+    setReplayPaused(true);
+    seekReplay(replayFrameIndexRef.current + direction);
+  };
+
+  const changeReplaySpeed = (speed: number) => {
+    replaySpeedRef.current = speed;
+    setReplaySpeed(speed);
+  };
+
+  const changeReplayLoop = (loop: boolean) => {
+    replayLoopRef.current = loop;
+    setReplayLoop(loop);
+  };
+
   const stopReplay = () => {
     setIsReplaying(false);
     isReplayingRef.current = false;
+    
+    // Re-simulation may have switched to the recording's step size
+    if (worldRef.current && physicsLoopRef.current) {
+      worldRef.current.timestep = physicsLoopRef.current.stepSize;
+    }
+    
+    const errors = replayPoseErrorsRef.current.filter(error => error !== undefined);
+    if (errors.length > 0) {
+      const summary = summarizePoseErrors(errors);
+      console.log(`📏 Pose error over ${summary.frames} frames: position mean ${summary.meanPosition.toFixed(4)} / max ${summary.maxPosition.toFixed(4)} units, rotation mean ${(summary.meanRotation * 180 / Math.PI).toFixed(2)}° / max ${(summary.maxRotation * 180 / Math.PI).toFixed(2)}°`);
+    }
     console.log('⏹️ Replay stopped');
   };
 
@@ -460,43 +945,124 @@ const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({ onVerify }) => {
     }
 
     console.log('📊 Converting recording data to CSV...');
+    const csvContent = serializeRecordingCsv(getRecordingSession(), sceneConfig);
     
-    // Get the first frame to determine object count
-    const firstFrame = recordingDataRef.current[0];
-    const objectCount = firstFrame.objects.length;
+    // Create and download CSV file
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
     
-    // Create CSV header
-    let csvHeader = 'Timestamp,RobotArm_X,RobotArm_Y,RobotArm_Z';
+    const downloadLink = document.createElement('a');
+    downloadLink.href = url;
+    downloadLink.download = `captcha-recording-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
     
-    // Add headers for each object's position and rotation
-    for (let i = 0; i < objectCount; i++) {
-      csvHeader += `,Object${i + 1}_Pos_X,Object${i + 1}_Pos_Y,Object${i + 1}_Pos_Z`;
-      csvHeader += `,Object${i + 1}_Rot_X,Object${i + 1}_Rot_Y,Object${i + 1}_Rot_Z,Object${i + 1}_Rot_W`;
-    }
+    // Trigger download
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    document.body.removeChild(downloadLink);
+    
+    // Clean up the URL object
+    URL.revokeObjectURL(url);
     
-    // Convert data to CSV rows
-    const csvRows = recordingDataRef.current.map(frame => {
-      let row = `${frame.timestamp.toFixed(3)},${frame.robotArm.x.toFixed(6)},${frame.robotArm.y.toFixed(6)},${frame.robotArm.z.toFixed(6)}`;
+    console.log(`💾 Recording data saved as CSV: ${recordingDataRef.current.length} frames, ${recordingDataRef.current[0].objects.length} objects`);
+  };
+
+  // Current object states from the physics bodies (in scene config order)
+  const getObjectStates = (): ObjectState[] => {
+    return objectsRef.current.map((obj, index) => objectState(sceneConfig.objects[index], obj.body.translation()));
+  };
+
+  // Import a recording (CSV or JSON-lines episode) so it can be replayed in this viewer
+  const importRecording = async (file: File) => {
+    try {
+      const text = await file.text();
+      const session = file.name.toLowerCase().endsWith('.jsonl')
+        ? parseEpisodeJsonl(text, sceneConfig)
+        : parseRecordingCsv(text, sceneConfig);
       
-      // Add object data
-      frame.objects.forEach(obj => {
-        row += `,${obj.position.x.toFixed(6)},${obj.position.y.toFixed(6)},${obj.position.z.toFixed(6)}`;
-        row += `,${obj.rotation.x.toFixed(6)},${obj.rotation.y.toFixed(6)},${obj.rotation.z.toFixed(6)},${obj.rotation.w.toFixed(6)}`;
-      });
+      // Rebuild the scene from the recording's seed
+      if (session.seed !== null) {
+        sceneSeedRef.current = session.seed;
+        setSceneSeed(session.seed);
+      }
+      resetSceneRef.current?.();
       
-      return row;
-    });
+      recordingDataRef.current = session.frames;
+      recordingEpisodeIdRef.current = session.episodeId;
+      recordingSeedRef.current = session.seed;
+      recordingJointNamesRef.current = session.jointNames ?? ARM_JOINT_NAMES;
+      recordingTaskSpecRef.current = session.taskSpec;
+      recordingLabelRef.current = session.label;
+      recordingTimingRef.current = session.timing;
+      // CSV recordings only keep the risk score; recompute the analysis from the frames
+      recordingAnalysisRef.current = session.analysis ?? analyzeTrajectory(armTrajectory(session.frames));
+      
+      setTask(session.task);
+      setTaskSpec(session.taskSpec);
+      clearVerificationResult();
+      setHasRecording(true);
+      
+      console.log(`📥 Recording imported: ${session.frames.length} frames (episode ${session.episodeId}, seed ${session.seed ?? 'unknown'})`);
+    } catch (err) {
+      console.error('Recording import error:', err);
+      reportError('Could not import recording', err);
+    }
+  };
+
+  // Load a structured task spec from a JSON file
+  const loadTaskFile = async (file: File) => {
+    try {
+      const spec = parseSceneTask(await file.text(), sceneConfig);
+      console.log('📂 Task spec loaded:', spec);
+      selectTaskExample(spec);
+    } catch (err) {
+      console.error('Task file error:', err);
+      reportError('Could not load task file', err);
+    }
+  };
+
+  // Everything about the last recording, as consumed by the exporters
+  const getRecordingSession = (): RecordingSession => ({
+    episodeId: recordingEpisodeIdRef.current,
+    seed: recordingSeedRef.current,
+    task: recordingTaskSpecRef.current ? describeTask(recordingTaskSpecRef.current) : task,
+    taskSpec: recordingTaskSpecRef.current,
+    label: recordingLabelRef.current,
+    verification: verificationDetails,
+    analysis: recordingAnalysisRef.current,
+    timing: recordingTimingRef.current,
+    jointNames: recordingJointNamesRef.current,
+    frames: recordingDataRef.current
+  });
+
+  // Queue the last recording for the collection endpoint (again after a verdict, which replaces the pending version)
+  const uploadEpisode = (verification: VerifierResult | null) => {
+    const queue = uploadQueueRef.current;
+    if (!queue || recordingDataRef.current.length === 0) return;
     
-    // Combine header and data
-    const csvContent = [csvHeader, ...csvRows].join('\n');
+    const session = { ...getRecordingSession(), verification };
+    queue.enqueue({
+      episodeId: session.episodeId,
+      episode: serializeEpisodeJsonl(session, sceneConfig, robotArmRef.current?.description),
+      screenshot: rendererRef.current ? rendererRef.current.domElement.toDataURL('image/png') : null
+    }).catch(err => console.error('Upload queue error:', err));
+  };
+
+  // Save recording as a self-describing JSON-lines episode
+  const saveRecordingAsEpisode = () => {
+    if (!hasRecording || recordingDataRef.current.length === 0) {
+      alert('No recording data available to save!');
+      return;
+    }
+
+    const session = getRecordingSession();
+    const content = serializeEpisodeJsonl(session, sceneConfig, robotArmRef.current?.description);
     
-    // Create and download CSV file
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const blob = new Blob([content], { type: 'application/x-ndjson;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     
     const downloadLink = document.createElement('a');
     downloadLink.href = url;
-    downloadLink.download = `captcha-recording-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
+    downloadLink.download = `captcha-episode-${session.episodeId}.jsonl`;
     
     // Trigger download
     document.body.appendChild(downloadLink);
@@ -506,19 +1072,58 @@ const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({ onVerify }) => {
     // Clean up the URL object
     URL.revokeObjectURL(url);
     
-    console.log(`💾 Recording data saved as CSV: ${recordingDataRef.current.length} frames, ${objectCount} objects`);
+    console.log(`📦 Episode saved as JSON-lines: ${session.frames.length} frames (episode ${session.episodeId})`);
   };
 
-  // Gemini verification function
-  const verifyWithGemini = async () => {
-    console.log('🟢 Verifying with Gemini Flash 2.0…');
+  // Render evenly spaced frames of the recording from the main camera (meshes only; bodies are untouched)
+  const renderRecordingKeyframes = (): LabeledImage[] => {
+    const frames = recordingDataRef.current;
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    if (!renderer || !scene || !camera || !robotArmRef.current || frames.length === 0) return [];
+
+    const arm = robotArmRef.current;
+    const keyframes = keyframeIndices(frames.length, KEYFRAME_COUNT).map(index => {
+      const { pose, timestamp, gripper, joints } = frames[index];
+      // Joint angles recorded by this arm show it exactly as it was (older frames only have the tip)
+      if (joints && recordingJointNamesRef.current.join() === arm.jointNames.join()) {
+        arm.showJoints(joints);
+      } else {
+        arm.showTarget(pose.robotArm);
+      }
+      arm.setGripperWidth(gripper?.width ?? GRIPPER_OPEN_WIDTH);
+      objectsRef.current.forEach((obj, i) => {
+        const objPose = pose.objects[i];
+        if (!objPose) return;
+        obj.mesh.position.set(objPose.position.x, objPose.position.y, objPose.position.z);
+        obj.mesh.quaternion.set(objPose.rotation.x, objPose.rotation.y, objPose.rotation.z, objPose.rotation.w);
+      });
+      return {
+        label: keyframeLabel(index, frames.length, timestamp),
+        dataUrl: renderToDataUrl(renderer, scene, camera, 400, 400)
+      };
+    });
 
-    if (!apiKey.trim()) {
-      alert('Please enter your Gemini API key first!');
-      return;
-    }
+    // Put the meshes back where the physics bodies are
+    arm.showJoints(arm.joints);
+    arm.setGripperWidth(gripperRef.current?.width ?? GRIPPER_OPEN_WIDTH);
+    objectsRef.current.forEach(obj => {
+      const position = obj.body.translation();
+      const rotation = obj.body.rotation();
+      obj.mesh.position.set(position.x, position.y, position.z);
+      obj.mesh.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    });
 
-    if (!rendererRef.current) {
+    return keyframes;
+  };
+
+  // Verify the current scene with the given backend (vision model, rule-based checker or mock)
+  const verifyScene = async (config: VerifierConfig) => {
+    const verifier = createVerifier(config);
+    console.log(`🟢 Verifying with ${verifierProviderLabel(verifier.provider)} (${verifier.model})…`);
+
+    if (isVisionProvider(verifier.provider) && !rendererRef.current) {
       console.log('❌ Renderer not ready');
       onVerify(false);
       return;
@@ -526,96 +1131,70 @@ const ThreeCaptcha: React.FC<ThreeCaptchaProps> = ({ onVerify }) => {
 
     setIsVerifying(true);
     setVerificationResult(null); // Clear previous result
+    setVerificationDetails(null);
+    reportProgress('verifying', null);
 
     try {
-      // Capture canvas screenshot as PNG and convert to base64
-      const canvas = rendererRef.current.domElement;
-      const imageDataUrl = canvas.toDataURL('image/png');
-      // Remove the "data:image/png;base64," prefix
-      const base64Image = imageDataUrl.split(',')[1];
-
-      const prompt = `Please analyze this 3D image carefully. The task is: "${task}".
-
-Look at the image and determine if the specified task has been completed:
-
-1. Carefully examine all elements in the scene:
-   - Robot arm (gray cylindrical object)
-   - Colored 3D cube objects
-   - Their positions and interactions
-
-2. Evaluate if the current scene matches the task requirement: "${task}"
-
-3. Consider the task completed if:
-   - The described action appears to have been performed
-   - The scene shows reasonable evidence of task completion
-   - Be somewhat lenient in interpretation (close proximity or interaction counts)
-
-If the task appears to be completed based on what you can see in the image, respond with "VERIFIED" - otherwise respond with "NOT_VERIFIED".
-
-Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanation needed.`;
-
-      // 🔍 DEBUG: Log input data
-      console.log('📤 INPUT - Prompt sent to Gemini:');
-      console.log(prompt);
-      console.log('📤 INPUT - Captured image (data URL):');
-      console.log(imageDataUrl);
-      console.log('📤 INPUT - Base64 image length:', base64Image.length, 'characters');
-
-      const requestBody = {
-        contents: [{
-          parts: [
-            {
-              text: prompt
-            },
-            {
-              inline_data: {
-                mime_type: "image/png",
-                data: base64Image
-              }
-            }
-          ]
-        }]
+      const objects = getObjectStates();
+      const input: VerificationInput = {
+        task,
+        taskSpec,
+        // Capture canvas screenshot as PNG (the drawing buffer is preserved)
+        image: rendererRef.current ? rendererRef.current.domElement.toDataURL('image/png') : null,
+        objects,
+        table
       };
 
-      console.log('📤 INPUT - Full API request body:');
-      console.log(JSON.stringify(requestBody, null, 2));
+      if (isVisionProvider(verifier.provider) && rendererRef.current && sceneRef.current) {
+        if (multiViewEvidence) {
+          input.views = renderSceneViews(rendererRef.current, sceneRef.current, EXTRA_VIEWS, 400, table);
+        }
+        if (keyframeEvidence) {
+          input.keyframes = renderRecordingKeyframes();
+        }
+        const arm = robotArmRef.current?.position ?? { x: 0, z: 0 };
+        input.sceneSummary = buildSceneSummary(objects, { x: arm.x, z: arm.z }, table);
+        console.log(`📤 INPUT - ${collectImages(input).length} images (${input.views?.length ?? 0} extra views, ${input.keyframes?.length ?? 0} keyframes)`);
+      }
 
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-thinking-exp:generateContent?key=${apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
+      const result = await runVerifier(verifier, input, MAX_VERIFIER_ATTEMPTS, ({ attempt, prompt, response, error }) => {
+        // 🔍 DEBUG: Log input and output of every attempt
+        console.log(`📤 INPUT - Prompt (attempt ${attempt}):`);
+        console.log(prompt);
+        console.log('📥 OUTPUT - Raw response:');
+        console.log(response);
+        if (error) {
+          console.log(`⚠️ Malformed verdict, retrying: ${error}`);
+        }
       });
+      console.log('🤖 OUTPUT - Verdict:', result.passed ? 'VERIFIED' : 'NOT_VERIFIED', `(confidence ${result.confidence.toFixed(2)})`, result.rationale);
 
-      const data = await response.json();
-      
-      // 🔍 DEBUG: Log full response
-      console.log('📥 OUTPUT - Full API response:');
-      console.log(JSON.stringify(data, null, 2));
-      console.log('📥 OUTPUT - Response status:', response.status, response.statusText);
-      
-      if (!response.ok) {
-        throw new Error(`Gemini API Error: ${data.error?.message || 'Unknown error'}`);
+      // Attach the bot risk of the recorded interaction, when there is one
+      result.analysis = hasRecording ? recordingAnalysisRef.current : null;
+      setVerificationDetails(result);
+      if (hasRecording) {
+        uploadEpisode(result);
       }
-
-      const result = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      console.log('🤖 OUTPUT - Gemini final result:', result);
-
-      const isVerified = result.toUpperCase().includes('VERIFIED') && !result.toUpperCase().includes('NOT_VERIFIED');
-      
-      if (isVerified) {
-        console.log('✅ Gemini verified success - CAPTCHA PASSED!');
+      const metadata: VerificationMetadata = {
+        challengeId: null,
+        taskId: taskSpec?.id ?? null,
+        task,
+        risk: result.analysis?.risk ?? null,
+        tokenExpiresAt: null,
+        subgoals: result.subgoals
+      };
+      if (result.passed) {
+        console.log('✅ Verification passed - CAPTCHA PASSED!');
         setVerificationResult('success');
-        onVerify(true);        // CAPTCHA passed!
+        onVerify(true, undefined, metadata);        // CAPTCHA passed!
       } else {
-        console.log('❌ Gemini verification failed - try again');
+        console.log('❌ Verification failed - try again');
         setVerificationResult('failed');
-        onVerify(false);
+        onVerify(false, undefined, metadata);
       }
     } catch (err) {
-      console.error('Gemini verification error:', err);
-      alert(`Verification failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('Verification error:', err);
+      reportError('Verification failed', err);
       setVerificationResult('failed');
       onVerify(false);
     } finally {
@@ -623,61 +1202,103 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
     }
   };
 
-  // Coordinate normalization function
-  const normalizeCoordinates = (x: number, y: number, z: number) => {
-    // Real-world scale mapping:
-    // Three.js: 6x6 unit table → Real world: 20x20cm table (square)
-    // Three.js: 0.75 unit cubes → Real world: 2.5x2.5cm cubes
-    
-    // Three.js coordinate ranges:
-    // X: -3 to 3 (6 unit table width)  
-    // Z: -3 to 3 (6 unit table depth)
-    
-    // Target coordinate ranges (real world units in meters):
-    // X: 0.2 to 0.4 (20cm range, back to front)
-    // Y: -0.1 to 0.1 (20cm range, left to right, was Z axis) - SQUARE EXPERIMENT
-    
-    const normalizedX = 0.2 + ((x + 3) / 6) * (0.4 - 0.2); // -3~3 → 0.2~0.4 (20cm)
-    const normalizedY = -0.1 + ((z + 3) / 6) * (0.1 - (-0.1)); // -3~3 → -0.1~0.1 (20cm total)
-    
-    return {
-      x: Math.max(0.2, Math.min(0.4, normalizedX)),
-      y: Math.max(-0.1, Math.min(0.1, normalizedY))
-    };
+  // Challenge mode: fetch a signed challenge and record the attempt from its seeded layout.
+  // Frames are captured on every physics step so the server can re-simulate the arm exactly.
+  const startChallenge = async () => {
+    if (isRecording) stopRecording();
+    setIsVerifying(true);
+    setVerificationResult(null);
+    setVerificationDetails(null);
+    setChallengeResult(null);
+    reportProgress('challenge', null);
+
+    try {
+      // The host page may ask for a task example; the seed always comes from the server
+      const signed = await requestChallenge(verifierEndpoint.trim() || undefined, initialTask.taskSpec?.id);
+      console.log(`🎲 Challenge ${signed.challenge.id}: seed ${signed.challenge.seed}, task ${signed.challenge.taskSpec.id}, expires ${new Date(signed.challenge.expiresAt).toLocaleTimeString()}`);
+      
+      sceneSeedRef.current = signed.challenge.seed;
+      setSceneSeed(signed.challenge.seed);
+      setTaskSpec(signed.challenge.taskSpec);
+      setTask(describeTask(signed.challenge.taskSpec));
+      setChallenge(signed);
+      startRecording('step');
+      reportProgress('interaction', signed);
+    } catch (err) {
+      console.error('Challenge error:', err);
+      reportError('Could not get a challenge', err);
+    } finally {
+      setIsVerifying(false);
+    }
   };
 
-  // Reverse coordinate normalization for replay
-  const denormalizeCoordinates = (normalizedX: number, normalizedY: number) => {
-    // Convert normalized coordinates back to Three.js coordinates
-    // X: 0.2~0.4 → -3~3
-    // Y: -0.1~0.1 → -3~3 (this becomes Z in Three.js)
-    
-    const threeX = ((normalizedX - 0.2) / (0.4 - 0.2)) * 6 - 3; // 0.2~0.4 → -3~3
-    const threeZ = ((normalizedY - (-0.1)) / (0.1 - (-0.1))) * 6 - 3; // -0.1~0.1 → -3~3
+  // Send the arm trajectory; the server re-simulates it and answers with a pass token on success
+  const submitChallengeAttempt = async () => {
+    if (!challenge) return;
+    stopRecording();
+    setIsVerifying(true);
+    reportProgress('submitting');
+
+    try {
+      const submission = createSubmission(challenge, physicsStepSize, recordingDataRef.current, pointerEventTimesRef.current);
+      console.log(`📨 Submitting ${submission.trajectory.length} trajectory samples for challenge ${challenge.challenge.id}`);
+      const result = await submitChallenge(verifierEndpoint.trim() || undefined, submission);
+      console.log('🎟️ Challenge result:', result.success ? 'PASSED' : 'FAILED', result.verification);
+      
+      setChallengeResult(result);
+      setVerificationResult(result.success ? 'success' : 'failed');
+      onVerify(result.success, result.token ?? undefined, {
+        challengeId: challenge.challenge.id,
+        taskId: result.verification.taskId,
+        task: result.verification.task,
+        risk: result.analysis.risk,
+        tokenExpiresAt: result.tokenExpiresAt,
+        subgoals: result.verification.subgoals
+      });
+    } catch (err) {
+      console.error('Challenge error:', err);
+      reportError('Challenge failed', err);
+      setVerificationResult('failed');
+      onVerify(false);
+    } finally {
+      // One attempt per challenge
+      setChallenge(null);
+      setIsVerifying(false);
+    }
+  };
+
+  // Called after every physics step; samples a frame every N steps while recording
+  const recordStep = (stepCount: number) => {
+    if (!isRecordingRef.current) return;
     
-    return {
-      x: threeX,
-      z: threeZ
-    };
+    const step = stepCount - recordingStartStepRef.current;
+    if (step > 0 && step % recordingStepsPerFrameRef.current === 0) {
+      recordFixedFrame(step);
+    }
   };
 
-  // Record current state with fixed timestamp
-  const recordFixedFrame = () => {
+  // Record current physics state, stamped with the simulation time of the given step
+  const recordFixedFrame = (step: number) => {
     if (!robotArmRef.current || !objectsRef.current) {
       console.log('❌ Missing refs for recording');
       return;
     }
 
-    // Use fixed frame timing: frame number * 100ms (10fps)
-    const fixedTimestamp = frameCountRef.current * (1000 / 10);
+    // Simulation time is exact (step count * step size); capture time is when it actually ran
+    const fixedTimestamp = step * physicsStepSize * 1000;
+    const captureTime = performance.now() - recordingStartTimeRef.current;
     const robotPos = robotArmRef.current.position;
     
     // Normalize robot arm coordinates
-    const normalizedRobotPos = normalizeCoordinates(robotPos.x, robotPos.y, robotPos.z);
+    const normalizedRobotPos = normalizeCoordinates(robotPos.x, robotPos.y, robotPos.z, table);
     
     const objectStates = objectsRef.current.map(obj => {
+      // Read the physics body directly (meshes are interpolated for rendering)
+      const position = obj.body.translation();
+      const quaternion = obj.body.rotation();
+      
       // Normalize object coordinates
-      const normalizedObjPos = normalizeCoordinates(obj.mesh.position.x, obj.mesh.position.y, obj.mesh.position.z);
+      const normalizedObjPos = normalizeCoordinates(position.x, position.y, position.z, table);
       
       return {
         position: {
@@ -686,94 +1307,341 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
           z: 0.76                 // Fixed Z value for all objects
         },
         rotation: {
-          x: obj.mesh.quaternion.x,
-          y: obj.mesh.quaternion.z, // Y와 Z 교환  
-          z: obj.mesh.quaternion.y,
-          w: obj.mesh.quaternion.w
+          x: quaternion.x,
+          y: quaternion.z, // Y와 Z 교환  
+          z: quaternion.y,
+          w: quaternion.w
         }
       };
     });
 
+    // Action channel: the commanded target (the arm holds its position until the first pointer input)
+    const commanded = armTargetRef.current;
+    const target = normalizeCoordinates(commanded.x, commanded.y, commanded.z, table);
+    const previousFrame = step > 0 ? recordingDataRef.current[recordingDataRef.current.length - 1] : undefined;
+    const action = {
+      target: { x: target.x, y: target.y },
+      delta: {
+        x: previousFrame ? target.x - previousFrame.action.target.x : 0,
+        y: previousFrame ? target.y - previousFrame.action.target.y : 0
+      },
+      pointerDown: pointerDownRef.current
+    };
+
+    // Raw mode: pointer target and velocities straight from the Rapier bodies
+    let raw: RawFrameState | undefined;
+    if (recordingRawRef.current) {
+      const pointerTarget = pointerTargetRef.current;
+      raw = {
+        pointerTarget: pointerTarget ? { x: pointerTarget.x, y: pointerTarget.y, z: pointerTarget.z } : null,
+        objects: objectsRef.current.map(obj => {
+          const linvel = obj.body.linvel();
+          const angvel = obj.body.angvel();
+          return {
+            linearVelocity: { x: linvel.x, y: linvel.y, z: linvel.z },
+            angularVelocity: { x: angvel.x, y: angvel.y, z: angvel.z }
+          };
+        })
+      };
+    }
+
+    // Optional image frame: the last rendered view (the drawing buffer is preserved)
+    const image = recordingImagesRef.current && rendererRef.current
+      ? rendererRef.current.domElement.toDataURL('image/jpeg', 0.8)
+      : undefined;
+
     recordingDataRef.current.push({
       timestamp: fixedTimestamp,
+      step,
+      captureTime,
       robotArm: { 
         x: normalizedRobotPos.x,  // Normalized X (0.2~0.40)
         y: normalizedRobotPos.y,  // Normalized Y (was Z, -0.20~0.20)
         z: 0.76                   // Fixed Z value
       },
-      objects: objectStates
+      objects: objectStates,
+      pose: readScenePose() as FramePose,
+      action,
+      joints: robotArmRef.current.joints.slice(),
+      gripper: gripperRef.current?.state,
+      raw,
+      image
     });
 
     frameCountRef.current++;
 
-    // Log every 10 frames (exactly every second at 10fps)
+    // Log every 10 frames (every second at 10fps)
     if (frameCountRef.current % 10 === 0) {
       console.log(`📹 Recording... ${frameCountRef.current} frames (${(fixedTimestamp / 1000).toFixed(1)}s)`);
     }
   };
 
-  // Legacy record frame (for non-recording usage)
-  const recordFrame = () => {
-    // This is now only used for non-recording animation loops
-    // The actual recording uses recordFixedFrame with setInterval
-    return;
+  // Current world-space pose of the arm and the object bodies
+  const readScenePose = (): FramePose | null => {
+    if (!robotArmRef.current || !objectsRef.current) return null;
+    
+    const { x, y, z } = robotArmRef.current.position;
+    return {
+      robotArm: { x, y, z },
+      objects: objectsRef.current.map(obj => {
+        const position = obj.body.translation();
+        const rotation = obj.body.rotation();
+        return {
+          position: { x: position.x, y: position.y, z: position.z },
+          rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w }
+        };
+      })
+    };
   };
 
-  // Replay frame
-  const replayFrame = () => {
-    if (!isReplayingRef.current || !robotArmRef.current || !objectsRef.current) return;
+  // Put the scene into a pose between two recorded frames (alpha 0 = `from`, 1 = `to`)
+  const applyReplayPose = (from: FramePose, to: FramePose, alpha: number) => {
+    if (!robotArmRef.current || !objectsRef.current) return;
+    
+    const lerp = (a: number, b: number) => a + (b - a) * alpha;
+    robotArmRef.current.setPosition(new THREE.Vector3(
+      lerp(from.robotArm.x, to.robotArm.x),
+      lerp(from.robotArm.y, to.robotArm.y),
+      lerp(from.robotArm.z, to.robotArm.z)
+    ));
+    // Hold the arm where the recording left it once physics resumes
+    armTargetRef.current.copy(robotArmRef.current.position);
+    armMotionRef.current?.reset();
+
+    objectsRef.current.forEach((obj, index) => {
+      const start = from.objects[index];
+      const end = to.objects[index];
+      if (!start || !end) return;
+      
+      obj.mesh.position.set(
+        lerp(start.position.x, end.position.x),
+        lerp(start.position.y, end.position.y),
+        lerp(start.position.z, end.position.z)
+      );
+      obj.mesh.quaternion.slerpQuaternions(
+        new THREE.Quaternion(start.rotation.x, start.rotation.y, start.rotation.z, start.rotation.w),
+        new THREE.Quaternion(end.rotation.x, end.rotation.y, end.rotation.z, end.rotation.w),
+        alpha
+      );
+      
+      // Also update physics body
+      const { position, quaternion } = obj.mesh;
+      obj.body.setTranslation({ x: position.x, y: position.y, z: position.z }, true);
+      obj.body.setRotation({ x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w }, true);
+    });
+  };
 
-    const currentTime = performance.now() - replayStartTimeRef.current;
-    const frame = recordingDataRef.current.find(f => f.timestamp >= currentTime);
+  // Restore a recorded frame exactly and measure how far the restored scene is from the recording
+  const measureReplayFrame = (frameIndex: number) => {
+    const frame = recordingDataRef.current[frameIndex];
+    applyReplayPose(frame.pose, frame.pose, 0);
     
-    if (frame) {
-      // Denormalize robot arm position back to Three.js coordinates
-      const robotArmThreePos = denormalizeCoordinates(frame.robotArm.x, frame.robotArm.y);
-      robotArmRef.current.setPosition(new THREE.Vector3(
-        robotArmThreePos.x,
-        ROBOT_ARM_Y, // Use actual robot arm height, not the fixed CSV value
-        robotArmThreePos.z
-      ));
-
-      // Set object positions and rotations
-      frame.objects.forEach((objState, index) => {
-        if (objectsRef.current[index]) {
-          const obj = objectsRef.current[index];
-          
-          // Denormalize object position back to Three.js coordinates
-          const objThreePos = denormalizeCoordinates(objState.position.x, objState.position.y);
-          
-          // Use actual object height from physics simulation, not the fixed CSV value
-          // Objects settle on table at height = cube_size/2 = 0.75/2 = 0.375
-          const actualHeight = 0.375; // Half of cube size (0.75), resting on table
-          
-          obj.mesh.position.set(objThreePos.x, actualHeight, objThreePos.z);
-          obj.mesh.quaternion.set(objState.rotation.x, objState.rotation.z, objState.rotation.y, objState.rotation.w);
-          
-          // Also update physics body
-          obj.body.setTranslation({x: objThreePos.x, y: actualHeight, z: objThreePos.z}, true);
-          obj.body.setRotation({x: objState.rotation.x, y: objState.rotation.z, z: objState.rotation.y, w: objState.rotation.w}, true);
+    const actual = readScenePose();
+    if (!actual) return;
+    
+    const error = computePoseError(frame.pose, actual);
+    replayPoseErrorsRef.current[frameIndex] = error;
+    setReplayPoseError(error);
+  };
+
+  // Show the scene at a replay time (ms), interpolated between the surrounding recorded frames
+  const showReplayTime = (time: number) => {
+    const frames = recordingDataRef.current;
+    if (frames.length === 0 || !robotArmRef.current || !objectsRef.current) return;
+    
+    const frameIndex = frameIndexAt(frames, time);
+    if (frameIndex !== replayFrameIndexRef.current || !replayPoseErrorsRef.current[frameIndex]) {
+      measureReplayFrame(frameIndex);
+      replayFrameIndexRef.current = frameIndex;
+      setReplayFrameIndex(frameIndex);
+    }
+    
+    const frame = frames[frameIndex];
+    const next = frames[frameIndex + 1] ?? frame;
+    const span = next.timestamp - frame.timestamp;
+    const alpha = span > 0 ? Math.min(1, Math.max(0, (time - frame.timestamp) / span)) : 0;
+    applyReplayPose(frame.pose, next.pose, alpha);
+    robotArmRef.current.setGripperWidth(frame.gripper?.width ?? GRIPPER_OPEN_WIDTH);
+  };
+
+  // Replay frame (called once per animation frame)
+  const replayFrame = () => {
+    if (!isReplayingRef.current) return;
+    
+    const frames = recordingDataRef.current;
+    if (frames.length === 0) return;
+    
+    const now = performance.now();
+    const endTime = frames[frames.length - 1].timestamp;
+    
+    if (!replayPausedRef.current) {
+      replayTimeRef.current += (now - replayLastTickRef.current) * replaySpeedRef.current;
+      
+      if (replayTimeRef.current > endTime) {
+        if (replayLoopRef.current && endTime > 0) {
+          replayTimeRef.current %= endTime;
+        } else {
+          // Replay finished - hold the last frame so it can still be inspected
+          replayTimeRef.current = endTime;
+          setReplayPaused(true);
         }
-      });
-    } else if (currentTime > recordingDataRef.current[recordingDataRef.current.length - 1]?.timestamp) {
-      // Replay finished
-      stopReplay();
+      }
+    }
+    replayLastTickRef.current = now;
+    
+    showReplay(replayTimeRef.current);
+  };
+
+  const showReplay = (time: number) => {
+    if (replayModeRef.current === 'simulate') {
+      resimulateTo(time);
+    } else {
+      showReplayTime(time);
+    }
+  };
+
+  // Compare the simulated scene with a recorded frame
+  const compareResimulatedFrame = (frameIndex: number) => {
+    const frames = recordingDataRef.current;
+    const actual = readScenePose();
+    if (!actual) return;
+    
+    const error = computePoseError(frames[frameIndex].pose, actual);
+    replayPoseErrorsRef.current[frameIndex] = error;
+    setReplayPoseError(error);
+    replayFrameIndexRef.current = frameIndex;
+    setReplayFrameIndex(frameIndex);
+    
+    if (frameIndex === frames.length - 1) {
+      const report = buildDivergenceReport(replayPoseErrorsRef.current);
+      setDivergenceReport(report);
+      console.log(report.consistent
+        ? `🧪 Re-simulation consistent: max position error ${report.summary.maxPosition.toFixed(4)} units`
+        : `🧪 Re-simulation diverged at frame ${report.firstDivergentFrame}: max position error ${report.summary.maxPosition.toFixed(4)} units`);
+    }
+  };
+
+  // Restore the first recorded frame (poses and, in raw recordings, velocities) as the initial state
+  const restartResimulation = () => {
+    const frames = recordingDataRef.current;
+    if (!worldRef.current || !objectsRef.current || frames.length === 0) return;
+    
+    const first = frames[0];
+    gripperRef.current?.reset();
+    applyReplayPose(first.pose, first.pose, 0);
+    objectsRef.current.forEach((obj, index) => {
+      const velocity = first.raw?.objects[index];
+      obj.body.setLinvel(velocity?.linearVelocity ?? { x: 0, y: 0, z: 0 }, true);
+      obj.body.setAngvel(velocity?.angularVelocity ?? { x: 0, y: 0, z: 0 }, true);
+    });
+    
+    // Step with the recording's step size so the steps line up with the recorded frames
+    worldRef.current.timestep = recordingTimingRef.current?.stepSize ?? physicsStepSize;
+    resimStepRef.current = 0;
+    replayPoseErrorsRef.current = [];
+    setDivergenceReport(null);
+    compareResimulatedFrame(0);
+    resimFrameRef.current = 1;
+  };
+
+  // Advance the re-simulation to a replay time (ms); going back restarts from the first frame
+  const resimulateTo = (time: number) => {
+    const frames = recordingDataRef.current;
+    const world = worldRef.current;
+    if (!world || !robotArmRef.current || !objectsRef.current || frames.length === 0) return;
+    
+    const trajectory = armTrajectory(frames);
+    const stepMs = world.timestep * 1000;
+    if (time < resimStepRef.current * stepMs - stepMs / 2) {
+      restartResimulation();
+    }
+    
+    const target = Math.min(time, frames[frames.length - 1].timestamp);
+    while ((resimStepRef.current + 1) * stepMs <= target + stepMs / 2) {
+      resimStepRef.current++;
+      const simulationTime = resimStepRef.current * stepMs;
+      
+      // Only the arm and the gripper follow the recording; the objects are moved by the physics
+      const arm = armPositionAt(trajectory, simulationTime);
+      robotArmRef.current.moveTo(arm);
+      gripperRef.current?.update(gripperClosedAt(trajectory, simulationTime));
+      world.step();
+      
+      while (resimFrameRef.current < frames.length && frames[resimFrameRef.current].timestamp <= simulationTime + stepMs / 2) {
+        compareResimulatedFrame(resimFrameRef.current);
+        resimFrameRef.current++;
+      }
     }
+    
+    // Sync the jaws and the object meshes with the simulated bodies
+    robotArmRef.current.setGripperWidth(gripperRef.current?.width ?? GRIPPER_OPEN_WIDTH);
+    objectsRef.current.forEach(obj => {
+      const position = obj.body.translation();
+      const rotation = obj.body.rotation();
+      obj.mesh.position.set(position.x, position.y, position.z);
+      obj.mesh.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    });
   };
 
   // Clear verification result when user makes changes
   const clearVerificationResult = () => {
     if (verificationResult) {
       setVerificationResult(null);
+      setVerificationDetails(null);
+      setChallengeResult(null);
     }
   };
 
   useEffect(() => {
-    // Simple duplicate prevention using ref
-    if (initializedRef.current) return;
-    initializedRef.current = true;
+    if (!collectionEndpoint) return;
+    const queue = createUploadQueue({ endpoint: collectionEndpoint, onStatus: setUploadStatus });
+    uploadQueueRef.current = queue;
+    return () => {
+      queue.dispose();
+      uploadQueueRef.current = null;
+    };
+  }, [collectionEndpoint]);
+
+  // Read by the expiry timer, which only restarts when the challenge changes
+  const expireChallengeRef = useRef<() => void>(() => undefined);
+  expireChallengeRef.current = () => {
+    stopRecording();
+    setChallenge(null);
+    onExpire?.('challenge');
+  };
+  // Read by the token expiry timer, which only restarts when the pass token changes
+  const expireTokenRef = useRef<() => void>(() => undefined);
+  expireTokenRef.current = () => {
+    setChallengeResult(null);
+    setVerificationResult(null);
+    onVerify(false);
+    onExpire?.('token');
+  };
+
+  // An expired challenge cannot be submitted any more (the server would reject it)
+  useEffect(() => {
+    if (!challenge) return;
+    const timer = window.setTimeout(() => {
+      console.log(`⌛ Challenge ${challenge.challenge.id} expired`);
+      expireChallengeRef.current();
+    }, Math.max(0, challenge.challenge.expiresAt - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [challenge]);
+
+  // Once the pass token can no longer be redeemed the CAPTCHA counts as unsolved again
+  useEffect(() => {
+    const expiresAt = challengeResult?.tokenExpiresAt;
+    if (!expiresAt) return;
+    const timer = window.setTimeout(() => {
+      console.log('⌛ Pass token expired');
+      expireTokenRef.current();
+    }, Math.max(0, expiresAt - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [challengeResult]);
 
+  useEffect(() => {
     let isMounted = true;
+    let cleanup: (() => void) | undefined;
     
     // Initialize Rapier physics world
     const initPhysics = async () => {
@@ -781,17 +1649,32 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
       
       await RAPIER.init();
       
+      // Robot to drive instead of the built-in arm (which stands in if the file cannot be loaded)
+      let urdfRobot: UrdfRobot | null = null;
+      if (robotUrdf) {
+        try {
+          urdfRobot = await loadUrdf(robotUrdf);
+        } catch (err) {
+          reportError('Could not load the robot, using the built-in arm', err);
+        }
+      }
+      
       if (!isMounted || !mountRef.current) return;
       
       // Create physics world with gravity
-      const gravity = { x: 0.0, y: -9.82, z: 0.0 };
-      const world = new RAPIER.World(gravity);
+      const world = new RAPIER.World(GRAVITY);
       worldRef.current = world;
       
+      const physicsLoop = new FixedTimestepLoop({ stepSize: physicsStepSize, maxSubSteps });
+      world.timestep = physicsLoop.stepSize;
+      physicsLoopRef.current = physicsLoop;
+      
       const scene = new THREE.Scene();
       scene.background = new THREE.Color(0xf5f5f5);
       const camera = new THREE.PerspectiveCamera(60, 400 / 400, 0.1, 1000); // Reduced FOV for zoom effect
-      camera.position.set(0, 5, 5); // Moved camera closer
+      // Moved camera closer (distance scales with the table, 5 for the default 6 x 6 table)
+      const cameraDistance = 5 * Math.max(table.halfWidth, table.halfDepth) / 3;
+      camera.position.set(0, cameraDistance, cameraDistance);
       camera.lookAt(0, 0, 0);
       // NOTE: `preserveDrawingBuffer: true` is required so that the framebuffer's
       // pixels remain available when we later call `toDataURL()` for a screenshot.
@@ -799,7 +1682,9 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
         antialias: true,
         preserveDrawingBuffer: true   // <-- keep the frame for screenshots
       });
-      rendererRef.current = renderer; // Store renderer reference for Gemini verification
+      rendererRef.current = renderer; // Store renderer reference for verification
+      sceneRef.current = scene;
+      cameraRef.current = camera;
       renderer.setSize(400, 400);
       if (mountRef.current) {
         mountRef.current.appendChild(renderer.domElement);
@@ -812,140 +1697,106 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
       scene.add(new THREE.AmbientLight(0xffffff, 0.5));
       
       // Ground (테이블처럼 보이게)
-      const groundGeometry = new THREE.PlaneGeometry(6, 6);
-      const groundMaterial = new THREE.MeshPhongMaterial({ 
-        color: 0x8B4513, // 갈색 나무 테이블
-        shininess: 20
-      });
-      const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-      ground.rotation.x = -Math.PI / 2;
-      scene.add(ground);
+      scene.add(createTableMesh(sceneConfig.table));
 
       // Create ground physics body
-      const groundBodyDesc = RAPIER.RigidBodyDesc.fixed();
-      const groundBody = world.createRigidBody(groundBodyDesc);
-      const groundColliderDesc = RAPIER.ColliderDesc.cuboid(3.0, 0.1, 3.0);
-      groundColliderDesc.setTranslation(0, -0.1, 0);
-      world.createCollider(groundColliderDesc, groundBody);
+      createGroundBody(RAPIER, world, sceneConfig.table);
 
       // Create robot arm
-      const robotArm = new RobotArm(world);
-      scene.add(robotArm.cylinder);
+      let urdfArm: UrdfArm | null = null;
+      if (urdfRobot && robotUrdf) {
+        try {
+          urdfArm = createUrdfArm(RAPIER, world, urdfRobot, {
+            ...armMount(table),
+            resolveMesh: filename => resolveUrdfMesh(filename, robotUrdf)
+          });
+        } catch (err) {
+          reportError('Could not build the robot, using the built-in arm', err);
+        }
+      }
+      const start = armStart(table);
+      const robotArm = new RobotArm(world, createArmModel(table), start, urdfArm);
+      scene.add(robotArm.group);
       robotArmRef.current = robotArm;
-
-      // Create multiple 3D objects (cubes and cylinders) without overlapping
-      const objects: Array<{ mesh: THREE.Mesh, body: RAPIER.RigidBody }> = [];
-      const occupiedPositions: Array<{ x: number, z: number, radius: number }> = [];
-      
-      // Define colors for objects (Fixed mapping for data analysis)
-      const colors = [
-        0xff0000, // Object1 = Red
-        0x00ff00, // Object2 = Green  
-        0x0000ff  // Object3 = Blue
-      ];
+      // Challenges are judged against the default limits
+      const armMotion = new ArmMotion(
+        RAPIER,
+        world,
+        robotArm.rigidBody,
+        challengeMode ? {} : { maxVelocity: armMaxVelocity, maxAcceleration: armMaxAcceleration },
+        urdfArm?.bodies
+      );
+      armMotionRef.current = armMotion;
+
+      // Create the scene's objects without overlapping
+      const objects: Array<{ mesh: THREE.Object3D, body: RAPIER.RigidBody }> = [];
       
-      // Create exactly 3 objects (red, green, blue)
-      const numObjects = 3; // Fixed 3 objects
+      // Initial layout is fully determined by the scene seed
+      const layoutOptions = sceneLayoutOptions(sceneConfig);
+      let layout = generateSceneLayout(sceneSeedRef.current, layoutOptions);
+      console.log(`🎲 Scene "${sceneConfig.id}" generated from seed ${layout.seed}`);
       
-      // Function to check if a position is too close to existing objects or robot arm
-      const isPositionValid = (x: number, z: number, radius: number): boolean => {
-        const minDistance = radius * 4; // Reduced from 8 to allow more interaction
-        
-        // Check distance from robot arm (starts at 0, 0.4, 0 with radius 0.45)
-        const robotArmX = 0;
-        const robotArmZ = 0;
-        const robotArmRadius = 0.45;
-        const distanceFromRobotArm = Math.sqrt(Math.pow(x - robotArmX, 2) + Math.pow(z - robotArmZ, 2));
-        const minDistanceFromRobotArm = robotArmRadius + radius + 0.5; // Extra safety margin
+      layout.objects.forEach(({ x, y, z }, i) => {
+        // Visual mesh in the object's configured shape and color
+        const mesh = createObjectMesh(sceneConfig.objects[i]);
+        mesh.position.set(x, y, z);
+        scene.add(mesh);
         
-        if (distanceFromRobotArm < minDistanceFromRobotArm) {
-          return false; // Too close to robot arm
-        }
+        // Create physics body with Rapier (shared with the server's re-simulation)
+        const body = createObjectBody(RAPIER, world, sceneConfig.objects[i], { x, y, z });
         
-        // Check distance from other objects
-        for (const pos of occupiedPositions) {
-          const distance = Math.sqrt(Math.pow(x - pos.x, 2) + Math.pow(z - pos.z, 2));
-          if (distance < minDistance + pos.radius * 2) { // Reduced safety margin
-            return false;
-          }
-        }
-        return true;
-      };
+        objects.push({ mesh, body });
+      });
       
-      for (let i = 0; i < numObjects; i++) {
-        // Create uniform cubes only (removed cylinder option)
-        let geometry: THREE.BufferGeometry;
-        let colliderDesc: RAPIER.ColliderDesc;
-        let objectRadius: number;
-        
-        // Create uniform sized cubes (2.5cm in 20cm table = 12.5% ratio)
-        // Table is 6 units, so cube should be 6 * 0.125 = 0.75 units
-        const size = 0.75; // Real scale: 2.5cm cubes on 20cm table
-        geometry = new THREE.BoxGeometry(size, size, size);
-        colliderDesc = RAPIER.ColliderDesc.cuboid(size/2, size/2, size/2);
-        objectRadius = size * 1.2; // Reasonable safety radius
-        
-        // Create visual mesh with fixed color mapping
-        // Object1 (i=0) = Red, Object2 (i=1) = Green, Object3 (i=2) = Blue
-        const material = new THREE.MeshPhongMaterial({ 
-          color: colors[i], // Fixed color mapping: 0=Red, 1=Green, 2=Blue
-          shininess: 30
+      objectsRef.current = objects;
+      
+      // Gripper at the arm tip (same grasp rules as the server's re-simulation)
+      const gripper = new Gripper(RAPIER, world, robotArm.rigidBody, objects.map(obj => obj.body), sceneConfig.objects, ROBOT_ARM_RADIUS);
+      gripperRef.current = gripper;
+      
+      // Pose of every object before the latest physics step, used to interpolate rendering
+      const previousPoses = objects.map(obj => ({
+        position: obj.mesh.position.clone(),
+        quaternion: obj.mesh.quaternion.clone()
+      }));
+      
+      const capturePreviousPoses = () => {
+        objects.forEach((obj, i) => {
+          const position = obj.body.translation();
+          const rotation = obj.body.rotation();
+          previousPoses[i].position.set(position.x, position.y, position.z);
+          previousPoses[i].quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
         });
-        const mesh = new THREE.Mesh(geometry, material);
-        
-        // Find a valid position that doesn't overlap with existing objects
-        let x: number, z: number;
-        let attempts = 0;
-        const maxAttempts = 100; // Reduced attempts for faster placement
-        
-        do {
-          x = (Math.random() - 0.5) * 3.5; // Larger area: Random x between -1.75 and 1.75
-          z = (Math.random() - 0.5) * 3.5; // Larger area: Random z between -1.75 and 1.75
-          attempts++;
-        } while (!isPositionValid(x, z, objectRadius) && attempts < maxAttempts);
-        
-        // If we couldn't find a valid position, place it in a grid pattern with reasonable spacing
-        if (attempts >= maxAttempts) {
-          const gridSize = Math.ceil(Math.sqrt(numObjects));
-          const gridIndex = occupiedPositions.length;
-          const gridX = (gridIndex % gridSize) - gridSize / 2;
-          const gridZ = Math.floor(gridIndex / gridSize) - gridSize / 2;
-          x = gridX * 1.2; // Reasonable grid spacing
-          z = gridZ * 1.2;
+      };
+
+      // Put the arm and every object back to the seeded initial state (the seed may have changed, e.g. after an import)
+      resetSceneRef.current = () => {
+        if (layout.seed !== sceneSeedRef.current) {
+          layout = generateSceneLayout(sceneSeedRef.current, layoutOptions);
         }
         
-        const y = 2.5; // Moderate height for natural falling
-        
-        mesh.position.set(x, y, z);
-        scene.add(mesh);
-        
-        // Create physics body with Rapier - balanced settings for interaction
-        const rigidBodyDesc = RAPIER.RigidBodyDesc.dynamic();
-        // Enable CCD (Continuous Collision Detection) to prevent tunneling
-        rigidBodyDesc.setCcdEnabled(true);
-        const body = world.createRigidBody(rigidBodyDesc);
-        body.setTranslation({ x, y, z }, true);
-        
-        // Set balanced mass and collision properties for good interaction
-        colliderDesc.setMass(8.0); // Moderate mass for stability but allow movement
-        colliderDesc.setFriction(0.8); // Good friction but not excessive
-        colliderDesc.setRestitution(0.1); // Some bouncing for natural interaction
-        // Keep collision groups for good detection
-        colliderDesc.setCollisionGroups(0x00010001);
-        world.createCollider(colliderDesc, body);
+        // Drop anything held before the objects are moved back
+        gripper.reset();
+        gripperClosedRef.current = false;
+        armHeightRef.current = ROBOT_ARM_Y;
+        robotArm.setPosition(new THREE.Vector3(start.x, start.y, start.z));
+        armTargetRef.current.set(start.x, start.y, start.z);
+        armMotion.reset();
+        pointerTargetRef.current = null;
         
-        // Add moderate damping for stability but allow interaction
-        body.setLinearDamping(0.5);
-        body.setAngularDamping(0.6);
-        
-        // Allow full rotation for natural physics
-        // Remove the lockRotations call for natural interaction
+        objects.forEach((obj, i) => {
+          const { x, y, z } = layout.objects[i];
+          obj.body.setTranslation({ x, y, z }, true);
+          obj.body.setRotation({ x: 0, y: 0, z: 0, w: 1 }, true);
+          obj.body.setLinvel({ x: 0, y: 0, z: 0 }, true);
+          obj.body.setAngvel({ x: 0, y: 0, z: 0 }, true);
+          obj.mesh.position.set(x, y, z);
+          obj.mesh.quaternion.identity();
+        });
+        capturePreviousPoses();
         
-        objects.push({ mesh, body });
-        occupiedPositions.push({ x, z, radius: objectRadius });
-      }
-      
-      objectsRef.current = objects;
+        console.log(`🎲 Scene reset to seed ${layout.seed}`);
+      };
 
       // Mouse/touch interaction variables
       let isDragging = false;
@@ -968,8 +1819,34 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
         );
       };
 
+      const toggleGripper = () => {
+        gripperClosedRef.current = !gripperClosedRef.current;
+        console.log(gripperClosedRef.current ? '✊ Gripper closing' : '✋ Gripper opening');
+      };
+
+      // Raise or lower the arm over its current target
+      const setArmHeight = (height: number) => {
+        armHeightRef.current = Math.max(ROBOT_ARM_Y, Math.min(ROBOT_ARM_MAX_Y, height));
+        armTargetRef.current.y = armHeightRef.current;
+      };
+
+      // Follow the pointer, kept over the table (the arm is built to reach every point above it)
+      const setArmTarget = (point: THREE.Vector3) => {
+        armTargetRef.current.set(
+          Math.max(-table.halfWidth, Math.min(table.halfWidth, point.x)),
+          armHeightRef.current,
+          Math.max(-table.halfDepth, Math.min(table.halfDepth, point.z))
+        );
+      };
+
       const onPointerDown = (event: MouseEvent | TouchEvent) => {
         event.preventDefault();
+        // Second mouse button opens/closes the gripper
+        if ('button' in event && event.button === 2) {
+          toggleGripper();
+          return;
+        }
+        renderer.domElement.focus();
         const pointer = getPointerPosition(event);
         
         const raycaster = new THREE.Raycaster();
@@ -978,7 +1855,12 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
         
         if (intersection) {
           isDragging = true;
-          robotArm.setPosition(new THREE.Vector3(intersection.x, ROBOT_ARM_Y, intersection.z));
+          pointerDownRef.current = true;
+          pointerTargetRef.current = intersection;
+          setArmTarget(intersection);
+          if (isRecordingRef.current) {
+            pointerEventTimesRef.current.push(performance.now() - recordingStartTimeRef.current);
+          }
         }
       };
 
@@ -993,12 +1875,16 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
         const intersection = raycaster.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), 0), new THREE.Vector3());
         
         if (intersection) {
-          robotArm.setPosition(new THREE.Vector3(intersection.x, ROBOT_ARM_Y, intersection.z));
+          pointerTargetRef.current = intersection;
+          setArmTarget(intersection);
+          if (isRecordingRef.current) {
+            pointerEventTimesRef.current.push(performance.now() - recordingStartTimeRef.current);
+          }
           
           // Convert to normalized coordinates for display
-          const normalizedPos = normalizeCoordinates(intersection.x, ROBOT_ARM_Y, intersection.z);
+          const normalizedPos = normalizeCoordinates(intersection.x, armHeightRef.current, intersection.z, table);
           console.log(`🤖 Robot arm position (normalized): x=${normalizedPos.x.toFixed(3)}, y=${normalizedPos.y.toFixed(3)}, z=0.760`);
-          console.log(`🤖 Robot arm position (raw): x=${intersection.x.toFixed(2)}, y=${ROBOT_ARM_Y.toFixed(2)}, z=${intersection.z.toFixed(2)}`);
+          console.log(`🤖 Robot arm position (raw): x=${intersection.x.toFixed(2)}, y=${armHeightRef.current.toFixed(2)}, z=${intersection.z.toFixed(2)}`);
           
           // Log distances to objects for debugging (removed verification trigger)
           objects.forEach((obj, index) => {
@@ -1009,18 +1895,40 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
             );
             
             // Also show normalized object position
-            const normalizedObjPos = normalizeCoordinates(objPos.x, objPos.y, objPos.z);
-            const colors = ['Red', 'Green', 'Blue'];
-            console.log(`📏 ${colors[index]} object (Object${index + 1}) - Normalized: x=${normalizedObjPos.x.toFixed(3)}, y=${normalizedObjPos.y.toFixed(3)}, z=0.760`);
-            console.log(`📏 Distance to ${colors[index]} object: ${distance.toFixed(2)} units`);
+            const normalizedObjPos = normalizeCoordinates(objPos.x, objPos.y, objPos.z, table);
+            const { name } = sceneConfig.objects[index];
+            console.log(`📏 ${name} object - Normalized: x=${normalizedObjPos.x.toFixed(3)}, y=${normalizedObjPos.y.toFixed(3)}, z=0.760`);
+            console.log(`📏 Distance to ${name} object: ${distance.toFixed(2)} units`);
           });
         }
       };
 
       const onPointerUp = () => {
         isDragging = false;
+        pointerDownRef.current = false;
+      };
+
+      const onWheel = (event: WheelEvent) => {
+        event.preventDefault();
+        setArmHeight(armHeightRef.current - Math.sign(event.deltaY) * ROBOT_ARM_HEIGHT_STEP);
+      };
+
+      // Keys act only while the canvas has focus (it takes focus when clicked)
+      const onKeyDown = (event: KeyboardEvent) => {
+        if (event.key === ' ') {
+          toggleGripper();
+        } else if (event.key === 'ArrowUp') {
+          setArmHeight(armHeightRef.current + ROBOT_ARM_HEIGHT_STEP);
+        } else if (event.key === 'ArrowDown') {
+          setArmHeight(armHeightRef.current - ROBOT_ARM_HEIGHT_STEP);
+        } else {
+          return;
+        }
+        event.preventDefault();
       };
 
+      const onContextMenu = (event: MouseEvent) => event.preventDefault();
+
       // Add event listeners
       renderer.domElement.addEventListener('mousedown', onPointerDown);
       renderer.domElement.addEventListener('mousemove', onPointerMove);
@@ -1028,6 +1936,10 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
       renderer.domElement.addEventListener('touchstart', onPointerDown);
       renderer.domElement.addEventListener('touchmove', onPointerMove);
       renderer.domElement.addEventListener('touchend', onPointerUp);
+      renderer.domElement.addEventListener('wheel', onWheel, { passive: false });
+      renderer.domElement.addEventListener('keydown', onKeyDown);
+      renderer.domElement.addEventListener('contextmenu', onContextMenu);
+      renderer.domElement.tabIndex = 0;
 
       const animate = () => {
         if (!isMounted) return;
@@ -1037,38 +1949,50 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
         const currentTime = performance.now();
         lastTimeRef.current = currentTime;
         
-        // Step Rapier physics simulation with balanced precision (only if not replaying)
-        if (worldRef.current && !isReplayingRef.current) {
-          // Use normal step rate for good performance and interaction
-          worldRef.current.step();
-        }
-        
         // Handle replay or normal physics
         if (isReplayingRef.current) {
+          // Physics is frozen during replay; drop the time base so it resumes without catching up
+          physicsLoop.pause();
           replayFrame();
         } else {
-          // Sync object meshes with their physics bodies (normal mode)
-          objects.forEach(obj => {
+          // Step Rapier physics in fixed increments for the real time elapsed since the last frame
+          const alpha = physicsLoop.advance(currentTime, (stepIndex) => {
+            capturePreviousPoses();
+            // Move the arm one speed-limited step toward the pointer target (the held object never blocks it)
+            const held = gripper.held !== null ? objects[gripper.held].body : null;
+            robotArm.moveTo(armMotion.step(robotArm.position, armTargetRef.current, world.timestep, held));
+            gripper.update(gripperClosedRef.current);
+            world.step();
+            
+            // Record frame if recording (sampled on the simulation tick)
+            recordStep(stepIndex + 1);
+          });
+          
+          robotArm.setGripperWidth(gripper.width);
+          
+          // Sync object meshes with their physics bodies, interpolated between the last two steps
+          objects.forEach((obj, i) => {
             const position = obj.body.translation();
             const rotation = obj.body.rotation();
+            const previous = previousPoses[i];
             
-            obj.mesh.position.set(position.x, position.y, position.z);
-            obj.mesh.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+            obj.mesh.position.lerpVectors(previous.position, new THREE.Vector3(position.x, position.y, position.z), alpha);
+            obj.mesh.quaternion.slerpQuaternions(previous.quaternion, new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w), alpha);
           });
-          
-          // Record frame if recording
-          recordFrame();
         }
         
         renderer.render(scene, camera);
       };
       
       animate();
+      onReadyRef.current?.();
+      if (initialTask.error) {
+        reportError('Invalid task', initialTask.error);
+      }
 
       // Cleanup function
       return () => {
         isMounted = false;
-        initializedRef.current = false; // Reset for potential remount
         
         // Remove event listeners
         renderer.domElement.removeEventListener('mousedown', onPointerDown);
@@ -1077,8 +2001,14 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
         renderer.domElement.removeEventListener('touchstart', onPointerDown);
         renderer.domElement.removeEventListener('touchmove', onPointerMove);
         renderer.domElement.removeEventListener('touchend', onPointerUp);
+        renderer.domElement.removeEventListener('wheel', onWheel);
+        renderer.domElement.removeEventListener('keydown', onKeyDown);
+        renderer.domElement.removeEventListener('contextmenu', onContextMenu);
         
-        // Clean up physics bodies
+        // Clean up physics bodies (the grasp joint first)
+        gripper.reset();
+        gripperRef.current = null;
+        armMotionRef.current = null;
         objects.forEach(obj => {
           if (worldRef.current) {
             worldRef.current.removeRigidBody(obj.body);
@@ -1089,72 +2019,153 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
           robotArmRef.current.dispose();
         }
         
-        // Clean up renderer
-        if (mountRef.current && renderer.domElement) {
-          mountRef.current.removeChild(renderer.domElement);
-        }
+        // Clean up renderer (the mount ref is already detached when unmounting)
+        renderer.domElement.remove();
         renderer.dispose();
       };
     };
 
-    initPhysics();
+    // The scene is built once per mount; unmounting (or StrictMode's remount) tears it down
+    initPhysics().then(dispose => {
+      if (isMounted) {
+        cleanup = dispose;
+      } else {
+        dispose?.();
+      }
+    });
+    return () => {
+      isMounted = false;
+      cleanup?.();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [onVerify]);
+  }, []);
 
   return (
-    <OuterBox>
-      <MainContent>
+    <OuterBox $theme={theme} $size={size}>
+      <MainContent $size={size}>
         <Logo>3D CAPTCHA</Logo>
         <CanvasFrame>
           <div ref={mountRef} />
         </CanvasFrame>
         
-        <ApiKeyContainer>
-          <ApiKeyLabel htmlFor="gemini-api-key">
-            🔑 Gemini API Key (Flash 2.0)
-          </ApiKeyLabel>
-          <ApiKeyInput
-            id="gemini-api-key"
-            type="password"
-            placeholder="Enter your Gemini API key..."
-            value={apiKey}
-            onChange={(e) => {
-              setApiKey(e.target.value);
-              clearVerificationResult();
-            }}
-            disabled={isRecording || isReplaying || isVerifying}
-          />
-        </ApiKeyContainer>
+        {!isCompact && (
+          <>
+            <ApiKeyContainer>
+              <ApiKeyLabel htmlFor="verifier-provider">
+                🧠 Verifier
+              </ApiKeyLabel>
+              <VerifierRow>
+                <select
+                  id="verifier-provider"
+                  value={verifierProvider}
+                  onChange={(e) => {
+                    setVerifierProvider(e.target.value as BrowserVerifierProvider);
+                    clearVerificationResult();
+                  }}
+                  disabled={isRecording || isReplaying || isVerifying}
+                >
+                  {BROWSER_VERIFIER_PROVIDERS.map(provider => (
+                    <option key={provider} value={provider}>{verifierProviderLabel(provider)}</option>
+                  ))}
+                </select>
+                {verifierProvider === 'server' && (
+                  <ApiKeyInput
+                    type="text"
+                    placeholder={`Server URL (default ${DEFAULT_SERVER_ENDPOINT})`}
+                    aria-label="Verification server URL"
+                    value={verifierEndpoint}
+                    onChange={(e) => setVerifierEndpoint(e.target.value)}
+                    disabled={isRecording || isReplaying || isVerifying}
+                  />
+                )}
+              </VerifierRow>
+              {isVisionProvider(verifierProvider) && (
+                <RecordingOptions>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={multiViewEvidence}
+                      onChange={(e) => setMultiViewEvidence(e.target.checked)}
+                      disabled={isVerifying}
+                    />
+                    Top-down and side views
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={keyframeEvidence}
+                      onChange={(e) => setKeyframeEvidence(e.target.checked)}
+                      disabled={isVerifying || !hasRecording}
+                    />
+                    Recording keyframes
+                  </label>
+                </RecordingOptions>
+              )}
+            </ApiKeyContainer>
         
-        <ApiKeyContainer>
-          <ApiKeyLabel htmlFor="captcha-task">
-            📋 CAPTCHA Task
-          </ApiKeyLabel>
-          <ApiKeyInput
-            id="captcha-task"
-            type="text"
-            placeholder="e.g., Move the robot arm to touch a red cube"
-            value={task}
-            onChange={(e) => {
-              setTask(e.target.value);
-              clearVerificationResult();
-            }}
-            disabled={isRecording || isReplaying || isVerifying}
-          />
-        </ApiKeyContainer>
+            <ApiKeyContainer>
+              <ApiKeyLabel htmlFor="captcha-task">
+                📋 CAPTCHA Task
+              </ApiKeyLabel>
+              <ApiKeyInput
+                id="captcha-task"
+                type="text"
+                placeholder="e.g., Move the robot arm to touch a red cube"
+                value={task}
+                onChange={(e) => {
+                  setTask(e.target.value);
+                  setTaskSpec(null); // Free text no longer matches the structured spec
+                  clearVerificationResult();
+                }}
+                disabled={challengeMode || isRecording || isReplaying || isVerifying}
+              />
+            </ApiKeyContainer>
+          </>
+        )}
         
-        <Instructions>
+        <Instructions $theme={theme}>
           <strong>Current Task:</strong> {task || 'No task specified'}
           <br />
-          <small>Use the mouse to drag the robot arm around the scene.</small>
+          {taskSpec && (
+            <>
+              <small>Goals: {taskSpec.goals.map(formatPredicate).join(' · ')}</small>
+              <br />
+            </>
+          )}
+          <small>Use the mouse to drag the robot arm around the scene. Scroll or press ↑/↓ to raise or lower it, right-click or press Space to close/open the gripper.</small>
         </Instructions>
         <ControlsContainer>
-          {!isRecording ? (
+          {challengeMode ? (
+            challenge ? (
+              <ControlButton
+                $variant="danger"
+                onClick={() => {
+                  console.log('📨 Submit Attempt button clicked!');
+                  submitChallengeAttempt();
+                }}
+                disabled={isVerifying}
+              >
+                {isVerifying ? '🔄 Checking...' : '📨 Submit Attempt'}
+              </ControlButton>
+            ) : (
+              <ControlButton
+                $variant="primary"
+                onClick={() => {
+                  console.log('🎯 Start Challenge button clicked!');
+                  startChallenge();
+                }}
+                disabled={isReplaying || isVerifying}
+              >
+                🎯 Start Challenge
+              </ControlButton>
+            )
+          ) : !isRecording ? (
             <ControlButton 
               $variant="primary" 
               onClick={() => {
                 console.log('🔵 Start Recording button clicked!');
                 startRecording();
+                reportProgress('interaction', null);
               }}
               disabled={isReplaying}
             >
@@ -1172,94 +2183,255 @@ Please respond with only "VERIFIED" or "NOT_VERIFIED" - no additional explanatio
             </ControlButton>
           )}
           
-          {!isReplaying ? (
-            <ControlButton 
-              onClick={startReplay}
-              disabled={!hasRecording || isRecording}
-            >
-              ▶️ Replay {hasRecording ? '(Ready)' : '(No Data)'}
-            </ControlButton>
-          ) : (
-            <ControlButton 
-              $variant="danger" 
-              onClick={() => {
-                console.log('🔵 Stop Replay button clicked!');
-                stopReplay();
-                saveCanvasImage();
-              }}
-            >
-              ⏹️ Stop Replay
-            </ControlButton>
+          {!isCompact && (
+            <>
+              {!isReplaying ? (
+                <ControlButton 
+                  onClick={startReplay}
+                  disabled={!hasRecording || isRecording}
+                >
+                  ▶️ Replay {hasRecording ? '(Ready)' : '(No Data)'}
+                </ControlButton>
+              ) : (
+                <ControlButton 
+                  $variant="danger" 
+                  onClick={() => {
+                    console.log('🔵 Stop Replay button clicked!');
+                    stopReplay();
+                    saveCanvasImage();
+                  }}
+                >
+                  ⏹️ Stop Replay
+                </ControlButton>
+              )}
+            </>
           )}
           
-          <ControlButton
-            $variant="primary"
-            onClick={() => {
-              console.log('🟢 Verify with Gemini button clicked!');
-              verifyWithGemini();
-            }}
-            disabled={isRecording || isReplaying || isVerifying || !apiKey.trim() || !task.trim()}
-          >
-            {isVerifying ? '🔄 Verifying...' : '✅ Verify with Gemini'}
-          </ControlButton>
+          {/* Client-side verdicts cannot pass a challenge; only the server's token counts */}
+          {!challengeMode && (
+            <>
+              <ControlButton
+                $variant="primary"
+                onClick={() => {
+                  console.log('🟢 Verify button clicked!');
+                  verifyScene({
+                    provider: verifierProvider,
+                    endpoint: verifierEndpoint.trim() || undefined
+                  });
+                }}
+                disabled={isRecording || isReplaying || isVerifying || !task.trim()}
+              >
+                {isVerifying ? '🔄 Verifying...' : `✅ Verify with ${verifierProviderLabel(verifierProvider)}`}
+              </ControlButton>
+              
+              <ControlButton
+                $variant="primary"
+                onClick={() => {
+                  console.log('📐 Verify with Rules button clicked!');
+                  verifyScene({ provider: 'rules' });
+                }}
+                disabled={isRecording || isReplaying || isVerifying || !taskSpec}
+              >
+                📐 Verify with Rules
+              </ControlButton>
+            </>
+          )}
           
-          <ControlButton
-            $variant="secondary"
-            onClick={() => {
-              console.log('📸 Save Screenshot button clicked!');
-              saveCanvasImage();
-            }}
-            disabled={isRecording || isReplaying || isVerifying}
-          >
-            📸 Save Screenshot
-          </ControlButton>
+          {!isCompact && (
+            <>
+              <ControlButton
+                $variant="secondary"
+                onClick={() => {
+                  console.log('📸 Save Screenshot button clicked!');
+                  saveCanvasImage();
+                }}
+                disabled={isRecording || isReplaying || isVerifying}
+              >
+                📸 Save Screenshot
+              </ControlButton>
           
-          <ControlButton
-            $variant="secondary"
-            onClick={() => {
-              console.log('📊 Save CSV button clicked!');
-              saveRecordingAsCSV();
-            }}
-            disabled={!hasRecording || isRecording || isReplaying || isVerifying}
-          >
-            📊 Save CSV {hasRecording ? '(Ready)' : '(No Data)'}
-          </ControlButton>
+              <ControlButton
+                $variant="secondary"
+                onClick={() => {
+                  console.log('📊 Save CSV button clicked!');
+                  saveRecordingAsCSV();
+                }}
+                disabled={!hasRecording || isRecording || isReplaying || isVerifying}
+              >
+                📊 Save CSV {hasRecording ? '(Ready)' : '(No Data)'}
+              </ControlButton>
+          
+              <ControlButton
+                $variant="secondary"
+                onClick={() => {
+                  console.log('📦 Export Episode button clicked!');
+                  saveRecordingAsEpisode();
+                }}
+                disabled={!hasRecording || isRecording || isReplaying || isVerifying}
+              >
+                📦 Export Episode
+              </ControlButton>
+          
+              <ImportLabel $disabled={isRecording || isReplaying || isVerifying}>
+                📥 Import Recording
+                <input
+                  type="file"
+                  accept=".csv,.jsonl,text/csv,application/x-ndjson"
+                  disabled={isRecording || isReplaying || isVerifying}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importRecording(file);
+                    e.target.value = '';
+                  }}
+                />
+              </ImportLabel>
+            </>
+          )}
           
           {isRecording && <StatusIndicator $isActive={true} />}
           {isReplaying && <span style={{fontSize: '0.8rem', color: '#666'}}>Replaying...</span>}
         </ControlsContainer>
         
-        {/* Debug info - remove in production */}
-        <div style={{fontSize: '0.7rem', color: '#999', marginTop: '8px', textAlign: 'center'}}>
-          Debug: Recording={isRecording ? 'ON' : 'OFF'} | 
-          HasData={hasRecording ? 'YES' : 'NO'} | 
-          Replaying={isReplaying ? 'ON' : 'OFF'}
-        </div>
+        {isReplaying && (
+          <ReplayControls
+            frameIndex={replayFrameIndex}
+            frameCount={recordingDataRef.current.length}
+            timestamp={recordingDataRef.current[replayFrameIndex]?.timestamp ?? 0}
+            isPaused={isReplayPaused}
+            speed={replaySpeed}
+            loop={replayLoop}
+            poseError={replayPoseError}
+            divergence={divergenceReport}
+            onTogglePause={toggleReplayPause}
+            onStep={stepReplay}
+            onSeek={(frameIndex) => {
+              setReplayPaused(true);
+              seekReplay(frameIndex);
+            }}
+            onSpeedChange={changeReplaySpeed}
+            onLoopChange={changeReplayLoop}
+          />
+        )}
+        
+        {!isCompact && (
+          <>
+            <RecordingOptions>
+              <label>
+                🎞️ Capture rate
+                <select
+                  value={String(captureRate)}
+                  onChange={(e) => setCaptureRate(e.target.value === 'step' ? 'step' : Number(e.target.value) as CaptureRate)}
+                  disabled={isRecording || isReplaying}
+                >
+                  {CAPTURE_RATES.map(rate => (
+                    <option key={rate} value={String(rate)}>{captureRateLabel(rate)}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={rawCapture}
+                  onChange={(e) => setRawCapture(e.target.checked)}
+                  disabled={isRecording || isReplaying}
+                />
+                Raw capture (velocities, pointer)
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={captureImages}
+                  onChange={(e) => setCaptureImages(e.target.checked)}
+                  disabled={isRecording || isReplaying}
+                />
+                Image frames
+              </label>
+              <label>
+                🎬 Replay
+                <select
+                  value={replayMode}
+                  onChange={(e) => setReplayMode(e.target.value as ReplayMode)}
+                  disabled={isReplaying}
+                >
+                  {REPLAY_MODES.map(mode => (
+                    <option key={mode} value={mode}>{replayModeLabel(mode)}</option>
+                  ))}
+                </select>
+              </label>
+            </RecordingOptions>
+        
+            {/* Debug info - remove in production */}
+            <div style={{fontSize: '0.7rem', color: '#999', marginTop: '8px', textAlign: 'center'}}>
+              Debug: Recording={isRecording ? 'ON' : 'OFF'} | 
+              HasData={hasRecording ? 'YES' : 'NO'} | 
+              Replaying={isReplaying ? 'ON' : 'OFF'} | 
+              Seed={sceneSeed}
+              {uploadStatus && ` | Uploads=${uploadStatus.pending} pending${uploadStatus.lastError ? ` (${uploadStatus.lastError})` : ''}`}
+            </div>
+          </>
+        )}
         
         {verificationResult && (
           <VerificationResult $result={verificationResult}>
             {verificationResult === 'success' ? 'CAPTCHA PASSED!' : 'CAPTCHA FAILED'}
+            {verificationDetails && (
+              <SubgoalList>
+                <li>{verifierProviderLabel(verificationDetails.provider)} · {verificationDetails.model} · confidence {verificationDetails.confidence.toFixed(2)}</li>
+                {verificationDetails.subgoals.map((subgoal, index) => (
+                  <li key={index}>
+                    {subgoal.passed ? '✅' : '❌'} {subgoal.description}
+                    {subgoal.reason && <small> — {subgoal.reason}</small>}
+                  </li>
+                ))}
+                <li><em>{verificationDetails.rationale}</em></li>
+                {verificationDetails.analysis && <li>{formatBotRisk(verificationDetails.analysis)}</li>}
+              </SubgoalList>
+            )}
+            {challengeResult && (
+              <SubgoalList>
+                <li>Server re-simulation · {challengeResult.token ? 'pass token issued' : 'no token'}</li>
+                <li>{formatBotRisk(challengeResult.analysis)}</li>
+                {challengeResult.verification.subgoals.map((subgoal, index) => (
+                  <li key={index}>{subgoal.passed ? '✅' : '❌'} {subgoal.description}</li>
+                ))}
+              </SubgoalList>
+            )}
           </VerificationResult>
         )}
       </MainContent>
 
-      <TaskExamplesPanel>
-        <TaskExamplesTitle>
-          💡 Task Examples
-        </TaskExamplesTitle>
-        <TaskExamplesList>
-          {taskExamples.map((example, index) => (
-            <TaskExampleItem
-              key={index}
-              onClick={() => selectTaskExample(example)}
-              disabled={isRecording || isReplaying || isVerifying}
-              title={`Click to use: ${example}`}
-            >
-              {example}
-            </TaskExampleItem>
-          ))}
-        </TaskExamplesList>
-      </TaskExamplesPanel>
+      {!isCompact && (
+        <TaskExamplesPanel>
+          <TaskExamplesTitle>
+            💡 Task Examples
+          </TaskExamplesTitle>
+          <TaskExamplesList>
+            {taskExamples.map(example => (
+              <TaskExampleItem
+                key={example.id}
+                onClick={() => selectTaskExample(example)}
+                disabled={challengeMode || isRecording || isReplaying || isVerifying}
+                title={`Click to use: ${example.goals.map(formatPredicate).join(', ')}`}
+              >
+                {describeTask(example)}
+              </TaskExampleItem>
+            ))}
+            <TaskFileLabel>
+              📂 Load task file (JSON)
+              <input
+                type="file"
+                accept="application/json,.json"
+                disabled={challengeMode || isRecording || isReplaying || isVerifying}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadTaskFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </TaskFileLabel>
+          </TaskExamplesList>
+        </TaskExamplesPanel>
+      )}
     </OuterBox>
   );
 };
@@ -0,0 +1,78 @@
+import { ArmModel, clampToLimits, createArmModel, forwardKinematics, solveArmIk } from './armKinematics';
+import { DEFAULT_TABLE_BOUNDS, TableBounds } from './taskVerifier';
+
+const expectNear = (actual: { x: number, y: number, z: number }, expected: { x: number, y: number, z: number }) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+  expect(actual.z).toBeCloseTo(expected.z, 6);
+};
+
+// Table points at cube-center height, corners included
+const tablePoints = (table: TableBounds) => [-1, -0.5, 0, 0.5, 1].flatMap(u => [-1, -0.5, 0, 0.5, 1].map(v => ({
+  x: u * table.halfWidth, y: 0.4, z: v * table.halfDepth
+})));
+
+const withinLimits = (model: ArmModel, angles: number[]) => angles.every((angle, i) => {
+  return angle >= model.joints[i].min - 1e-9 && angle <= model.joints[i].max + 1e-9;
+});
+
+describe('forwardKinematics', () => {
+  it('stretches the arm toward the front edge with every joint at zero', () => {
+    const model = createArmModel(DEFAULT_TABLE_BOUNDS);
+    const pose = forwardKinematics(model, [0, 0, 0, 0]);
+    const length = model.upperArmLength + model.forearmLength + model.toolLength;
+    expectNear(pose.tip, { x: 0, y: model.shoulderHeight, z: model.base.z + length });
+  });
+
+  it('turns the arm plane with the base yaw', () => {
+    const model = createArmModel(DEFAULT_TABLE_BOUNDS);
+    const pose = forwardKinematics(model, [Math.PI / 2, 0, 0, 0]);
+    expect(pose.tip.x).toBeCloseTo(model.upperArmLength + model.forearmLength + model.toolLength, 6);
+    expect(pose.tip.z).toBeCloseTo(model.base.z, 6);
+  });
+});
+
+describe('solveArmIk', () => {
+  it('reaches every point of the table with the tool pointing down', () => {
+    [DEFAULT_TABLE_BOUNDS, { halfWidth: 4.5, halfDepth: 2 }].forEach(table => {
+      const model = createArmModel(table);
+      tablePoints(table).forEach(target => {
+        const solution = solveArmIk(model, target);
+        expect(solution.reached).toBe(true);
+        expectNear(solution.pose.tip, target);
+        expect(solution.pose.wrist.x).toBeCloseTo(solution.pose.tip.x, 6);
+        expect(solution.pose.wrist.z).toBeCloseTo(solution.pose.tip.z, 6);
+        expect(withinLimits(model, solution.angles)).toBe(true);
+      });
+    });
+  });
+
+  it('keeps the elbow above the tip', () => {
+    const model = createArmModel(DEFAULT_TABLE_BOUNDS);
+    tablePoints(DEFAULT_TABLE_BOUNDS).forEach(target => {
+      const { pose } = solveArmIk(model, target);
+      expect(pose.elbow.y).toBeGreaterThan(pose.tip.y);
+    });
+  });
+
+  it('stops short of targets out of reach, within the joint limits', () => {
+    const model = createArmModel(DEFAULT_TABLE_BOUNDS);
+    const solution = solveArmIk(model, { x: 0, y: 0.4, z: 20 });
+    expect(solution.reached).toBe(false);
+    expect(withinLimits(model, solution.angles)).toBe(true);
+    expect(solution.pose.tip.z).toBeLessThan(20);
+    expect(solution.pose.tip.z).toBeGreaterThan(DEFAULT_TABLE_BOUNDS.halfDepth);
+  });
+
+  it('does not reach behind the base beyond the yaw limit', () => {
+    const model = createArmModel(DEFAULT_TABLE_BOUNDS);
+    expect(solveArmIk(model, { x: 0, y: 0.4, z: model.base.z - 2 }).reached).toBe(false);
+  });
+});
+
+describe('clampToLimits', () => {
+  it('clamps each angle to its joint', () => {
+    const model = createArmModel(DEFAULT_TABLE_BOUNDS);
+    expect(clampToLimits(model, [4, -1, 0.5, 0])).toEqual([model.joints[0].max, model.joints[1].min, 0, 0]);
+  });
+});
@@ -0,0 +1,157 @@
+// Articulated arm kinematics
+// A 4-joint arm (base yaw, shoulder, elbow and wrist pitch) mounted behind the back edge of the table,
+// with a vertical tool whose tip is the end effector. The pointer target is turned into joint angles by
+// an analytic IK solver (elbow up, tool pointing down) and the angles into the tip position by forward
+// kinematics, so the tip only goes where the joints and their limits allow.
+// Only the tip collides with the objects; the links pass above them. The recorded arm position and the
+// server's re-simulation use the tip, and the joint angles are recorded alongside it.
+
+import { Vector3State } from './recording';
+import { TableBounds } from './taskVerifier';
+
+export interface ArmJoint {
+  name: string;
+  axis: 'yaw' | 'pitch'; // yaw: about the vertical axis; pitch: about the horizontal axis across the arm
+  min: number;           // Limits in radians
+  max: number;
+}
+
+export interface ArmModel {
+  base: Vector3State;      // Foot of the base column on the table plane
+  shoulderHeight: number;  // Height of the shoulder joint above the base
+  upperArmLength: number;  // Shoulder to elbow
+  forearmLength: number;   // Elbow to wrist
+  toolLength: number;      // Wrist to tip (the tool points straight down)
+  joints: ArmJoint[];      // In the order of the joint angles
+}
+
+// Joint angles in radians, in the order of ArmModel.joints:
+// base yaw (0 = facing the front edge, positive turns toward +x), shoulder pitch (elevation of the upper
+// arm above horizontal), elbow pitch (bend relative to the upper arm, negative folds down) and wrist pitch
+export type JointAngles = number[];
+
+export const ARM_JOINT_NAMES = ['base_yaw', 'shoulder_pitch', 'elbow_pitch', 'wrist_pitch'];
+
+// World positions of the arm's joints, from the base to the tip
+export interface ArmPose {
+  base: Vector3State;
+  shoulder: Vector3State;
+  elbow: Vector3State;
+  wrist: Vector3State;
+  tip: Vector3State;
+}
+
+export interface IkSolution {
+  angles: JointAngles;
+  pose: ArmPose;
+  reached: boolean; // False when the target is out of reach or beyond a joint limit (the tip stops short)
+}
+
+const degrees = (value: number) => value * Math.PI / 180;
+
+// Gap between the back edge of the table and the base
+const BASE_OFFSET = 0.6;
+const SHOULDER_HEIGHT = 0.8;
+const TOOL_LENGTH = 0.5;
+// Position error (Three.js units) below which the target counts as reached
+const REACH_TOLERANCE = 1e-3;
+
+// Where the arm stands (behind the middle of the back edge) and how far it must reach (a front corner)
+export const armMount = (table: TableBounds): { base: Vector3State, reach: number } => {
+  const baseZ = -(table.halfDepth + BASE_OFFSET);
+  return {
+    base: { x: 0, y: 0, z: baseZ },
+    reach: Math.sqrt(table.halfWidth * table.halfWidth + Math.pow(table.halfDepth - baseZ, 2))
+  };
+};
+
+// Arm sized to reach every point of the table from behind its back edge
+export const createArmModel = (table: TableBounds): ArmModel => {
+  const { base, reach } = armMount(table);
+  const linkLength = reach * 0.55;
+
+  return {
+    base,
+    shoulderHeight: SHOULDER_HEIGHT,
+    upperArmLength: linkLength,
+    forearmLength: linkLength,
+    toolLength: TOOL_LENGTH,
+    joints: [
+      { name: 'base_yaw', axis: 'yaw', min: degrees(-120), max: degrees(120) },
+      { name: 'shoulder_pitch', axis: 'pitch', min: degrees(-20), max: degrees(160) },
+      { name: 'elbow_pitch', axis: 'pitch', min: degrees(-178), max: degrees(0) },
+      { name: 'wrist_pitch', axis: 'pitch', min: degrees(-180), max: degrees(180) }
+    ]
+  };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const clampToLimits = (model: ArmModel, angles: JointAngles): JointAngles => {
+  return angles.map((angle, i) => clamp(angle, model.joints[i].min, model.joints[i].max));
+};
+
+export const forwardKinematics = (model: ArmModel, angles: JointAngles): ArmPose => {
+  const [yaw, shoulderPitch, elbowPitch, wristPitch] = angles;
+  const { base } = model;
+  // Horizontal direction of the arm plane
+  const dirX = Math.sin(yaw);
+  const dirZ = Math.cos(yaw);
+  // Point at distance r along the arm plane and height y
+  const inPlane = (r: number, y: number): Vector3State => ({ x: base.x + dirX * r, y: base.y + y, z: base.z + dirZ * r });
+
+  const upperAngle = shoulderPitch;
+  const foreAngle = upperAngle + elbowPitch;
+  const toolAngle = foreAngle + wristPitch;
+
+  const elbowR = model.upperArmLength * Math.cos(upperAngle);
+  const elbowY = model.shoulderHeight + model.upperArmLength * Math.sin(upperAngle);
+  const wristR = elbowR + model.forearmLength * Math.cos(foreAngle);
+  const wristY = elbowY + model.forearmLength * Math.sin(foreAngle);
+  const tipR = wristR + model.toolLength * Math.cos(toolAngle);
+  const tipY = wristY + model.toolLength * Math.sin(toolAngle);
+
+  return {
+    base: { ...base },
+    shoulder: inPlane(0, model.shoulderHeight),
+    elbow: inPlane(elbowR, elbowY),
+    wrist: inPlane(wristR, wristY),
+    tip: inPlane(tipR, tipY)
+  };
+};
+
+// Joint angles that put the tip at the target with the tool pointing down (elbow-up solution).
+// Out-of-reach targets are approached along the line from the shoulder, and every angle is clamped to
+// its limits; the returned pose is where the tip actually ends up.
+export const solveArmIk = (model: ArmModel, target: Vector3State): IkSolution => {
+  const dx = target.x - model.base.x;
+  const dz = target.z - model.base.z;
+  const yaw = Math.atan2(dx, dz);
+
+  // Wrist position in the arm plane, relative to the shoulder
+  const L1 = model.upperArmLength;
+  const L2 = model.forearmLength;
+  let r = Math.sqrt(dx * dx + dz * dz);
+  let y = target.y - model.base.y + model.toolLength - model.shoulderHeight;
+  const distance = Math.sqrt(r * r + y * y);
+  const maxDistance = L1 + L2;
+  if (distance > maxDistance) {
+    r *= maxDistance / distance;
+    y *= maxDistance / distance;
+  }
+
+  // Law of cosines for the elbow, then the shoulder elevation
+  const cosElbow = clamp((r * r + y * y - L1 * L1 - L2 * L2) / (2 * L1 * L2), -1, 1);
+  const elbowPitch = -Math.acos(cosElbow);
+  const shoulderPitch = Math.atan2(y, r) - Math.atan2(L2 * Math.sin(elbowPitch), L1 + L2 * Math.cos(elbowPitch));
+  // Keep the tool vertical
+  const wristPitch = -Math.PI / 2 - shoulderPitch - elbowPitch;
+
+  const angles = clampToLimits(model, [yaw, shoulderPitch, elbowPitch, wristPitch]);
+  const pose = forwardKinematics(model, angles);
+  const error = Math.sqrt(
+    Math.pow(pose.tip.x - target.x, 2) + Math.pow(pose.tip.y - target.y, 2) + Math.pow(pose.tip.z - target.z, 2)
+  );
+
+  return { angles, pose, reached: error < REACH_TOLERANCE };
+};
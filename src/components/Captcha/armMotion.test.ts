@@ -0,0 +1,53 @@
+import { DEFAULT_ARM_MOTION_LIMITS, motionLimitViolation } from './armMotion';
+import { TrajectorySample } from './resimulation';
+
+const STEP = 1 / 60;
+const { maxVelocity, maxAcceleration } = DEFAULT_ARM_MOTION_LIMITS;
+
+// Tip path along x sampled every step, from the speeds of each step (units/s)
+const path = (speeds: number[]): TrajectorySample[] => {
+  let x = 0;
+  return [0, ...speeds].map((speed, step) => {
+    x += speed * STEP;
+    return { timestamp: step * STEP * 1000, position: { x, y: 0.4, z: 0 } };
+  });
+};
+
+// Speed up from rest to top speed, cruise, and brake back to rest within the limits
+const drag = (): number[] => {
+  const ramp = Array.from({ length: Math.ceil(maxVelocity / (maxAcceleration * STEP)) }, (_, step) => {
+    return Math.min(maxVelocity, (step + 1) * maxAcceleration * STEP);
+  });
+  return [...ramp, ...Array(30).fill(maxVelocity), ...ramp.slice().reverse().slice(1), 0];
+};
+
+describe('motionLimitViolation', () => {
+  it('accepts a path within the limits', () => {
+    expect(motionLimitViolation(path(drag()))).toBeNull();
+  });
+
+  it('accepts the same path sampled every few steps', () => {
+    expect(motionLimitViolation(path(drag()).filter((_, i) => i % 4 === 0))).toBeNull();
+  });
+
+  it('rejects a jump', () => {
+    const speeds = drag();
+    speeds[40] = maxVelocity * 10;
+    expect(motionLimitViolation(path(speeds))).toBe('trajectory[41] moves at 60.00 units/s (limit 6)');
+  });
+
+  it('rejects a start at full speed and a sudden stop', () => {
+    expect(motionLimitViolation(path(Array(30).fill(maxVelocity)))).toContain('trajectory[1] accelerates');
+    expect(motionLimitViolation(path([...drag().slice(0, 40), 0]))).toContain('trajectory[41] accelerates');
+  });
+
+  it('rejects moves without time passing', () => {
+    const samples = path(drag());
+    samples[5] = { ...samples[5], timestamp: samples[4].timestamp };
+    expect(motionLimitViolation(samples)).toBe('trajectory[5] moves without time passing');
+  });
+
+  it('checks against the given limits', () => {
+    expect(motionLimitViolation(path(drag()), { maxVelocity: 3, maxAcceleration })).toContain('(limit 3)');
+  });
+});
@@ -0,0 +1,188 @@
+// Velocity-limited arm motion
+// The pointer sets a target; the arm tip follows it at a bounded speed and acceleration instead of
+// jumping to it, braking so it comes to rest on the target. Before every step the arm colliders are cast
+// ahead along the tip's path, and the arm slows down to a gentle contact speed before it meets an object,
+// so it pushes objects rather than tunneling through them. The result is a path a real arm could follow.
+
+import type RAPIER from '@dimforge/rapier3d-compat';
+import type { RapierModule } from './physicsScene';
+import { Vector3State } from './recording';
+import { TrajectorySample } from './resimulation';
+
+export interface ArmMotionLimits {
+  maxVelocity: number;     // Three.js units per second
+  maxAcceleration: number; // Three.js units per second²
+}
+
+// 20 cm/s and 1 m/s² at 3.33 cm per unit: a drag across the table takes about a second
+export const DEFAULT_ARM_MOTION_LIMITS: ArmMotionLimits = { maxVelocity: 6, maxAcceleration: 30 };
+
+// Speed at which the tip may touch an object (units/s)
+const CONTACT_SPEED = 1.5;
+// Closer to the target than this, the tip counts as arrived (units)
+const ARRIVAL_DISTANCE = 1e-3;
+// Rounding slack on recorded tip positions when a path is checked against the limits (units)
+const POSITION_TOLERANCE = 1e-6;
+
+const ZERO: Vector3State = { x: 0, y: 0, z: 0 };
+
+const add = (a: Vector3State, b: Vector3State): Vector3State => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const sub = (a: Vector3State, b: Vector3State): Vector3State => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const scale = (v: Vector3State, s: number): Vector3State => ({ x: v.x * s, y: v.y * s, z: v.z * s });
+const dot = (a: Vector3State, b: Vector3State): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const length = (v: Vector3State): number => Math.sqrt(dot(v, v));
+
+export class ArmMotion {
+  velocity: Vector3State = ZERO; // Tip velocity over the last step (units/s)
+  maxVelocity: number;
+  maxAcceleration: number;
+  private rapier: RapierModule;
+  private world: RAPIER.World;
+  private armBody: RAPIER.RigidBody;
+  private links: RAPIER.RigidBody[];
+  private last: { from: Vector3State, to: Vector3State } | null = null; // Previous step
+
+  // `links` are further kinematic bodies of the arm (e.g. the link bodies of a URDF arm), read on every step
+  constructor(
+    rapier: RapierModule,
+    world: RAPIER.World,
+    armBody: RAPIER.RigidBody,
+    limits: Partial<ArmMotionLimits> = {},
+    links: RAPIER.RigidBody[] = []
+  ) {
+    this.rapier = rapier;
+    this.world = world;
+    this.armBody = armBody;
+    this.links = links;
+    this.maxVelocity = limits.maxVelocity ?? DEFAULT_ARM_MOTION_LIMITS.maxVelocity;
+    this.maxAcceleration = limits.maxAcceleration ?? DEFAULT_ARM_MOTION_LIMITS.maxAcceleration;
+  }
+
+  // Tip position after one step of `dt` seconds from `position` toward `target`. `carried` is the held
+  // object's body, which moves with the tip and so never blocks it
+  step(position: Vector3State, target: Vector3State, dt: number, carried: RAPIER.RigidBody | null = null): Vector3State {
+    const { maxVelocity, maxAcceleration } = this;
+    // The arm stops short of unreachable points: continue from the speed it actually moved at
+    if (this.last && length(sub(position, this.last.to)) > ARRIVAL_DISTANCE) {
+      this.velocity = scale(sub(position, this.last.from), 1 / dt);
+    }
+    const previous = this.velocity;
+    const offset = sub(target, position);
+    const distance = length(offset);
+
+    let desired = ZERO;
+    if (distance > ARRIVAL_DISTANCE) {
+      const direction = scale(offset, 1 / distance);
+      // Fastest speed from which the arm can still brake to a stop on the target, and to contact speed
+      // before it reaches an object in the way
+      let speed = Math.min(maxVelocity, this.brakingSpeed(distance, dt));
+      const contact = this.distanceToContact(position, direction, dt, carried);
+      if (contact !== null) {
+        speed = Math.min(speed, CONTACT_SPEED + this.brakingSpeed(contact, dt));
+      }
+      desired = scale(direction, speed);
+    }
+
+    // Change the velocity by at most one step of acceleration
+    const change = sub(desired, this.velocity);
+    const maxChange = maxAcceleration * dt;
+    const changeLength = length(change);
+    this.velocity = add(this.velocity, changeLength > maxChange ? scale(change, maxChange / changeLength) : change);
+
+    // Stop on the target instead of overshooting it, if the shorter last move and the halt on the next step each
+    // change the velocity by at most one step of acceleration (otherwise overshoot and come back)
+    const move = scale(this.velocity, dt);
+    let next = add(position, move);
+    const arrival = scale(offset, 1 / dt);
+    if (desired !== ZERO && length(move) >= distance && dot(move, offset) > 0
+      && length(arrival) <= maxChange && length(sub(arrival, previous)) <= maxChange) {
+      this.velocity = arrival;
+      next = { ...target };
+    }
+    this.last = { from: { ...position }, to: next };
+    return next;
+  }
+
+  // Stop at once (e.g. when the scene is reset or the arm is placed directly)
+  reset() {
+    this.velocity = ZERO;
+    this.last = null;
+  }
+
+  // Speed that slowing down by one step of acceleration per step brings to zero within `distance`
+  // (the continuous v² = 2ad would overshoot the limit on the last steps)
+  private brakingSpeed(distance: number, dt: number): number {
+    const halfStep = this.maxAcceleration * dt / 2;
+    return Math.sqrt(halfStep * halfStep + 2 * this.maxAcceleration * distance) - halfStep;
+  }
+
+  // Free distance along `direction` before an arm collider touches a dynamic object, within the distance
+  // needed to brake down to contact speed (null: nothing in the way). Link colliders are cast along the
+  // tip's path too: they move with the tip, if mostly less far, so this errs on the side of braking early
+  private distanceToContact(position: Vector3State, direction: Vector3State, dt: number, carried: RAPIER.RigidBody | null): number | null {
+    const { maxVelocity, maxAcceleration } = this;
+    const lookahead = Math.max(0, maxVelocity * maxVelocity - CONTACT_SPEED * CONTACT_SPEED) / (2 * maxAcceleration) + maxVelocity * dt;
+    const predicate = carried ? (collider: RAPIER.Collider) => collider.parent()?.handle !== carried.handle : undefined;
+
+    let closest: number | null = null;
+    [this.armBody, ...this.links].forEach(body => {
+      for (let i = 0; i < body.numColliders(); i++) {
+        const collider = body.collider(i);
+        const hit = this.world.castShape(
+          // Colliders follow a body placed directly only on the next world step (e.g. after a reset)
+          body === this.armBody ? position : collider.translation(),
+          collider.rotation(),
+          direction,
+          collider.shape,
+          0,
+          lookahead,
+          false,
+          this.rapier.QueryFilterFlags.ONLY_DYNAMIC,
+          undefined,
+          undefined,
+          body,
+          predicate
+        );
+        if (hit && (closest === null || hit.time_of_impact < closest)) {
+          closest = hit.time_of_impact;
+        }
+      }
+    });
+    return closest;
+  }
+}
+
+// Why a recorded tip path breaks the limits (null: ArmMotion could have produced it). The arm starts at
+// rest and keeps its velocity over each interval between samples; from one interval to the next it may
+// change by the acceleration over the longer of the two (one step when every step is sampled)
+export const motionLimitViolation = (trajectory: TrajectorySample[], limits: ArmMotionLimits = DEFAULT_ARM_MOTION_LIMITS): string | null => {
+  // Speed error of a move between two positions that are each off by the tolerance
+  const slack = (seconds: number) => 2 * POSITION_TOLERANCE / seconds;
+  let velocity = ZERO;
+  let interval = 0; // Previous interval (s)
+
+  for (let i = 1; i < trajectory.length; i++) {
+    const dt = (trajectory[i].timestamp - trajectory[i - 1].timestamp) / 1000;
+    const move = sub(trajectory[i].position, trajectory[i - 1].position);
+    if (dt <= 0) {
+      if (length(move) > 2 * POSITION_TOLERANCE) {
+        return `trajectory[${i}] moves without time passing`;
+      }
+      continue;
+    }
+
+    const next = scale(move, 1 / dt);
+    const speed = length(next);
+    if (speed > limits.maxVelocity + slack(dt)) {
+      return `trajectory[${i}] moves at ${speed.toFixed(2)} units/s (limit ${limits.maxVelocity})`;
+    }
+    const acceleration = length(sub(next, velocity)) / Math.max(interval, dt);
+    const accelerationSlack = (slack(dt) + (interval > 0 ? slack(interval) : 0)) / Math.max(interval, dt);
+    if (acceleration > limits.maxAcceleration + accelerationSlack) {
+      return `trajectory[${i}] accelerates at ${acceleration.toFixed(1)} units/s² (limit ${limits.maxAcceleration})`;
+    }
+    velocity = next;
+    interval = dt;
+  }
+  return null;
+};
@@ -0,0 +1,31 @@
+// Lifecycle callbacks of the CAPTCHA, as seen by the host page
+// The embeddable widget re-dispatches them as DOM events (ready, progress, verified, expired, error).
+
+import { SubgoalResult } from './taskVerifier';
+
+export type CaptchaTheme = 'light' | 'dark';
+export type CaptchaSize = 'normal' | 'compact';
+
+// challenge: waiting for the server's challenge; interaction: the user is solving the task;
+// submitting: the attempt is on its way to the server; verifying: a verifier is judging the scene
+export type CaptchaStage = 'challenge' | 'interaction' | 'submitting' | 'verifying';
+
+export interface CaptchaProgress {
+  stage: CaptchaStage;
+  challengeId: string | null;
+  taskId: string | null;
+}
+
+// What the host page learns about a verdict besides pass/fail
+export interface VerificationMetadata {
+  challengeId: string | null;
+  taskId: string | null;
+  task: string;
+  risk: number | null;           // Bot risk of the interaction (0 = human-like), when known
+  tokenExpiresAt: number | null; // ms since epoch; redeem the token at /siteverify before this
+  subgoals: SubgoalResult[];
+}
+
+// challenge: the challenge ran out before the attempt was submitted;
+// token: the pass token ran out before the host page used it
+export type CaptchaExpiry = 'challenge' | 'token';
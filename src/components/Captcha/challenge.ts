@@ -0,0 +1,105 @@
+// CAPTCHA challenge/response protocol
+// The server issues a signed challenge (seed, task, nonce, expiry). The page records the attempt from
+// the seeded layout and submits the arm trajectory; the server re-simulates it, checks the task and
+// answers with a signed pass token. The host site's backend redeems the token at /siteverify.
+
+import { TaskSpec } from './taskSpec';
+import { TaskVerification } from './taskVerifier';
+import { RecordingFrame } from './recording';
+import { TrajectorySample, armTrajectory } from './resimulation';
+import { DEFAULT_SERVER_ENDPOINT } from './verifier';
+import { TrajectoryAnalysis } from './trajectoryAnalysis';
+
+export interface Challenge {
+  id: string;
+  seed: number;
+  taskSpec: TaskSpec;
+  nonce: string;
+  issuedAt: number;   // ms since epoch
+  expiresAt: number;  // ms since epoch; submissions after this are rejected
+}
+
+// The signature covers the whole challenge, so the page cannot change the seed, task or expiry
+export interface SignedChallenge {
+  challenge: Challenge;
+  signature: string;
+}
+
+export interface ChallengeSubmission extends SignedChallenge {
+  stepSize: number;               // Physics step the attempt was simulated with (s)
+  trajectory: TrajectorySample[]; // Arm positions from the start of the attempt
+  eventTimes: number[];           // Pointer event times (ms since the start), for the timing analysis
+}
+
+export interface ChallengeResult {
+  success: boolean;
+  token: string | null;          // Pass token for the host site (only on success)
+  tokenExpiresAt: number | null;
+  verification: TaskVerification; // Verdict on the server's re-simulated scene
+  analysis: TrajectoryAnalysis;   // Bot risk of the submitted trajectory
+}
+
+// Claims carried by a pass token
+export interface PassTokenPayload {
+  challengeId: string;
+  seed: number;
+  taskId: string;
+  risk: number; // Bot risk of the attempt (0 = human-like, 1 = bot-like)
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Same shape as reCAPTCHA's siteverify answer
+export interface SiteVerifyResponse {
+  success: boolean;
+  challengeId?: string;
+  taskId?: string;
+  seed?: number;
+  risk?: number;
+  issuedAt?: number;
+  'error-codes'?: string[];
+}
+
+// Submission for a challenge, from the frames recorded since the scene was reset to its seed
+export const createSubmission = (
+  signed: SignedChallenge,
+  stepSize: number,
+  frames: RecordingFrame[],
+  eventTimes: number[]
+): ChallengeSubmission => ({
+  ...signed,
+  stepSize,
+  trajectory: armTrajectory(frames),
+  eventTimes
+});
+
+const postJson = async <T>(url: string, body: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const text = await response.text();
+
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      message = JSON.parse(text).error || message;
+    } catch {
+      // Not a JSON error body; keep the status text
+    }
+    throw new Error(`Challenge server error: ${message}`);
+  }
+  return JSON.parse(text) as T;
+};
+
+const baseUrl = (endpoint?: string) => (endpoint || DEFAULT_SERVER_ENDPOINT).replace(/\/+$/, '');
+
+// `taskId` asks for one of the server's task examples (default: a random one)
+export const requestChallenge = (endpoint?: string, taskId?: string): Promise<SignedChallenge> => {
+  return postJson<SignedChallenge>(`${baseUrl(endpoint)}/challenge`, taskId ? { taskId } : {});
+};
+
+export const submitChallenge = (endpoint: string | undefined, submission: ChallengeSubmission): Promise<ChallengeResult> => {
+  return postJson<ChallengeResult>(`${baseUrl(endpoint)}/submit`, submission);
+};
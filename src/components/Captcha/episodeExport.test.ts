@@ -0,0 +1,117 @@
+import { EPISODE_FORMAT_VERSION, parseEpisodeJsonl, serializeEpisodeJsonl } from './episodeExport';
+import { RecordingFrame, RecordingSession } from './recording';
+import { parseTaskSpec } from './taskSpec';
+import { DEFAULT_SCENE_CONFIG, SceneConfig } from './sceneConfig';
+
+const OBJECT_NAMES = ['red', 'green', 'blue'];
+const TWO_CUBES: SceneConfig = { ...DEFAULT_SCENE_CONFIG, objects: DEFAULT_SCENE_CONFIG.objects.slice(0, 2) };
+
+const frame = (index: number): RecordingFrame => {
+  const objects = OBJECT_NAMES.map((_, i) => ({
+    position: { x: 0.25 + i * 0.01, y: -0.05 + index * 0.01, z: 0.76 },
+    rotation: { x: 0, y: 0.5, z: 0, w: 0.866025 }
+  }));
+  return {
+    timestamp: index * 100,
+    step: index * 6,
+    captureTime: index * 100 + 1.5,
+    robotArm: { x: 0.3, y: 0.01 * index, z: 0.76 },
+    objects,
+    pose: {
+      robotArm: { x: index * 0.5, y: 0.3, z: -1.25 },
+      objects: OBJECT_NAMES.map((_, i) => ({
+        position: { x: i - 1, y: 0.375, z: index * 0.125 },
+        rotation: { x: 0, y: 0, z: 0.5, w: 0.866025 }
+      }))
+    },
+    action: { target: { x: 0.31, y: 0.02 }, delta: { x: index === 0 ? 0 : 0.01, y: 0 }, pointerDown: index > 0 },
+    joints: [0.1, -0.2, 0.3 * index, 0.4],
+    gripper: { closed: index > 0, width: index > 0 ? 0.1 : 1.2, held: index > 0 ? 2 : null },
+    raw: {
+      pointerTarget: index === 0 ? null : { x: 1, y: 0, z: -1 },
+      objects: OBJECT_NAMES.map(() => ({ linearVelocity: { x: 0.5, y: 0, z: 0 }, angularVelocity: { x: 0, y: 1.5, z: 0 } }))
+    }
+  };
+};
+
+const session = (): RecordingSession => ({
+  episodeId: 'episode-1',
+  seed: 1234,
+  task: 'Stack blue on red',
+  taskSpec: parseTaskSpec({ id: 'stack', goals: ['on(blue, red)'] }),
+  label: { taskId: 'stack', task: 'Stack blue on red', passed: true, subgoals: [{ description: 'Blue is on red', passed: true }] },
+  verification: null,
+  analysis: null,
+  timing: { captureRate: 10, stepSize: 1 / 60, frameInterval: 100, droppedFrames: 2, droppedTime: 33.5 },
+  frames: [frame(0), frame(1), frame(2)]
+});
+
+type JsonRecord = Record<string, unknown>;
+
+const lines = (episode: string): JsonRecord[] => episode.trim().split('\n').map(line => JSON.parse(line));
+
+// Episode with the metadata and the first frame record edited
+const edited = (editMetadata: (metadata: JsonRecord) => void, editFrame: (record: JsonRecord) => void = () => undefined) => {
+  const [metadata, first, ...rest] = lines(serializeEpisodeJsonl(session(), DEFAULT_SCENE_CONFIG));
+  editMetadata(metadata);
+  editFrame(first);
+  return [metadata, first, ...rest].map(line => JSON.stringify(line)).join('\n');
+};
+
+describe('JSON-lines episodes', () => {
+  it('describes the episode and its features in the first line', () => {
+    const [metadata, ...records] = lines(serializeEpisodeJsonl(session(), DEFAULT_SCENE_CONFIG));
+    expect(metadata).toMatchObject({ type: 'episode', version: EPISODE_FORMAT_VERSION, scene: 'three-cubes', seed: 1234, fps: 10, num_frames: 3 });
+    expect(metadata.features).toMatchObject({ 'observation.state': { dtype: 'float32', shape: [3 + 3 * 7] } });
+    records.forEach(record => expect(record['observation.state']).toHaveLength(3 + 3 * 7));
+    expect(records.map(record => record['next.done'])).toEqual([false, false, true]);
+  });
+
+  it('round-trips frames and metadata', () => {
+    const original = session();
+    const parsed = parseEpisodeJsonl(serializeEpisodeJsonl(original, DEFAULT_SCENE_CONFIG), DEFAULT_SCENE_CONFIG);
+
+    expect(parsed.episodeId).toBe('episode-1');
+    expect(parsed.seed).toBe(1234);
+    expect(parsed.taskSpec).toEqual(original.taskSpec);
+    expect(parsed.label).toEqual(original.label);
+    expect(parsed.timing).toEqual(original.timing);
+    expect(parsed.frames).toEqual(original.frames);
+  });
+
+  it('reads episodes without a seed, timing or scene id', () => {
+    const episode = edited(metadata => {
+      metadata.seed = null;
+      metadata.step_size = null;
+      delete metadata.scene;
+    });
+    const parsed = parseEpisodeJsonl(episode, DEFAULT_SCENE_CONFIG);
+    expect(parsed.seed).toBeNull();
+    expect(parsed.timing).toBeNull();
+  });
+
+  it('rejects episodes of another scene', () => {
+    const episode = serializeEpisodeJsonl(session(), DEFAULT_SCENE_CONFIG);
+    expect(() => parseEpisodeJsonl(episode, { ...DEFAULT_SCENE_CONFIG, id: 'other' })).toThrow('recorded in scene "three-cubes", not "other"');
+    expect(() => parseEpisodeJsonl(episode, { ...TWO_CUBES, id: 'three-cubes' })).toThrow('expected the objects red, green');
+  });
+
+  it('rejects malformed metadata', () => {
+    expect(() => parseEpisodeJsonl('{"type":"frame"}', DEFAULT_SCENE_CONFIG)).toThrow('missing episode metadata line');
+    expect(() => parseEpisodeJsonl(edited(metadata => { metadata.seed = 1.5; }), DEFAULT_SCENE_CONFIG)).toThrow('seed 1.5 is not');
+    expect(() => parseEpisodeJsonl(edited(metadata => { delete metadata.episode_id; }), DEFAULT_SCENE_CONFIG)).toThrow('missing episode_id');
+    expect(() => parseEpisodeJsonl(edited(metadata => { metadata.step_size = '1/60'; }), DEFAULT_SCENE_CONFIG)).toThrow('step_size and fps');
+    expect(() => parseEpisodeJsonl(edited(metadata => { metadata.capture_rate = 25; }), DEFAULT_SCENE_CONFIG)).toThrow('unknown capture_rate 25');
+  });
+
+  it('rejects malformed frames with the frame index', () => {
+    const parse = (editFrame: (record: JsonRecord) => void) => () => parseEpisodeJsonl(edited(() => undefined, editFrame), DEFAULT_SCENE_CONFIG);
+    expect(parse(record => { delete record.action; })).toThrow('frame 0 has a malformed action');
+    expect(parse(record => { record['action.delta'] = [0]; })).toThrow('frame 0 has a malformed action');
+    expect(parse(record => { (record['observation.state'] as unknown[])[4] = 'x'; })).toThrow('frame 0 has a malformed observation.state');
+    expect(parse(record => { (record['observation.pose'] as unknown[])[0] = null; })).toThrow('frame 0 has a malformed observation.pose');
+    expect(parse(record => { delete record.step; })).toThrow('frame 0 needs a numeric timestamp, step and capture_time');
+    expect(parse(record => { record['observation.joints'] = [0]; })).toThrow('expected 4 angles');
+    expect(parse(record => { record['observation.gripper_held'] = 3; })).toThrow('malformed gripper state');
+  });
+});
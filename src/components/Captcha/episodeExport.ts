@@ -0,0 +1,426 @@
+// Self-describing episode format (JSON-lines)
+// The first line holds the episode metadata and a feature schema (names, dtypes, shapes, units),
+// every following line is one frame. Feature keys follow the LeRobot convention
+// (`observation.state`, `action`, `timestamp`, `frame_index`, `next.done`) and each feature is a
+// fixed-shape array, so frames can be stacked directly into HDF5 datasets or a LeRobot dataset.
+
+import { CAPTURE_RATES, RecordingSession, RecordingFrame, RecordingTiming, legacyPoseFromFrame } from './recording';
+import { parseTaskSpec, serializeTaskSpec } from './taskSpec';
+import { ObjectShape, PhysicalMaterial, SceneConfig, ShapeType, footprintSize, objectNames, shapeHeight, tableBounds } from './sceneConfig';
+import { parseSeed } from './sceneGenerator';
+import { ARM_JOINT_NAMES, ArmModel, createArmModel } from './armKinematics';
+import { UrdfArmSummary } from './urdf';
+
+export const EPISODE_FORMAT = 'robot-captcha-episode';
+// Version 3: objects carry their shape, dimensions and material, and the metadata the table.
+// Version 4: the metadata describes the articulated arm and frames carry its joint angles.
+// Version 5: frames carry the gripper command, jaw gap and held object.
+// Version 6: the arm may be a URDF robot (`arm.urdf`), whose joints name the `observation.joints` entries.
+// Version 7: the metadata names the scene (`scene`), so episodes are only imported into the scene they were recorded in.
+export const EPISODE_FORMAT_VERSION = 7;
+
+// Real-world scale: the default 6x6 unit table is a 20x20cm table
+export const METERS_PER_UNIT = 0.2 / 6;
+
+export interface EpisodeObject {
+  name: string;
+  color: string;       // CSS hex color
+  shape: ShapeType;
+  size: number;        // Planar extent (box edge or diameter) in Three.js units
+  height: number;
+  geometry: ObjectShape; // Dimensions as given in the scene config
+  material: PhysicalMaterial;
+}
+
+export interface EpisodeFeature {
+  dtype: 'float32' | 'int64' | 'bool' | 'image';
+  shape: number[];
+  names?: string[];
+  unit?: string;
+  description: string;
+}
+
+const COORDINATE_FRAME = {
+  name: 'table',
+  unit: 'm',
+  x: 'Back to front of the table, 0.3 at its center (0.2 to 0.4 on the default table)',
+  y: 'Left to right of the table, 0 at its center (-0.1 to 0.1 on the default table)',
+  z: 'Height, fixed at 0.76 (table plane) for 2D analysis',
+  rotation: 'Quaternion (x, y, z, w) of the object with the Three.js y and z components swapped',
+  pose: {
+    unit: 'Three.js world units (1 unit = 1/30 m)',
+    x: 'Left to right, 0 at the table center (-3 to 3 on the default table, see `table`)',
+    y: 'Up, 0 at the table surface',
+    z: 'Back to front, 0 at the table center (-3 to 3 on the default table, see `table`)',
+    rotation: 'Quaternion (x, y, z, w) of the body in world space'
+  }
+};
+
+export const describeEpisodeObjects = (config: SceneConfig): EpisodeObject[] => {
+  return config.objects.map(obj => ({
+    name: obj.name,
+    color: obj.color,
+    shape: obj.shape.type,
+    size: footprintSize(obj.shape),
+    height: shapeHeight(obj.shape),
+    geometry: obj.shape,
+    material: obj.material
+  }));
+};
+
+const stateNames = (objects: EpisodeObject[]) => [
+  'arm_x', 'arm_y', 'arm_z',
+  ...objects.flatMap(obj => ['x', 'y', 'z', 'qx', 'qy', 'qz', 'qw'].map(axis => `${obj.name}_${axis}`))
+];
+
+const rawStateNames = (objects: EpisodeObject[]) => [
+  'pointer_x', 'pointer_y', 'pointer_z',
+  ...objects.flatMap(obj => ['vx', 'vy', 'vz', 'wx', 'wy', 'wz'].map(axis => `${obj.name}_${axis}`))
+];
+
+// `jointNames` is null when the frames have no joint angles
+const buildFeatures = (objects: EpisodeObject[], hasRaw: boolean, jointNames: string[] | null, hasGripper: boolean, hasImages: boolean) => {
+  const state = stateNames(objects);
+  const features: Record<string, EpisodeFeature> = {
+    'frame_index': { dtype: 'int64', shape: [1], description: 'Index of the frame within the episode' },
+    'timestamp': { dtype: 'float32', shape: [1], unit: 's', description: 'Simulation time since the episode start' },
+    'step': { dtype: 'int64', shape: [1], description: 'Physics steps since the episode start' },
+    'capture_time': { dtype: 'float32', shape: [1], unit: 's', description: 'Real time since the episode start when the frame was captured' },
+    'observation.state': { dtype: 'float32', shape: [state.length], names: state, unit: 'm', description: 'Arm position and object poses in the table frame' },
+    'observation.pose': { dtype: 'float32', shape: [state.length], names: state, unit: 'Three.js units', description: 'Unclamped world-space arm position and full 3D object poses' },
+    'action': { dtype: 'float32', shape: [2], names: ['target_x', 'target_y'], unit: 'm', description: 'Commanded arm target in the table frame' },
+    'action.delta': { dtype: 'float32', shape: [2], names: ['delta_x', 'delta_y'], unit: 'm', description: 'Change of the commanded target since the previous frame' },
+    'action.pointer_down': { dtype: 'bool', shape: [1], description: 'Operator is pressing/dragging' },
+    'next.done': { dtype: 'bool', shape: [1], description: 'Last frame of the episode' }
+  };
+
+  if (jointNames) {
+    features['observation.joints'] = {
+      dtype: 'float32',
+      shape: [jointNames.length],
+      names: jointNames,
+      unit: 'rad',
+      description: 'Arm joint angles from the IK solver, in meters for prismatic joints (see `arm`)'
+    };
+  }
+
+  if (hasGripper) {
+    features['action.gripper'] = { dtype: 'bool', shape: [1], description: 'Gripper close command' };
+    features['observation.gripper_width'] = { dtype: 'float32', shape: [1], unit: 'Three.js units', description: 'Gap between the gripper jaws' };
+    features['observation.gripper_held'] = { dtype: 'int64', shape: [1], description: 'Index of the held object in `objects`, -1 when nothing is held' };
+  }
+
+  if (hasRaw) {
+    const raw = rawStateNames(objects);
+    features['observation.raw_state'] = {
+      dtype: 'float32',
+      shape: [raw.length],
+      names: raw,
+      unit: 'Three.js units, units/s, rad/s',
+      description: 'World-space pointer target (null before any input) and object velocities'
+    };
+  }
+
+  if (hasImages) {
+    features['observation.image'] = { dtype: 'image', shape: [400, 400, 3], description: 'Rendered camera view as a JPEG data URL' };
+  }
+
+  return features;
+};
+
+const frameState = (frame: RecordingFrame): number[] => [
+  frame.robotArm.x, frame.robotArm.y, frame.robotArm.z,
+  ...frame.objects.flatMap(obj => [
+    obj.position.x, obj.position.y, obj.position.z,
+    obj.rotation.x, obj.rotation.y, obj.rotation.z, obj.rotation.w
+  ])
+];
+
+const framePose = (frame: RecordingFrame): number[] => [
+  frame.pose.robotArm.x, frame.pose.robotArm.y, frame.pose.robotArm.z,
+  ...frame.pose.objects.flatMap(obj => [
+    obj.position.x, obj.position.y, obj.position.z,
+    obj.rotation.x, obj.rotation.y, obj.rotation.z, obj.rotation.w
+  ])
+];
+
+const frameRawState = (frame: RecordingFrame): Array<number | null> => {
+  if (!frame.raw) return [];
+  const { pointerTarget, objects } = frame.raw;
+
+  return [
+    pointerTarget?.x ?? null, pointerTarget?.y ?? null, pointerTarget?.z ?? null,
+    ...objects.flatMap(obj => [
+      obj.linearVelocity.x, obj.linearVelocity.y, obj.linearVelocity.z,
+      obj.angularVelocity.x, obj.angularVelocity.y, obj.angularVelocity.z
+    ])
+  ];
+};
+
+export const buildEpisodeMetadata = (session: RecordingSession, config: SceneConfig, arm: ArmModel | UrdfArmSummary) => {
+  const { frames, timing, label, taskSpec } = session;
+  const objects = describeEpisodeObjects(config);
+  const hasRaw = frames.length > 0 && frames[0].raw !== undefined;
+  const hasJoints = frames.length > 0 && frames[0].joints !== undefined;
+  const hasGripper = frames.length > 0 && frames[0].gripper !== undefined;
+  const hasImages = frames.some(frame => frame.image !== undefined);
+
+  return {
+    type: 'episode',
+    format: EPISODE_FORMAT,
+    version: EPISODE_FORMAT_VERSION,
+    episode_id: session.episodeId,
+    scene: config.id,
+    created_at: new Date().toISOString(),
+    seed: session.seed,
+    task: session.task,
+    task_spec: taskSpec ? JSON.parse(serializeTaskSpec(taskSpec)) : null,
+    success: label ? label.passed : null,
+    subgoals: label ? label.subgoals : null,
+    verification: session.verification,
+    analysis: session.analysis,
+    num_frames: frames.length,
+    fps: timing ? 1000 / timing.frameInterval : null,
+    capture_rate: timing?.captureRate ?? null,
+    step_size: timing?.stepSize ?? null,
+    dropped_frames: timing?.droppedFrames ?? null,
+    dropped_time_ms: timing?.droppedTime ?? null,
+    coordinate_frame: COORDINATE_FRAME,
+    meters_per_unit: METERS_PER_UNIT,
+    table: config.table,
+    arm,
+    objects,
+    features: buildFeatures(objects, hasRaw, hasJoints ? session.jointNames ?? ARM_JOINT_NAMES : null, hasGripper, hasImages)
+  };
+};
+
+// One JSON-lines record per frame (keys match the feature schema)
+export const buildEpisodeFrames = (session: RecordingSession) => {
+  return session.frames.map((frame, index) => {
+    const record: Record<string, unknown> = {
+      type: 'frame',
+      frame_index: index,
+      timestamp: frame.timestamp / 1000,
+      step: frame.step,
+      capture_time: frame.captureTime / 1000,
+      'observation.state': frameState(frame),
+      'observation.pose': framePose(frame),
+      'action': [frame.action.target.x, frame.action.target.y],
+      'action.delta': [frame.action.delta.x, frame.action.delta.y],
+      'action.pointer_down': frame.action.pointerDown,
+      'next.done': index === session.frames.length - 1
+    };
+
+    if (frame.joints) {
+      record['observation.joints'] = frame.joints;
+    }
+    if (frame.gripper) {
+      record['action.gripper'] = frame.gripper.closed;
+      record['observation.gripper_width'] = frame.gripper.width;
+      record['observation.gripper_held'] = frame.gripper.held ?? -1;
+    }
+    if (frame.raw) {
+      record['observation.raw_state'] = frameRawState(frame);
+    }
+    if (frame.image) {
+      record['observation.image'] = frame.image;
+    }
+
+    return record;
+  });
+};
+
+// `arm` describes the arm that made the recording (default: the built-in arm for the config's table)
+export const serializeEpisodeJsonl = (
+  session: RecordingSession,
+  config: SceneConfig,
+  arm: ArmModel | UrdfArmSummary = createArmModel(tableBounds(config.table))
+): string => {
+  const lines = [buildEpisodeMetadata(session, config, arm), ...buildEpisodeFrames(session)];
+  return lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isNumberArray = (value: unknown, length: number): value is number[] => {
+  return Array.isArray(value) && value.length === length && value.every(isNumber);
+};
+
+// Timing of an episode with a step size (older episodes without one have none)
+const parseEpisodeTiming = (metadata: Record<string, unknown>): RecordingTiming | null => {
+  if (metadata.step_size === null || metadata.step_size === undefined) return null;
+
+  const { step_size: stepSize, fps, capture_rate: captureRate } = metadata;
+  const droppedFrames = metadata.dropped_frames ?? 0;
+  const droppedTime = metadata.dropped_time_ms ?? 0;
+  if (!isNumber(stepSize) || stepSize <= 0 || !isNumber(fps) || fps <= 0) {
+    throw new Error('Invalid episode: step_size and fps must be positive numbers');
+  }
+  if (!CAPTURE_RATES.some(rate => rate === captureRate)) {
+    throw new Error(`Invalid episode: unknown capture_rate ${JSON.stringify(captureRate)}`);
+  }
+  if (!isNumber(droppedFrames) || droppedFrames < 0 || !isNumber(droppedTime) || droppedTime < 0) {
+    throw new Error('Invalid episode: dropped_frames and dropped_time_ms must be non-negative numbers');
+  }
+  return {
+    captureRate: captureRate as RecordingTiming['captureRate'],
+    stepSize,
+    frameInterval: 1000 / fps,
+    droppedFrames,
+    droppedTime
+  };
+};
+
+// Parse a JSON-lines episode produced by `serializeEpisodeJsonl` for this scene (older episodes without a
+// scene id are accepted when their objects match)
+export const parseEpisodeJsonl = (text: string, config: SceneConfig): RecordingSession => {
+  const records = text.split(/\r?\n/).filter(line => line.trim() !== '').map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid episode: line ${index + 1} is not valid JSON`);
+    }
+  });
+
+  const [metadata, ...frameRecords] = records;
+  if (!metadata || metadata.type !== 'episode' || metadata.format !== EPISODE_FORMAT) {
+    throw new Error('Invalid episode: missing episode metadata line');
+  }
+  if (metadata.version > EPISODE_FORMAT_VERSION) {
+    throw new Error(`Invalid episode: unsupported format version ${metadata.version}`);
+  }
+  if (metadata.scene !== undefined && metadata.scene !== config.id) {
+    throw new Error(`Invalid episode: recorded in scene ${JSON.stringify(metadata.scene)}, not "${config.id}"`);
+  }
+  if (typeof metadata.episode_id !== 'string' || metadata.episode_id === '') {
+    throw new Error('Invalid episode: missing episode_id');
+  }
+  const seed = parseSeed(isNumber(metadata.seed) ? metadata.seed : null);
+  if (metadata.seed !== null && metadata.seed !== undefined && seed === null) {
+    throw new Error(`Invalid episode: seed ${JSON.stringify(metadata.seed)} is not an unsigned 32-bit integer`);
+  }
+
+  const names = objectNames(config);
+  const episodeNames: unknown[] = Array.isArray(metadata.objects) ? metadata.objects.map((obj: { name?: unknown }) => obj?.name) : [];
+  if (episodeNames.length !== names.length || episodeNames.some((name, i) => name !== names[i])) {
+    throw new Error(`Invalid episode: expected the objects ${names.join(', ')}, found ${episodeNames.join(', ') || 'none'}`);
+  }
+  const objectCount = names.length;
+  if (frameRecords.length === 0) {
+    throw new Error('Invalid episode: no frames');
+  }
+
+  const stateLength = 3 + objectCount * 7;
+  const rawLength = 3 + objectCount * 6;
+  const jointNames: string[] = metadata.features?.['observation.joints']?.names ?? ARM_JOINT_NAMES;
+
+  const readPose = (values: number[]) => ({
+    robotArm: { x: values[0], y: values[1], z: values[2] },
+    objects: Array.from({ length: objectCount }, (_, i) => {
+      const o = 3 + i * 7;
+      return {
+        position: { x: values[o], y: values[o + 1], z: values[o + 2] },
+        rotation: { x: values[o + 3], y: values[o + 4], z: values[o + 5], w: values[o + 6] }
+      };
+    })
+  });
+
+  const frames: RecordingFrame[] = frameRecords.map((record, index) => {
+    const state: unknown = record['observation.state'];
+    if (!isNumberArray(state, stateLength)) {
+      throw new Error(`Invalid episode: frame ${index} has a malformed observation.state`);
+    }
+    if (!isNumber(record.timestamp) || !isNumber(record.step) || !isNumber(record.capture_time)) {
+      throw new Error(`Invalid episode: frame ${index} needs a numeric timestamp, step and capture_time`);
+    }
+    if (!isNumberArray(record.action, 2) || !isNumberArray(record['action.delta'], 2)) {
+      throw new Error(`Invalid episode: frame ${index} has a malformed action or action.delta`);
+    }
+
+    // Version 1 episodes have no observation.pose: reconstruct it from the table-frame state
+    const { robotArm, objects } = readPose(state);
+    const pose: unknown = record['observation.pose'];
+    if (pose !== undefined && !isNumberArray(pose, stateLength)) {
+      throw new Error(`Invalid episode: frame ${index} has a malformed observation.pose`);
+    }
+
+    const frame: RecordingFrame = {
+      timestamp: record.timestamp * 1000,
+      step: record.step,
+      captureTime: record.capture_time * 1000,
+      robotArm,
+      objects,
+      pose: pose ? readPose(pose) : legacyPoseFromFrame({ robotArm, objects }),
+      action: {
+        target: { x: record.action[0], y: record.action[1] },
+        delta: { x: record['action.delta'][0], y: record['action.delta'][1] },
+        pointerDown: Boolean(record['action.pointer_down'])
+      }
+    };
+
+    const joints: unknown = record['observation.joints'];
+    if (joints !== undefined) {
+      if (!isNumberArray(joints, jointNames.length)) {
+        throw new Error(`Invalid episode: frame ${index} has a malformed observation.joints (expected ${jointNames.length} angles)`);
+      }
+      frame.joints = joints;
+    }
+    if (record['action.gripper'] !== undefined) {
+      const held = record['observation.gripper_held'];
+      if (typeof record['action.gripper'] !== 'boolean' || !isNumber(record['observation.gripper_width'])
+        || !Number.isInteger(held) || held < -1 || held >= objectCount) {
+        throw new Error(`Invalid episode: frame ${index} has a malformed gripper state`);
+      }
+      frame.gripper = {
+        closed: record['action.gripper'],
+        width: record['observation.gripper_width'],
+        held: held >= 0 ? held : null
+      };
+    }
+    const raw: unknown = record['observation.raw_state'];
+    if (raw !== undefined) {
+      // The pointer target is null while the pointer is off the table
+      const pointerTarget: unknown[] = Array.isArray(raw) ? raw.slice(0, 3) : [];
+      if (!Array.isArray(raw) || raw.length !== rawLength || !raw.slice(3).every(isNumber)
+        || !(pointerTarget.every(isNumber) || pointerTarget.every(value => value === null))) {
+        throw new Error(`Invalid episode: frame ${index} has a malformed observation.raw_state`);
+      }
+      const v = (o: number) => ({ x: raw[o] as number, y: raw[o + 1] as number, z: raw[o + 2] as number });
+      frame.raw = {
+        pointerTarget: raw[0] === null ? null : v(0),
+        objects: Array.from({ length: objectCount }, (_, i) => {
+          const o = 3 + i * 6;
+          return {
+            linearVelocity: v(o),
+            angularVelocity: v(o + 3)
+          };
+        })
+      };
+    }
+    if (typeof record['observation.image'] === 'string') {
+      frame.image = record['observation.image'];
+    }
+
+    return frame;
+  });
+
+  const taskSpec = metadata.task_spec ? parseTaskSpec(metadata.task_spec) : null;
+
+  return {
+    episodeId: metadata.episode_id,
+    seed,
+    task: metadata.task ?? '',
+    taskSpec,
+    label: typeof metadata.success === 'boolean' ? {
+      taskId: taskSpec?.id ?? '',
+      task: metadata.task ?? '',
+      passed: metadata.success,
+      subgoals: metadata.subgoals ?? []
+    } : null,
+    verification: metadata.verification ?? null,
+    analysis: metadata.analysis ?? null,
+    timing: parseEpisodeTiming(metadata),
+    jointNames: frames.some(frame => frame.joints) ? jointNames : undefined,
+    frames
+  };
+};
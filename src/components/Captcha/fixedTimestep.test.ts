@@ -0,0 +1,66 @@
+import { FixedTimestepLoop } from './fixedTimestep';
+
+// 1/64 s steps (15.625 ms) keep the accumulated times exact
+const STEP = 1 / 64;
+const STEP_MS = STEP * 1000;
+
+const advance = (loop: FixedTimestepLoop, now: number) => {
+  const steps: number[] = [];
+  const alpha = loop.advance(now, index => steps.push(index));
+  return { steps, alpha };
+};
+
+describe('FixedTimestepLoop', () => {
+  it('only sets the time base on the first call', () => {
+    const loop = new FixedTimestepLoop({ stepSize: STEP });
+    expect(advance(loop, 1000)).toEqual({ steps: [], alpha: 0 });
+    expect(loop.stepCount).toBe(0);
+  });
+
+  it('takes one step per step size of real time and returns the leftover fraction', () => {
+    const loop = new FixedTimestepLoop({ stepSize: STEP });
+    advance(loop, 0);
+    expect(advance(loop, STEP_MS * 2.5)).toEqual({ steps: [0, 1], alpha: 0.5 });
+    expect(advance(loop, STEP_MS * 3)).toEqual({ steps: [2], alpha: 0 });
+    expect(loop.simulationTime).toBe(3 * STEP);
+  });
+
+  it('advances at the same rate whatever the frame rate', () => {
+    const fast = new FixedTimestepLoop({ stepSize: STEP });
+    const slow = new FixedTimestepLoop({ stepSize: STEP });
+    for (let frame = 0; frame <= 64; frame++) advance(fast, frame * STEP_MS / 2);
+    for (let frame = 0; frame <= 16; frame++) advance(slow, frame * STEP_MS * 2);
+    expect(fast.stepCount).toBe(32);
+    expect(slow.stepCount).toBe(32);
+  });
+
+  it('drops the backlog beyond the maximum sub-steps', () => {
+    const loop = new FixedTimestepLoop({ stepSize: STEP, maxSubSteps: 5 });
+    advance(loop, 0);
+    const { steps, alpha } = advance(loop, STEP_MS * 20.25);
+    expect(steps).toEqual([0, 1, 2, 3, 4]);
+    expect(alpha).toBe(0.25);
+    expect(loop.droppedTime).toBe(15 * STEP);
+  });
+
+  it('ignores time going backwards', () => {
+    const loop = new FixedTimestepLoop({ stepSize: STEP });
+    advance(loop, 1000);
+    expect(advance(loop, 900).steps).toEqual([]);
+    expect(advance(loop, 900 + STEP_MS).steps).toEqual([0]);
+  });
+
+  it('forgets the paused time but keeps counting steps until reset', () => {
+    const loop = new FixedTimestepLoop({ stepSize: STEP });
+    advance(loop, 0);
+    advance(loop, STEP_MS * 3.5);
+    loop.pause();
+    expect(advance(loop, 10000).steps).toEqual([]);
+    expect(advance(loop, 10000 + STEP_MS).steps).toEqual([3]);
+
+    loop.reset();
+    expect(loop.stepCount).toBe(0);
+    expect(loop.droppedTime).toBe(0);
+    expect(advance(loop, 20000)).toEqual({ steps: [], alpha: 0 });
+  });
+});
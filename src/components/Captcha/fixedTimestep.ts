@@ -0,0 +1,73 @@
+// Fixed-timestep simulation loop
+// Real elapsed time is accumulated and consumed in constant-size physics steps, so the
+// simulation advances at the same rate regardless of the monitor refresh rate.
+// The leftover fraction of a step is returned as an interpolation factor for rendering.
+
+export interface FixedTimestepOptions {
+  stepSize: number;    // Seconds of simulated time per physics step
+  maxSubSteps: number; // Upper bound on steps per frame (prevents the spiral of death after a stall)
+}
+
+export const DEFAULT_STEP_SIZE = 1 / 60;
+export const DEFAULT_MAX_SUB_STEPS = 5;
+
+export class FixedTimestepLoop {
+  stepSize: number;
+  maxSubSteps: number;
+  accumulator = 0;
+  stepCount = 0;            // Total physics steps taken since the last reset
+  droppedTime = 0;          // Real time (seconds) discarded because a frame needed more than maxSubSteps
+  private lastTime: number | null = null;
+
+  constructor(options: Partial<FixedTimestepOptions> = {}) {
+    this.stepSize = options.stepSize ?? DEFAULT_STEP_SIZE;
+    this.maxSubSteps = options.maxSubSteps ?? DEFAULT_MAX_SUB_STEPS;
+  }
+
+  // Simulated time since the last reset, in seconds
+  get simulationTime(): number {
+    return this.stepCount * this.stepSize;
+  }
+
+  // Advance by the real time elapsed since the previous call (`now` in ms, e.g. from performance.now()).
+  // Calls `step` once per fixed step and returns the interpolation factor (0..1) for rendering.
+  advance(now: number, step: (stepIndex: number) => void): number {
+    if (this.lastTime === null) {
+      this.lastTime = now;
+      return 0;
+    }
+
+    const elapsed = Math.max(0, (now - this.lastTime) / 1000);
+    this.lastTime = now;
+    this.accumulator += elapsed;
+
+    let subSteps = 0;
+    while (this.accumulator >= this.stepSize && subSteps < this.maxSubSteps) {
+      step(this.stepCount);
+      this.stepCount++;
+      this.accumulator -= this.stepSize;
+      subSteps++;
+    }
+
+    // Too far behind: discard the backlog instead of trying to catch up
+    if (this.accumulator >= this.stepSize) {
+      const remainder = this.accumulator % this.stepSize;
+      this.droppedTime += this.accumulator - remainder;
+      this.accumulator = remainder;
+    }
+
+    return this.accumulator / this.stepSize;
+  }
+
+  // Forget the time base (e.g. after the simulation was paused) without resetting the step counter
+  pause() {
+    this.lastTime = null;
+    this.accumulator = 0;
+  }
+
+  reset() {
+    this.pause();
+    this.stepCount = 0;
+    this.droppedTime = 0;
+  }
+}
@@ -0,0 +1,94 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+import { GRIPPER_CLOSED_WIDTH, GRIPPER_OPEN_WIDTH } from './gripper';
+import { PhysicsScene, ROBOT_ARM_RADIUS, createPhysicsScene } from './physicsScene';
+
+const STEP = 1 / 60;
+
+// Tip resting on top of an object
+const above = (scene: PhysicsScene, index: number) => {
+  const position = scene.objectBodies[index].translation();
+  return { x: position.x, y: position.y + 0.375 + ROBOT_ARM_RADIUS + 0.05, z: position.z };
+};
+
+// Move the arm tip in a straight line over `steps` physics steps
+const moveArm = (scene: PhysicsScene, target: { x: number, y: number, z: number }, steps = 30) => {
+  const start = scene.armBody.translation();
+  for (let step = 1; step <= steps; step++) {
+    const t = step / steps;
+    scene.armBody.setNextKinematicTranslation({
+      x: start.x + (target.x - start.x) * t,
+      y: start.y + (target.y - start.y) * t,
+      z: start.z + (target.z - start.z) * t
+    });
+    scene.world.step();
+  }
+};
+
+// Move the arm tip over the objects (without pushing them) and down onto one
+const lowerOnto = (scene: PhysicsScene, index: number) => {
+  const target = above(scene, index);
+  moveArm(scene, { ...scene.armBody.translation(), y: 2 });
+  moveArm(scene, { ...target, y: 2 });
+  moveArm(scene, target);
+  return target;
+};
+
+describe('Gripper', () => {
+  let scene: PhysicsScene;
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    scene = createPhysicsScene(RAPIER, 1, STEP);
+    // Let the objects drop from their spawn height and settle on the table
+    for (let step = 0; step < 120; step++) scene.world.step();
+  });
+
+  afterEach(() => {
+    scene.world.free();
+  });
+
+  it('closes on nothing when no object is in reach', () => {
+    scene.gripper.update(true);
+    expect(scene.gripper.state).toEqual({ closed: true, width: GRIPPER_CLOSED_WIDTH, held: null });
+    scene.gripper.update(false);
+    expect(scene.gripper.width).toBe(GRIPPER_OPEN_WIDTH);
+  });
+
+  it('grasps the object under the tip and lifts it with the arm', () => {
+    const target = lowerOnto(scene, 0);
+    scene.gripper.update(true);
+    expect(scene.gripper.state).toEqual({ closed: true, width: 0.75, held: 0 });
+
+    const restingY = scene.objectBodies[0].translation().y;
+    moveArm(scene, { ...target, y: target.y + 1 });
+    expect(scene.objectBodies[0].translation().y).toBeCloseTo(restingY + 1, 1);
+  });
+
+  it('only grasps as the jaws close', () => {
+    scene.gripper.update(true);
+    lowerOnto(scene, 0);
+    scene.gripper.update(true);
+    expect(scene.gripper.held).toBeNull();
+  });
+
+  it('drops the object when the jaws open or the scene is reset', () => {
+    const target = lowerOnto(scene, 0);
+    scene.gripper.update(true);
+    moveArm(scene, { ...target, y: target.y + 1 });
+
+    scene.gripper.update(false);
+    expect(scene.gripper.held).toBeNull();
+    const liftedY = scene.objectBodies[0].translation().y;
+    for (let step = 0; step < 60; step++) scene.world.step();
+    expect(scene.objectBodies[0].translation().y).toBeLessThan(liftedY - 0.5);
+
+    lowerOnto(scene, 0);
+    scene.gripper.update(true);
+    expect(scene.gripper.held).toBe(0);
+    scene.gripper.reset();
+    expect(scene.gripper.state).toEqual({ closed: false, width: GRIPPER_OPEN_WIDTH, held: null });
+  });
+});
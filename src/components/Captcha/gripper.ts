@@ -0,0 +1,117 @@
+// Parallel-jaw gripper at the arm tip
+// Closing the jaws grasps the object nearest to the tip, if it is within reach, by attaching it to the
+// arm with a fixed joint at its current offset (contacts between the arm and the held object are turned
+// off). Opening them releases it. The close command is the only input: the page and the server's
+// re-simulation apply it with the same rules before every physics step, so grasps replay alike.
+
+import type RAPIER from '@dimforge/rapier3d-compat';
+import type { RapierModule } from './physicsScene';
+import { SceneObjectConfig, footprintSize, shapeHeight } from './sceneConfig';
+
+// Jaw gap (Three.js units): open wide enough to pass around the tip, closed with nothing in between
+export const GRIPPER_OPEN_WIDTH = 1.2;
+export const GRIPPER_CLOSED_WIDTH = 0.1;
+// Gap between the tip collider and an object's surface within which closing the jaws grasps it
+const GRASP_MARGIN = 0.25;
+
+export interface GripperState {
+  closed: boolean;     // Close command in effect
+  width: number;       // Jaw gap
+  held: number | null; // Index of the held object in the scene config
+}
+
+export class Gripper {
+  closed = false;
+  held: number | null = null;
+  private rapier: RapierModule;
+  private world: RAPIER.World;
+  private armBody: RAPIER.RigidBody;
+  private objectBodies: RAPIER.RigidBody[];
+  private objects: SceneObjectConfig[];
+  private armRadius: number;
+  private joint: RAPIER.ImpulseJoint | null = null;
+
+  // `objectBodies` are in the order of the scene config's `objects`
+  constructor(
+    rapier: RapierModule,
+    world: RAPIER.World,
+    armBody: RAPIER.RigidBody,
+    objectBodies: RAPIER.RigidBody[],
+    objects: SceneObjectConfig[],
+    armRadius: number
+  ) {
+    this.rapier = rapier;
+    this.world = world;
+    this.armBody = armBody;
+    this.objectBodies = objectBodies;
+    this.objects = objects;
+    this.armRadius = armRadius;
+  }
+
+  get width(): number {
+    if (!this.closed) return GRIPPER_OPEN_WIDTH;
+    return this.held !== null ? footprintSize(this.objects[this.held].shape) : GRIPPER_CLOSED_WIDTH;
+  }
+
+  get state(): GripperState {
+    return { closed: this.closed, width: this.width, held: this.held };
+  }
+
+  // Apply the close command for the next physics step (grasping only happens as the jaws close)
+  update(closed: boolean) {
+    if (closed && !this.closed) {
+      this.grasp();
+    } else if (!closed && this.closed) {
+      this.release();
+    }
+    this.closed = closed;
+  }
+
+  // Open the jaws and drop whatever is held (e.g. before the scene is reset)
+  reset() {
+    this.release();
+    this.closed = false;
+  }
+
+  private grasp() {
+    const tip = this.armBody.translation();
+    let nearest: number | null = null;
+    let nearestDistance = Infinity;
+
+    this.objectBodies.forEach((body, i) => {
+      const { shape } = this.objects[i];
+      const position = body.translation();
+      const planar = Math.sqrt(Math.pow(position.x - tip.x, 2) + Math.pow(position.z - tip.z, 2));
+      const vertical = Math.abs(position.y - tip.y);
+      const inReach = planar <= this.armRadius + footprintSize(shape) / 2 + GRASP_MARGIN
+        && vertical <= this.armRadius + shapeHeight(shape) / 2 + GRASP_MARGIN;
+      const distance = Math.sqrt(planar * planar + vertical * vertical);
+      if (inReach && distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    if (nearest === null) return;
+
+    // Hold the object where it is relative to the tip (the arm body never rotates)
+    const body = this.objectBodies[nearest];
+    const position = body.translation();
+    const params = this.rapier.JointData.fixed(
+      { x: position.x - tip.x, y: position.y - tip.y, z: position.z - tip.z },
+      body.rotation(),
+      { x: 0, y: 0, z: 0 },
+      { x: 0, y: 0, z: 0, w: 1 }
+    );
+    this.joint = this.world.createImpulseJoint(params, this.armBody, body, true);
+    this.joint.setContactsEnabled(false);
+    this.held = nearest;
+  }
+
+  private release() {
+    if (this.joint) {
+      this.world.removeImpulseJoint(this.joint, true);
+      this.joint = null;
+    }
+    this.held = null;
+  }
+}
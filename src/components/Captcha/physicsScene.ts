@@ -0,0 +1,162 @@
+// Physics scene shared by the page and the verification server
+// The server rebuilds the scene from a challenge seed and re-simulates the submitted arm trajectory,
+// so both sides must create the same bodies, in the same order, with the same settings.
+// The Rapier module is passed in: the page imports the package, the server loads its ES build.
+
+import type RAPIER from '@dimforge/rapier3d-compat';
+import { SceneLayoutOptions, generateSceneLayout } from './sceneGenerator';
+import { ObjectState, TableBounds } from './taskVerifier';
+import {
+  DEFAULT_SCENE_CONFIG, SceneConfig, SceneObjectConfig, TableConfig, colliderShape, objectState, spawnArea, tableBounds
+} from './sceneConfig';
+import { Vector3State } from './recording';
+import { TrajectorySample, armPositionAt, gripperClosedAt } from './resimulation';
+import { Gripper } from './gripper';
+
+export type RapierModule = typeof RAPIER;
+
+export const GRAVITY = { x: 0.0, y: -9.82, z: 0.0 };
+
+export const ROBOT_ARM_RADIUS = 0.45; // 3cm diameter = 1.5cm radius = 0.45 units
+
+// Where the arm tip waits before the first input: beside the right edge of the table, within reach of
+// the arm mounted behind it, so no object is dropped onto it (every spawn area lies on the table)
+export const armStart = (table: TableBounds): Vector3State => ({ x: table.halfWidth + ROBOT_ARM_RADIUS * 2, y: 0.4, z: 0 });
+
+export const sceneLayoutOptions = (config: SceneConfig): SceneLayoutOptions => {
+  const start = armStart(tableBounds(config.table));
+  return {
+    objects: config.objects.map(obj => ({
+      radius: obj.placement.clearance,
+      spawnHeight: obj.placement.spawnHeight,
+      area: spawnArea(config.table, obj.placement.region)
+    })),
+    robotArm: { x: start.x, z: start.z, radius: ROBOT_ARM_RADIUS }
+  };
+};
+
+// Table top (the visual plane sits at y = 0)
+export const createGroundBody = (rapier: RapierModule, world: RAPIER.World, table: TableConfig): RAPIER.RigidBody => {
+  const groundBody = world.createRigidBody(rapier.RigidBodyDesc.fixed());
+  const groundColliderDesc = rapier.ColliderDesc.cuboid(table.width / 2, 0.1, table.depth / 2);
+  groundColliderDesc.setTranslation(0, -0.1, 0);
+  groundColliderDesc.setFriction(table.friction);
+  world.createCollider(groundColliderDesc, groundBody);
+  return groundBody;
+};
+
+// Kinematic arm tip, placed by setting its translation and moved by setting its next one
+export const createArmBody = (rapier: RapierModule, world: RAPIER.World, start: Vector3State): RAPIER.RigidBody => {
+  const body = world.createRigidBody(rapier.RigidBodyDesc.kinematicPositionBased());
+  // Sphere collider for smooth interaction
+  world.createCollider(rapier.ColliderDesc.ball(ROBOT_ARM_RADIUS), body);
+  body.setTranslation(start, true);
+  return body;
+};
+
+const createObjectCollider = (rapier: RapierModule, object: SceneObjectConfig): RAPIER.ColliderDesc => {
+  const shape = colliderShape(object.shape);
+  switch (shape.type) {
+    case 'box':
+      return rapier.ColliderDesc.cuboid(shape.width / 2, shape.height / 2, shape.depth / 2);
+    case 'cylinder':
+      return rapier.ColliderDesc.cylinder(shape.height / 2, shape.radius);
+    case 'sphere':
+      return rapier.ColliderDesc.ball(shape.radius);
+  }
+};
+
+export const createObjectBody = (
+  rapier: RapierModule,
+  world: RAPIER.World,
+  object: SceneObjectConfig,
+  position: Vector3State
+): RAPIER.RigidBody => {
+  const { material } = object;
+  const colliderDesc = createObjectCollider(rapier, object);
+
+  // Enable CCD (Continuous Collision Detection) to prevent tunneling
+  const rigidBodyDesc = rapier.RigidBodyDesc.dynamic();
+  rigidBodyDesc.setCcdEnabled(true);
+  const body = world.createRigidBody(rigidBodyDesc);
+  body.setTranslation(position, true);
+
+  colliderDesc.setMass(material.mass);
+  colliderDesc.setFriction(material.friction);
+  colliderDesc.setRestitution(material.restitution);
+  colliderDesc.setCollisionGroups(0x00010001);
+  world.createCollider(colliderDesc, body);
+
+  // Rotation stays free for natural physics
+  body.setLinearDamping(material.linearDamping);
+  body.setAngularDamping(material.angularDamping);
+
+  return body;
+};
+
+export interface PhysicsScene {
+  config: SceneConfig;
+  world: RAPIER.World;
+  armBody: RAPIER.RigidBody;
+  objectBodies: RAPIER.RigidBody[];
+  gripper: Gripper;
+}
+
+// Headless scene at the seeded initial layout (rapier.init() must have completed)
+export const createPhysicsScene = (
+  rapier: RapierModule,
+  seed: number,
+  stepSize: number,
+  config: SceneConfig = DEFAULT_SCENE_CONFIG
+): PhysicsScene => {
+  const world = new rapier.World(GRAVITY);
+  world.timestep = stepSize;
+
+  createGroundBody(rapier, world, config.table);
+  const armBody = createArmBody(rapier, world, armStart(tableBounds(config.table)));
+  const layout = generateSceneLayout(seed, sceneLayoutOptions(config));
+  const objectBodies = layout.objects.map((position, i) => createObjectBody(rapier, world, config.objects[i], position));
+  const gripper = new Gripper(rapier, world, armBody, objectBodies, config.objects, ROBOT_ARM_RADIUS);
+
+  return { config, world, armBody, objectBodies, gripper };
+};
+
+// Object states of the seeded initial layout, before anything moves
+export const initialObjectStates = (seed: number, config: SceneConfig = DEFAULT_SCENE_CONFIG): ObjectState[] => {
+  return generateSceneLayout(seed, sceneLayoutOptions(config)).objects.map((position, i) => objectState(config.objects[i], position));
+};
+
+export interface TrajectorySimulation {
+  objects: ObjectState[]; // Final object states
+  touched: boolean;       // The arm pushed or held an object at some step
+}
+
+const inContact = (world: RAPIER.World, a: RAPIER.Collider, b: RAPIER.Collider): boolean => {
+  let contact = false;
+  world.contactPair(a, b, manifold => {
+    contact = contact || manifold.numSolverContacts() > 0;
+  });
+  return contact;
+};
+
+// Step the scene along an arm trajectory (timestamps in ms from the first sample). Only the arm and the
+// gripper follow the samples; the objects are moved by the physics.
+export const simulateTrajectory = (scene: PhysicsScene, trajectory: TrajectorySample[]): TrajectorySimulation => {
+  const { config, world, armBody, objectBodies, gripper } = scene;
+  const stepMs = world.timestep * 1000;
+  const duration = trajectory.length > 0 ? trajectory[trajectory.length - 1].timestamp : 0;
+
+  let touched = false;
+  for (let step = 1; step * stepMs <= duration + stepMs / 2; step++) {
+    // Moved over the step like on the page, so contacts see the arm's velocity
+    armBody.setNextKinematicTranslation(armPositionAt(trajectory, step * stepMs));
+    gripper.update(gripperClosedAt(trajectory, step * stepMs));
+    world.step();
+    // Contacts with a held object are off, so holding it counts as touching it
+    if (!touched) {
+      touched = gripper.held !== null || objectBodies.some(body => inContact(world, armBody.collider(0), body.collider(0)));
+    }
+  }
+
+  return { objects: objectBodies.map((body, i) => objectState(config.objects[i], body.translation())), touched };
+};
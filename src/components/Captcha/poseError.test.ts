@@ -0,0 +1,65 @@
+import { computePoseError, positionDistance, quaternionAngle, summarizePoseErrors } from './poseError';
+import { FramePose } from './recording';
+
+const IDENTITY = { x: 0, y: 0, z: 0, w: 1 };
+// Quarter turn about the y axis
+const QUARTER_TURN = { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 };
+
+const pose = (objects: FramePose['objects']): FramePose => ({ robotArm: { x: 0, y: 0.4, z: 0 }, objects });
+
+describe('positionDistance', () => {
+  it('measures the straight-line distance', () => {
+    expect(positionDistance({ x: 0, y: 0, z: 0 }, { x: 1, y: 2, z: 2 })).toBe(3);
+  });
+});
+
+describe('quaternionAngle', () => {
+  it('measures the rotation between two orientations', () => {
+    expect(quaternionAngle(IDENTITY, IDENTITY)).toBe(0);
+    expect(quaternionAngle(IDENTITY, QUARTER_TURN)).toBeCloseTo(Math.PI / 2, 9);
+  });
+
+  it('treats q and -q as the same rotation and ignores the scale', () => {
+    const negated = { x: -QUARTER_TURN.x, y: -QUARTER_TURN.y, z: -QUARTER_TURN.z, w: -QUARTER_TURN.w };
+    expect(quaternionAngle(QUARTER_TURN, negated)).toBeCloseTo(0, 6);
+    expect(quaternionAngle({ x: 0, y: 0, z: 0, w: 2 }, QUARTER_TURN)).toBeCloseTo(Math.PI / 2, 9);
+  });
+});
+
+describe('computePoseError', () => {
+  it('reports the largest error over the objects and each object', () => {
+    const expected = pose([
+      { position: { x: 0, y: 0.375, z: 0 }, rotation: IDENTITY },
+      { position: { x: 1, y: 0.375, z: 0 }, rotation: IDENTITY }
+    ]);
+    const actual = pose([
+      { position: { x: 0, y: 0.375, z: 0.5 }, rotation: IDENTITY },
+      { position: { x: 1, y: 0.375, z: 0.1 }, rotation: QUARTER_TURN }
+    ]);
+    const error = computePoseError(expected, actual);
+    expect(error.position).toBeCloseTo(0.5, 9);
+    expect(error.rotation).toBeCloseTo(Math.PI / 2, 9);
+    expect(error.objects[0].position).toBeCloseTo(0.5, 9);
+    expect(error.objects[1].position).toBeCloseTo(0.1, 9);
+    expect(error.objects[0].rotation).toBe(0);
+  });
+
+  it('is zero for a scene without objects', () => {
+    expect(computePoseError(pose([]), pose([]))).toEqual({ position: 0, rotation: 0, objects: [] });
+  });
+});
+
+describe('summarizePoseErrors', () => {
+  it('averages and maximizes over the frames', () => {
+    const summary = summarizePoseErrors([
+      { position: 0.1, rotation: 0, objects: [] },
+      { position: 0.3, rotation: 0.2, objects: [] }
+    ]);
+    expect(summary).toMatchObject({ frames: 2, maxPosition: 0.3, meanRotation: 0.1, maxRotation: 0.2 });
+    expect(summary.meanPosition).toBeCloseTo(0.2, 9);
+  });
+
+  it('is zero without frames', () => {
+    expect(summarizePoseErrors([])).toEqual({ frames: 0, meanPosition: 0, maxPosition: 0, meanRotation: 0, maxRotation: 0 });
+  });
+});
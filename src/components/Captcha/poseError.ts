@@ -0,0 +1,56 @@
+// Pose error between a recorded frame and the scene as it is replayed
+// Positions are compared in Three.js world units, rotations as the angle between quaternions.
+
+import { FramePose, QuaternionState, Vector3State } from './recording';
+
+export interface PoseError {
+  position: number; // Largest object position error (Three.js units)
+  rotation: number; // Largest object rotation error (rad)
+  objects: Array<{ position: number, rotation: number }>;
+}
+
+export interface PoseErrorSummary {
+  frames: number;
+  meanPosition: number;
+  maxPosition: number;
+  meanRotation: number;
+  maxRotation: number;
+}
+
+export const positionDistance = (a: Vector3State, b: Vector3State): number => {
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2) + Math.pow(a.z - b.z, 2));
+};
+
+// Smallest rotation angle between two quaternions (q and -q are the same rotation)
+export const quaternionAngle = (a: QuaternionState, b: QuaternionState): number => {
+  const norm = (q: QuaternionState) => Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z + q.w * q.w);
+  const dot = Math.abs(a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w) / (norm(a) * norm(b) || 1);
+  return 2 * Math.acos(Math.min(1, dot));
+};
+
+export const computePoseError = (expected: FramePose, actual: FramePose): PoseError => {
+  const objects = expected.objects.map((obj, i) => ({
+    position: positionDistance(obj.position, actual.objects[i].position),
+    rotation: quaternionAngle(obj.rotation, actual.objects[i].rotation)
+  }));
+
+  return {
+    position: Math.max(0, ...objects.map(obj => obj.position)),
+    rotation: Math.max(0, ...objects.map(obj => obj.rotation)),
+    objects
+  };
+};
+
+export const summarizePoseErrors = (errors: PoseError[]): PoseErrorSummary => {
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  const positions = errors.map(error => error.position);
+  const rotations = errors.map(error => error.rotation);
+
+  return {
+    frames: errors.length,
+    meanPosition: mean(positions),
+    maxPosition: Math.max(0, ...positions),
+    meanRotation: mean(rotations),
+    maxRotation: Math.max(0, ...rotations)
+  };
+};
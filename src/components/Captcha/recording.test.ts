@@ -0,0 +1,42 @@
+import { denormalizeCoordinates, frameIndexAt, normalizeCoordinates } from './recording';
+
+describe('normalizeCoordinates', () => {
+  it('maps the default table onto the 20 x 20 cm frame', () => {
+    expect(normalizeCoordinates(-3, 0.3, -3)).toEqual({ x: 0.2, y: -0.1 });
+    expect(normalizeCoordinates(3, 0.3, 3)).toEqual({ x: 0.4, y: 0.1 });
+    expect(normalizeCoordinates(5, 0.3, 0)).toEqual(normalizeCoordinates(3, 0.3, 0));
+  });
+
+  it('clamps to the given table instead of the default one', () => {
+    const table = { halfWidth: 4.5, halfDepth: 2 };
+    const normalized = normalizeCoordinates(4, 0.3, -2.5, table);
+    expect(denormalizeCoordinates(normalized.x, normalized.y).x).toBeCloseTo(4, 9);
+    expect(denormalizeCoordinates(normalized.x, normalized.y).z).toBeCloseTo(-2, 9);
+    expect(normalizeCoordinates(6, 0.3, 0, table).x).toBeCloseTo(0.45, 9);
+  });
+});
+
+describe('frameIndexAt', () => {
+  const frames = [0, 100, 200, 200, 350].map(timestamp => ({ timestamp }));
+
+  it('finds the last frame at or before the time', () => {
+    expect(frameIndexAt(frames, 0)).toBe(0);
+    expect(frameIndexAt(frames, 99.9)).toBe(0);
+    expect(frameIndexAt(frames, 100)).toBe(1);
+    expect(frameIndexAt(frames, 349)).toBe(3);
+  });
+
+  it('stays within the recording', () => {
+    expect(frameIndexAt(frames, -50)).toBe(0);
+    expect(frameIndexAt(frames, 10000)).toBe(4);
+    expect(frameIndexAt([{ timestamp: 0 }], 500)).toBe(0);
+  });
+
+  it('agrees with a linear scan', () => {
+    const uneven = Array.from({ length: 50 }, (_, i) => ({ timestamp: i * i * 3 }));
+    for (let time = 0; time < 7500; time += 37) {
+      const expected = uneven.filter(frame => frame.timestamp <= time).length - 1;
+      expect(frameIndexAt(uneven, time)).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,189 @@
+// Recording data model shared by the recorder, exporters and replay
+
+import { TaskSpec } from './taskSpec';
+import { DEFAULT_TABLE_BOUNDS, TableBounds, TaskVerification } from './taskVerifier';
+import { VerifierResult } from './verifier';
+import { TrajectoryAnalysis } from './trajectoryAnalysis';
+import { GripperState } from './gripper';
+
+export interface Vector3State {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface QuaternionState {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+// Full 3D pose in Three.js world space (unclamped), used to restore the scene during replay
+export interface FramePose {
+  robotArm: Vector3State;
+  objects: Array<{
+    position: Vector3State;
+    rotation: QuaternionState; // Rapier body rotation (no axis swap)
+  }>;
+}
+
+// Extra state captured in raw mode
+export interface RawFrameState {
+  pointerTarget: Vector3State | null; // Latest raycast target of the pointer (null before any input)
+  objects: Array<{
+    linearVelocity: Vector3State;    // units/s
+    angularVelocity: Vector3State;   // rad/s
+  }>;
+}
+
+// Operator command at the time of the frame, in the same normalized table coordinates as the arm
+export interface ActionState {
+  target: { x: number, y: number }; // Commanded arm target (pointer raycast, or the arm position before any input)
+  delta: { x: number, y: number };  // Change of the commanded target since the previous frame
+  pointerDown: boolean;             // True while the operator is pressing/dragging
+}
+
+export interface RecordingFrame {
+  timestamp: number;   // Simulation time since recording start (ms)
+  step: number;        // Physics steps since recording start
+  captureTime: number; // Real (wall-clock) time since recording start when the frame was captured (ms)
+  robotArm: Vector3State;
+  objects: Array<{
+    position: Vector3State;
+    rotation: QuaternionState;
+  }>;
+  pose: FramePose;
+  action: ActionState;
+  joints?: number[];   // Arm joint angles (rad), in ARM_JOINT_NAMES order (absent in older recordings)
+  gripper?: GripperState; // Jaw command, gap and held object (absent in older recordings)
+  raw?: RawFrameState; // Present only when recorded in raw mode
+  image?: string;      // Rendered view as a data URL (only when image capture is enabled)
+}
+
+// Timing statistics reported alongside every recording
+export interface RecordingTiming {
+  captureRate: CaptureRate;
+  stepSize: number;        // Physics step (s)
+  frameInterval: number;   // Simulation time between recorded frames (ms)
+  droppedFrames: number;   // Frames lost because the simulation had to discard real time
+  droppedTime: number;     // Real time discarded by the simulation during recording (ms)
+}
+
+// Coordinate normalization (Three.js world → real-world table frame in meters)
+// Positions are clamped to the scene's table, so pass its bounds for tables other than the default.
+export const normalizeCoordinates = (x: number, y: number, z: number, table: TableBounds = DEFAULT_TABLE_BOUNDS) => {
+  // Real-world scale mapping (fixed, see METERS_PER_UNIT in episodeExport.ts):
+  // Three.js: 6x6 unit table → Real world: 20x20cm table (square)
+  // Three.js: 0.75 unit cubes → Real world: 2.5x2.5cm cubes
+  
+  // Target coordinate ranges on the default table (real world units in meters):
+  // X: 0.2 to 0.4 (20cm range, back to front)
+  // Y: -0.1 to 0.1 (20cm range, left to right, was Z axis) - SQUARE EXPERIMENT
+  // Larger tables extend these ranges around the same center (0.3, 0)
+  
+  const clampedX = Math.max(-table.halfWidth, Math.min(table.halfWidth, x));
+  const clampedZ = Math.max(-table.halfDepth, Math.min(table.halfDepth, z));
+  
+  return {
+    x: 0.2 + ((clampedX + 3) / 6) * (0.4 - 0.2), // -3~3 → 0.2~0.4 (20cm)
+    y: -0.1 + ((clampedZ + 3) / 6) * (0.1 - (-0.1)) // -3~3 → -0.1~0.1 (20cm total)
+  };
+};
+
+// Reverse coordinate normalization (the scale does not depend on the table, so neither does this)
+export const denormalizeCoordinates = (normalizedX: number, normalizedY: number) => {
+  // Convert normalized coordinates back to Three.js coordinates
+  // X: 0.2~0.4 → -3~3
+  // Y: -0.1~0.1 → -3~3 (this becomes Z in Three.js)
+  
+  const threeX = ((normalizedX - 0.2) / (0.4 - 0.2)) * 6 - 3; // 0.2~0.4 → -3~3
+  const threeZ = ((normalizedY - (-0.1)) / (0.1 - (-0.1))) * 6 - 3; // -0.1~0.1 → -3~3
+  
+  return {
+    x: threeX,
+    z: threeZ
+  };
+};
+
+// Heights assumed for recordings that only carry the normalized 2D channel
+const LEGACY_ROBOT_ARM_Y = 0.3;
+const LEGACY_OBJECT_Y = 0.375; // Half of cube size (0.75), resting on table
+
+// Best-effort pose for recordings made before full 3D poses were stored
+export const legacyPoseFromFrame = (frame: Pick<RecordingFrame, 'robotArm' | 'objects'>): FramePose => {
+  const arm = denormalizeCoordinates(frame.robotArm.x, frame.robotArm.y);
+
+  return {
+    robotArm: { x: arm.x, y: LEGACY_ROBOT_ARM_Y, z: arm.z },
+    objects: frame.objects.map(obj => {
+      const position = denormalizeCoordinates(obj.position.x, obj.position.y);
+      return {
+        position: { x: position.x, y: LEGACY_OBJECT_Y, z: position.z },
+        // The normalized channel stores the quaternion with y and z swapped
+        rotation: { x: obj.rotation.x, y: obj.rotation.z, z: obj.rotation.y, w: obj.rotation.w }
+      };
+    })
+  };
+};
+
+// Recording rate in Hz of simulation time, or 'step' to capture after every physics step
+export type CaptureRate = 10 | 30 | 60 | 'step';
+
+export const CAPTURE_RATES: CaptureRate[] = [10, 30, 60, 'step'];
+
+export const DEFAULT_CAPTURE_RATE: CaptureRate = 10;
+
+export const captureRateLabel = (rate: CaptureRate): string => {
+  return rate === 'step' ? 'Every physics step' : `${rate} Hz`;
+};
+
+// Number of physics steps between two recorded frames (at least one)
+export const stepsPerFrame = (rate: CaptureRate, stepSize: number): number => {
+  if (rate === 'step') return 1;
+  return Math.max(1, Math.round(1 / rate / stepSize));
+};
+
+// Simulation time between two recorded frames (ms)
+export const frameIntervalMs = (rate: CaptureRate, stepSize: number): number => {
+  return stepsPerFrame(rate, stepSize) * stepSize * 1000;
+};
+
+// Everything known about one recorded episode
+export interface RecordingSession {
+  episodeId: string;
+  seed: number | null;              // null for legacy recordings without a seed
+  task: string;                     // Natural-language task shown to the operator
+  taskSpec: TaskSpec | null;        // Machine-readable goal (null for free-text tasks)
+  label: TaskVerification | null;   // Rule-based verdict when the recording stopped
+  verification: VerifierResult | null; // Latest verifier verdict (with rationale) for the scene
+  analysis: TrajectoryAnalysis | null; // Human-likeness features and bot risk of the arm trajectory
+  timing: RecordingTiming | null;
+  jointNames?: string[];            // Names of the frames' joint angles (default: the built-in arm's)
+  frames: RecordingFrame[];
+}
+
+// Unique ID for a new episode
+export const createEpisodeId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Index of the last frame recorded at or before `time` (ms); frames are sorted by timestamp
+export const frameIndexAt = (frames: Array<{ timestamp: number }>, time: number): number => {
+  let low = 0;
+  let high = frames.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].timestamp <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+};
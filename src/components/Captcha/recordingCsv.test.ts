@@ -0,0 +1,125 @@
+import { parseRecordingCsv, serializeRecordingCsv } from './recordingCsv';
+import { RecordingFrame, RecordingSession } from './recording';
+import { parseTaskSpec } from './taskSpec';
+import { DEFAULT_SCENE_CONFIG, SceneConfig } from './sceneConfig';
+
+const OBJECT_NAMES = ['red', 'green', 'blue'];
+const TWO_CUBES: SceneConfig = { ...DEFAULT_SCENE_CONFIG, objects: DEFAULT_SCENE_CONFIG.objects.slice(0, 2) };
+
+const frame = (index: number): RecordingFrame => {
+  const objects = OBJECT_NAMES.map((_, i) => ({
+    position: { x: 0.25 + i * 0.01, y: -0.05 + index * 0.01, z: 0.375 },
+    rotation: { x: 0, y: 0.5, z: 0, w: 0.866025 }
+  }));
+  return {
+    timestamp: index * 100,
+    step: index * 6,
+    captureTime: index * 100 + 1.5,
+    robotArm: { x: 0.3, y: 0.01 * index, z: 0.3 },
+    objects,
+    pose: {
+      robotArm: { x: index * 0.5, y: 0.3, z: -1.25 },
+      objects: OBJECT_NAMES.map((_, i) => ({
+        position: { x: i - 1, y: 0.375, z: index * 0.125 },
+        rotation: { x: 0, y: 0, z: 0.5, w: 0.866025 }
+      }))
+    },
+    action: { target: { x: 0.31, y: 0.02 }, delta: { x: index === 0 ? 0 : 0.01, y: 0 }, pointerDown: index > 0 },
+    joints: [0.1, -0.2, 0.3 * index, 0.4],
+    gripper: { closed: index > 0, width: index > 0 ? 0.1 : 1.2, held: index > 0 ? 2 : null },
+    raw: {
+      pointerTarget: index === 0 ? null : { x: 1, y: 0, z: -1 },
+      objects: OBJECT_NAMES.map(() => ({ linearVelocity: { x: 0.5, y: 0, z: 0 }, angularVelocity: { x: 0, y: 1.5, z: 0 } }))
+    }
+  };
+};
+
+const session = (): RecordingSession => ({
+  episodeId: 'episode-1',
+  seed: 1234,
+  task: 'Stack blue on red',
+  taskSpec: parseTaskSpec({ id: 'stack', goals: ['on(blue, red)'] }),
+  label: { taskId: 'stack', task: 'Stack blue on red', passed: true, subgoals: [] },
+  verification: null,
+  analysis: null,
+  timing: { captureRate: 10, stepSize: 1 / 60, frameInterval: 100, droppedFrames: 2, droppedTime: 33.5 },
+  frames: [frame(0), frame(1), frame(2)]
+});
+
+describe('recording CSV', () => {
+  it('round-trips frames and metadata', () => {
+    const original = session();
+    const parsed = parseRecordingCsv(serializeRecordingCsv(original, DEFAULT_SCENE_CONFIG), DEFAULT_SCENE_CONFIG);
+
+    expect(parsed.episodeId).toBe('episode-1');
+    expect(parsed.seed).toBe(1234);
+    expect(parsed.task).toBe(original.task);
+    expect(parsed.taskSpec).toEqual(original.taskSpec);
+    expect(parsed.label?.passed).toBe(true);
+    expect(parsed.timing).toMatchObject({ captureRate: 10, frameInterval: 100, droppedFrames: 2, droppedTime: 33.5 });
+    expect(parsed.timing?.stepSize).toBeCloseTo(1 / 60, 12);
+    expect(parsed.frames).toHaveLength(3);
+    parsed.frames.forEach((parsedFrame, i) => {
+      const expected = original.frames[i];
+      expect(parsedFrame.timestamp).toBeCloseTo(expected.timestamp, 3);
+      expect(parsedFrame.step).toBe(expected.step);
+      expect(parsedFrame.pose.robotArm).toEqual(expected.pose.robotArm);
+      expect(parsedFrame.pose.objects).toEqual(expected.pose.objects);
+      expect(parsedFrame.action).toEqual(expected.action);
+      expect(parsedFrame.joints).toEqual(expected.joints);
+      expect(parsedFrame.gripper).toEqual(expected.gripper);
+      expect(parsedFrame.raw).toEqual(expected.raw);
+    });
+  });
+
+  it('keeps custom joint names', () => {
+    const original = { ...session(), jointNames: ['shoulder_pan', 'shoulder_lift', 'elbow', 'wrist'] };
+    const csv = serializeRecordingCsv(original, DEFAULT_SCENE_CONFIG);
+    expect(csv).toContain('Joint_Shoulder_Pan');
+    expect(parseRecordingCsv(csv, DEFAULT_SCENE_CONFIG).jointNames).toEqual(original.jointNames);
+  });
+
+  it('reads files with numbered object columns and no world pose', () => {
+    const csv = [
+      'Timestamp,RobotArm_X,RobotArm_Y,RobotArm_Z,'
+        + [1, 2].map(n => ['Pos_X', 'Pos_Y', 'Pos_Z', 'Rot_X', 'Rot_Y', 'Rot_Z', 'Rot_W'].map(column => `Object${n}_${column}`).join(',')).join(','),
+      '0,0.3,0,0.3,0.2,-0.1,0.375,0,0,0,1,0.4,0.1,0.375,0,0,0,1'
+    ].join('\n');
+    const parsed = parseRecordingCsv(csv, TWO_CUBES);
+    expect(parsed.seed).toBeNull();
+    expect(parsed.frames[0].pose.objects[0].position).toEqual({ x: -3, y: 0.375, z: -3 });
+    expect(parsed.frames[0].action.pointerDown).toBe(false);
+  });
+
+  it('keeps free-text metadata on its line', () => {
+    const original = { ...session(), task: 'Push red\n# success=true\nthen "stop"' };
+    const csv = serializeRecordingCsv({ ...original, label: null }, DEFAULT_SCENE_CONFIG);
+    const parsed = parseRecordingCsv(csv, DEFAULT_SCENE_CONFIG);
+    expect(parsed.task).toBe(original.task);
+    expect(parsed.label).toBeNull();
+    expect(parsed.frames).toHaveLength(3);
+  });
+
+  it('reads verbatim metadata from older files', () => {
+    const csv = serializeRecordingCsv(session(), DEFAULT_SCENE_CONFIG)
+      .replace('# episode_id="episode-1"', '# episode_id=episode-1')
+      .replace('# task="Stack blue on red"', '# task=Stack blue on red')
+      .replace(/^# scene=.*\n/m, '');
+    const parsed = parseRecordingCsv(csv, DEFAULT_SCENE_CONFIG);
+    expect(parsed.episodeId).toBe('episode-1');
+    expect(parsed.task).toBe('Stack blue on red');
+  });
+
+  it('rejects recordings of another scene', () => {
+    const csv = serializeRecordingCsv(session(), DEFAULT_SCENE_CONFIG);
+    expect(() => parseRecordingCsv(csv, { ...DEFAULT_SCENE_CONFIG, id: 'other' })).toThrow('recorded in scene "three-cubes", not "other"');
+    expect(() => parseRecordingCsv(csv, TWO_CUBES)).toThrow('expected 2 objects');
+    expect(() => serializeRecordingCsv(session(), TWO_CUBES)).toThrow('the recording has 3 objects, the scene 2');
+  });
+
+  it('rejects seeds that are not unsigned 32-bit integers', () => {
+    const csv = serializeRecordingCsv(session(), DEFAULT_SCENE_CONFIG);
+    expect(() => parseRecordingCsv(csv.replace('# seed=1234', '# seed=-1'), DEFAULT_SCENE_CONFIG)).toThrow('seed "-1" is not an unsigned 32-bit integer');
+    expect(parseRecordingCsv(csv.replace(/^# seed=.*\n/m, ''), DEFAULT_SCENE_CONFIG).seed).toBeNull();
+  });
+});
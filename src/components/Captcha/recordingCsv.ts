@@ -0,0 +1,356 @@
+// CSV serialization of recordings
+// Metadata lines start with '#' (`# key=value`), followed by the column header and one row per frame.
+// Free-text values (episode id, scene id, task) are JSON strings, so a newline cannot end the line early;
+// older files wrote them verbatim and are still read.
+// Object columns are prefixed with the capitalized object name from the scene config (e.g. `Red_Pos_X`);
+// files written before scene configs use `Object1_Pos_X` etc. in scene order and can still be loaded.
+
+import { RecordingFrame, RecordingSession, RecordingTiming, CaptureRate, CAPTURE_RATES, createEpisodeId, legacyPoseFromFrame } from './recording';
+import { parseTaskSpec, serializeTaskSpec } from './taskSpec';
+import { ARM_JOINT_NAMES } from './armKinematics';
+import { SceneConfig, objectNames as sceneObjectNames } from './sceneConfig';
+import { parseSeed } from './sceneGenerator';
+
+const formatValues = (values: number[]) => values.map(value => value.toFixed(6)).join(',');
+
+// Column prefix of an object, e.g. `red` → `Red`
+export const objectColumnPrefix = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const legacyColumnPrefix = (index: number) => `Object${index + 1}`;
+
+const objectColumns = (prefix: string) => {
+  return [
+    `${prefix}_Pos_X`, `${prefix}_Pos_Y`, `${prefix}_Pos_Z`,
+    `${prefix}_Rot_X`, `${prefix}_Rot_Y`, `${prefix}_Rot_Z`, `${prefix}_Rot_W`
+  ];
+};
+
+const worldObjectColumns = (prefix: string) => objectColumns(`${prefix}_World`);
+
+const rawObjectColumns = (prefix: string) => {
+  return [
+    `${prefix}_LinVel_X`, `${prefix}_LinVel_Y`, `${prefix}_LinVel_Z`,
+    `${prefix}_AngVel_X`, `${prefix}_AngVel_Y`, `${prefix}_AngVel_Z`
+  ];
+};
+
+const WORLD_ARM_COLUMNS = ['RobotArm_World_X', 'RobotArm_World_Y', 'RobotArm_World_Z'];
+
+const ACTION_COLUMNS = ['Action_Target_X', 'Action_Target_Y', 'Action_Delta_X', 'Action_Delta_Y', 'Action_PointerDown'];
+
+const RAW_POINTER_COLUMNS = ['Pointer_Raw_X', 'Pointer_Raw_Y', 'Pointer_Raw_Z'];
+
+// Arm joint angles (rad or m), e.g. `Joint_Base_Yaw`; the joint names are stored in the `joints` metadata
+const jointColumns = (jointNames: string[]) => jointNames.map(name => `Joint_${name.split('_').map(objectColumnPrefix).join('_')}`);
+
+// Close command (0/1), jaw gap and the name of the held object (empty when nothing is held)
+const GRIPPER_COLUMNS = ['Gripper_Closed', 'Gripper_Width', 'Gripper_Held'];
+
+// Free-text metadata value: JSON-encoded when written, verbatim in files written before that
+const readMetadataText = (value: string): string => {
+  if (!value.startsWith('"')) return value;
+  try {
+    const text = JSON.parse(value);
+    return typeof text === 'string' ? text : value;
+  } catch {
+    return value;
+  }
+};
+
+// `config` is the scene the recording was made in (its objects are in the order of the frames' object lists)
+export const serializeRecordingCsv = (session: RecordingSession, config: SceneConfig): string => {
+  const { frames, taskSpec, label, timing } = session;
+  const objectNames = sceneObjectNames(config);
+
+  const objectCount = frames[0]?.objects.length ?? 0;
+  if (objectCount !== objectNames.length) {
+    throw new Error(`Cannot export CSV: the recording has ${objectCount} objects, the scene ${objectNames.length}`);
+  }
+  const prefixes = objectNames.map(objectColumnPrefix);
+  const hasRaw = frames[0]?.raw !== undefined;
+  const hasJoints = frames[0]?.joints !== undefined;
+  const hasGripper = frames[0]?.gripper !== undefined;
+  const jointNames = session.jointNames ?? ARM_JOINT_NAMES;
+
+  // Create CSV header
+  const columns = ['Timestamp', 'Step', 'CaptureTime', 'RobotArm_X', 'RobotArm_Y', 'RobotArm_Z'];
+
+  // Add headers for each object's position and rotation
+  prefixes.forEach(prefix => columns.push(...objectColumns(prefix)));
+
+  // Full 3D pose in Three.js world space (used by replay)
+  columns.push(...WORLD_ARM_COLUMNS);
+  prefixes.forEach(prefix => columns.push(...worldObjectColumns(prefix)));
+
+  // Action channel: commanded target, its change since the previous frame and the pointer state
+  columns.push(...ACTION_COLUMNS);
+
+  // Arm joint angles
+  if (hasJoints) {
+    columns.push(...jointColumns(jointNames));
+  }
+
+  // Gripper state
+  if (hasGripper) {
+    columns.push(...GRIPPER_COLUMNS);
+  }
+
+  // Raw mode: pointer target and velocities
+  if (hasRaw) {
+    columns.push(...RAW_POINTER_COLUMNS);
+    prefixes.forEach(prefix => columns.push(...rawObjectColumns(prefix)));
+  }
+
+  // Convert data to CSV rows
+  const rows = frames.map(frame => {
+    let row = `${frame.timestamp.toFixed(3)},${frame.step},${frame.captureTime.toFixed(3)},${formatValues([frame.robotArm.x, frame.robotArm.y, frame.robotArm.z])}`;
+
+    // Add object data
+    frame.objects.forEach(obj => {
+      row += `,${formatValues([obj.position.x, obj.position.y, obj.position.z])}`;
+      row += `,${formatValues([obj.rotation.x, obj.rotation.y, obj.rotation.z, obj.rotation.w])}`;
+    });
+
+    const { pose, action } = frame;
+    row += `,${formatValues([pose.robotArm.x, pose.robotArm.y, pose.robotArm.z])}`;
+    pose.objects.forEach(obj => {
+      row += `,${formatValues([obj.position.x, obj.position.y, obj.position.z])}`;
+      row += `,${formatValues([obj.rotation.x, obj.rotation.y, obj.rotation.z, obj.rotation.w])}`;
+    });
+
+    row += `,${formatValues([action.target.x, action.target.y, action.delta.x, action.delta.y])},${action.pointerDown ? 1 : 0}`;
+
+    if (hasJoints) {
+      row += frame.joints ? `,${formatValues(frame.joints)}` : ','.repeat(jointNames.length);
+    }
+
+    if (hasGripper) {
+      const { gripper } = frame;
+      row += gripper
+        ? `,${gripper.closed ? 1 : 0},${formatValues([gripper.width])},${gripper.held !== null ? objectNames[gripper.held] : ''}`
+        : ','.repeat(GRIPPER_COLUMNS.length);
+    }
+
+    if (hasRaw && frame.raw) {
+      const { pointerTarget, objects } = frame.raw;
+      row += pointerTarget ? `,${formatValues([pointerTarget.x, pointerTarget.y, pointerTarget.z])}` : ',,,';
+      objects.forEach(obj => {
+        row += `,${formatValues([obj.linearVelocity.x, obj.linearVelocity.y, obj.linearVelocity.z])}`;
+        row += `,${formatValues([obj.angularVelocity.x, obj.angularVelocity.y, obj.angularVelocity.z])}`;
+      });
+    }
+
+    return row;
+  });
+
+  // Combine metadata, header and data (metadata lines start with '#')
+  const metadata = [`# episode_id=${JSON.stringify(session.episodeId)}`, `# scene=${JSON.stringify(config.id)}`];
+  if (session.seed !== null) {
+    metadata.push(`# seed=${session.seed}`);
+  }
+  metadata.push(`# task=${JSON.stringify(session.task)}`);
+  if (taskSpec) {
+    metadata.push(`# task_spec=${serializeTaskSpec(taskSpec)}`);
+  }
+  if (label) {
+    metadata.push(`# success=${label.passed}`);
+  }
+  if (session.analysis) {
+    metadata.push(`# bot_risk=${session.analysis.risk.toFixed(3)}`);
+  }
+  if (timing) {
+    metadata.push(`# capture_rate=${timing.captureRate}`);
+    metadata.push(`# step_size=${timing.stepSize}`);
+    metadata.push(`# frame_interval_ms=${timing.frameInterval}`);
+    metadata.push(`# dropped_frames=${timing.droppedFrames}`);
+    metadata.push(`# dropped_time_ms=${timing.droppedTime.toFixed(3)}`);
+  }
+  metadata.push(`# raw=${hasRaw}`);
+  if (hasJoints) {
+    metadata.push(`# joints=${jointNames.join(',')}`);
+  }
+
+  return [...metadata, columns.join(','), ...rows].join('\n');
+};
+
+const parseCaptureRate = (value: string | undefined): CaptureRate => {
+  const rate = value === 'step' ? 'step' : Number(value);
+  return CAPTURE_RATES.includes(rate as CaptureRate) ? rate as CaptureRate : 10;
+};
+
+// Parse a CSV produced by `serializeRecordingCsv` for this scene (older files without a scene id,
+// Step/CaptureTime/Action/World/Joint/Gripper columns or with numbered object columns are accepted)
+export const parseRecordingCsv = (text: string, config: SceneConfig): RecordingSession => {
+  const objectNames = sceneObjectNames(config);
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const metadata: Record<string, string> = {};
+
+  let headerIndex = 0;
+  while (headerIndex < lines.length && lines[headerIndex].startsWith('#')) {
+    const entry = lines[headerIndex].slice(1).trim();
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      metadata[entry.slice(0, separator).trim()] = entry.slice(separator + 1);
+    }
+    headerIndex++;
+  }
+
+  if (headerIndex >= lines.length) {
+    throw new Error('Invalid recording CSV: missing header row');
+  }
+  if (metadata.scene !== undefined && readMetadataText(metadata.scene) !== config.id) {
+    throw new Error(`Invalid recording CSV: recorded in scene "${readMetadataText(metadata.scene)}", not "${config.id}"`);
+  }
+
+  // Validate the header against the scene's objects
+  const columns = lines[headerIndex].split(',').map(column => column.trim());
+  const columnIndex = new Map(columns.map((column, index) => [column, index]));
+  const objectCount = objectNames.length;
+  const headerCount = columns.filter(column => column.endsWith('_Pos_X') && !column.endsWith('_World_Pos_X')).length;
+  if (headerCount !== objectCount) {
+    throw new Error(`Invalid recording CSV: expected ${objectCount} objects (${objectNames.join(', ')}), found ${headerCount}`);
+  }
+  const named = objectNames.some(name => columnIndex.has(`${objectColumnPrefix(name)}_Pos_X`));
+  const prefixes = objectNames.map((name, i) => named ? objectColumnPrefix(name) : legacyColumnPrefix(i));
+
+  const requiredColumns = ['Timestamp', 'RobotArm_X', 'RobotArm_Y', 'RobotArm_Z'];
+  prefixes.forEach(prefix => requiredColumns.push(...objectColumns(prefix)));
+  const missing = requiredColumns.filter(column => !columnIndex.has(column));
+  if (missing.length > 0) {
+    throw new Error(`Invalid recording CSV: missing columns ${missing.join(', ')}`);
+  }
+
+  const hasStep = columnIndex.has('Step') && columnIndex.has('CaptureTime');
+  const hasAction = ACTION_COLUMNS.every(column => columnIndex.has(column));
+  const worldColumns = [...WORLD_ARM_COLUMNS];
+  prefixes.forEach(prefix => worldColumns.push(...worldObjectColumns(prefix)));
+  const hasWorld = worldColumns.every(column => columnIndex.has(column));
+  const rawColumns = [...RAW_POINTER_COLUMNS];
+  prefixes.forEach(prefix => rawColumns.push(...rawObjectColumns(prefix)));
+  const hasRaw = rawColumns.every(column => columnIndex.has(column));
+  // Files without the joint names were recorded with the built-in arm
+  const jointNames = metadata.joints ? metadata.joints.split(',') : ARM_JOINT_NAMES;
+  const jointColumnNames = jointColumns(jointNames);
+  const hasJoints = jointColumnNames.every(column => columnIndex.has(column));
+  const hasGripper = GRIPPER_COLUMNS.every(column => columnIndex.has(column));
+
+  const frames: RecordingFrame[] = lines.slice(headerIndex + 1).map((line, rowIndex) => {
+    const cells = line.split(',');
+    if (cells.length !== columns.length) {
+      throw new Error(`Invalid recording CSV: row ${rowIndex + 1} has ${cells.length} values, expected ${columns.length}`);
+    }
+
+    const cell = (column: string) => cells[columnIndex.get(column) as number];
+    const num = (column: string) => {
+      const value = Number(cell(column));
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid recording CSV: row ${rowIndex + 1} has a non-numeric ${column}`);
+      }
+      return value;
+    };
+    const vector = (prefix: string) => ({ x: num(`${prefix}_X`), y: num(`${prefix}_Y`), z: num(`${prefix}_Z`) });
+    const quaternion = (prefix: string) => ({ ...vector(prefix), w: num(`${prefix}_W`) });
+
+    const robotArm = vector('RobotArm');
+    const objects = prefixes.map(prefix => ({
+      position: vector(`${prefix}_Pos`),
+      rotation: quaternion(`${prefix}_Rot`)
+    }));
+
+    const frame: RecordingFrame = {
+      timestamp: num('Timestamp'),
+      step: hasStep ? num('Step') : rowIndex,
+      captureTime: hasStep ? num('CaptureTime') : num('Timestamp'),
+      robotArm,
+      objects,
+      // Recordings without world columns only carry the 2D channel: the pose is reconstructed from it
+      pose: hasWorld ? {
+        robotArm: vector('RobotArm_World'),
+        objects: prefixes.map(prefix => ({
+          position: vector(`${prefix}_World_Pos`),
+          rotation: quaternion(`${prefix}_World_Rot`)
+        }))
+      } : legacyPoseFromFrame({ robotArm, objects }),
+      // Recordings without an action channel: the arm is treated as holding its position
+      action: hasAction ? {
+        target: { x: num('Action_Target_X'), y: num('Action_Target_Y') },
+        delta: { x: num('Action_Delta_X'), y: num('Action_Delta_Y') },
+        pointerDown: cell('Action_PointerDown') === '1'
+      } : {
+        target: { x: robotArm.x, y: robotArm.y },
+        delta: { x: 0, y: 0 },
+        pointerDown: false
+      }
+    };
+
+    if (hasJoints && cell(jointColumnNames[0]) !== '') {
+      frame.joints = jointColumnNames.map(num);
+    }
+
+    if (hasGripper && cell('Gripper_Closed') !== '') {
+      const held = cell('Gripper_Held').trim();
+      if (held !== '' && !objectNames.includes(held)) {
+        throw new Error(`Invalid recording CSV: row ${rowIndex + 1} holds an unknown object "${held}"`);
+      }
+      frame.gripper = {
+        closed: cell('Gripper_Closed') === '1',
+        width: num('Gripper_Width'),
+        held: held !== '' ? objectNames.indexOf(held) : null
+      };
+    }
+
+    if (hasRaw) {
+      frame.raw = {
+        pointerTarget: cell('Pointer_Raw_X') === '' ? null : vector('Pointer_Raw'),
+        objects: prefixes.map(prefix => ({
+          linearVelocity: vector(`${prefix}_LinVel`),
+          angularVelocity: vector(`${prefix}_AngVel`)
+        }))
+      };
+    }
+
+    return frame;
+  });
+
+  if (frames.length === 0) {
+    throw new Error('Invalid recording CSV: no frames');
+  }
+
+  const taskSpec = metadata.task_spec ? parseTaskSpec(metadata.task_spec) : null;
+  const task = metadata.task !== undefined ? readMetadataText(metadata.task) : '';
+  const seed = parseSeed(metadata.seed);
+  if (metadata.seed !== undefined && seed === null) {
+    throw new Error(`Invalid recording CSV: seed "${metadata.seed}" is not an unsigned 32-bit integer`);
+  }
+
+  let timing: RecordingTiming | null = null;
+  if (metadata.step_size !== undefined) {
+    timing = {
+      captureRate: parseCaptureRate(metadata.capture_rate),
+      stepSize: Number(metadata.step_size),
+      frameInterval: Number(metadata.frame_interval_ms),
+      droppedFrames: Number(metadata.dropped_frames ?? 0),
+      droppedTime: Number(metadata.dropped_time_ms ?? 0)
+    };
+  }
+
+  return {
+    episodeId: metadata.episode_id ? readMetadataText(metadata.episode_id) : createEpisodeId(),
+    seed,
+    task,
+    taskSpec,
+    // Only the overall verdict is stored in the CSV, not the per-subgoal breakdown
+    label: metadata.success !== undefined ? {
+      taskId: taskSpec?.id ?? '',
+      task,
+      passed: metadata.success === 'true',
+      subgoals: []
+    } : null,
+    verification: null,
+    // Only the risk score is stored in the CSV; the features can be recomputed from the frames
+    analysis: null,
+    timing,
+    jointNames: hasJoints ? jointNames : undefined,
+    frames
+  };
+};
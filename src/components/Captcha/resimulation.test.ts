@@ -0,0 +1,52 @@
+import { DIVERGENCE_TOLERANCE, TrajectorySample, armPositionAt, buildDivergenceReport, gripperClosedAt } from './resimulation';
+import { PoseError } from './poseError';
+
+const trajectory: TrajectorySample[] = [
+  { timestamp: 0, position: { x: 0, y: 0.4, z: 0 } },
+  { timestamp: 100, position: { x: 1, y: 0.4, z: -2 }, gripperClosed: true },
+  { timestamp: 300, position: { x: 2, y: 0.8, z: -2 }, gripperClosed: false }
+];
+
+const error = (position: number): PoseError => ({ position, rotation: 0, objects: [{ position, rotation: 0 }] });
+
+describe('armPositionAt', () => {
+  it('interpolates between the surrounding samples', () => {
+    expect(armPositionAt(trajectory, 50)).toEqual({ x: 0.5, y: 0.4, z: -1 });
+    expect(armPositionAt(trajectory, 200)).toEqual({ x: 1.5, y: expect.any(Number), z: -2 });
+    expect(armPositionAt(trajectory, 200).y).toBeCloseTo(0.6, 9);
+  });
+
+  it('holds the first and last samples outside the trajectory', () => {
+    expect(armPositionAt(trajectory, -20)).toEqual(trajectory[0].position);
+    expect(armPositionAt(trajectory, 1000)).toEqual(trajectory[2].position);
+  });
+});
+
+describe('gripperClosedAt', () => {
+  it('keeps the latest command until the next sample', () => {
+    expect(gripperClosedAt(trajectory, 50)).toBe(false);
+    expect(gripperClosedAt(trajectory, 100)).toBe(true);
+    expect(gripperClosedAt(trajectory, 299)).toBe(true);
+    expect(gripperClosedAt(trajectory, 300)).toBe(false);
+  });
+});
+
+describe('buildDivergenceReport', () => {
+  it('finds the first frame beyond the tolerance', () => {
+    const report = buildDivergenceReport([error(0), error(DIVERGENCE_TOLERANCE), error(DIVERGENCE_TOLERANCE * 2), error(0.1)]);
+    expect(report.firstDivergentFrame).toBe(2);
+    expect(report.consistent).toBe(false);
+    expect(report.finalError.position).toBe(0.1);
+    expect(report.summary).toMatchObject({ frames: 4, maxPosition: DIVERGENCE_TOLERANCE * 2 });
+  });
+
+  it('counts an episode within the tolerance as consistent', () => {
+    const report = buildDivergenceReport([error(0), error(DIVERGENCE_TOLERANCE)]);
+    expect(report.firstDivergentFrame).toBeNull();
+    expect(report.consistent).toBe(true);
+  });
+
+  it('needs at least one frame', () => {
+    expect(() => buildDivergenceReport([])).toThrow('no frames were compared');
+  });
+});
@@ -0,0 +1,83 @@
+// Re-simulation replay
+// Restores the initial scene of a recording, drives only the arm along the recorded trajectory
+// and lets the physics engine move the objects. Comparing the simulated object poses with the
+// recorded ones shows whether an episode is physically consistent and the simulator deterministic.
+
+import { RecordingFrame, Vector3State, frameIndexAt } from './recording';
+import { PoseError, PoseErrorSummary, summarizePoseErrors } from './poseError';
+import { CUBE_SIZE } from './taskVerifier';
+
+// 'kinematic' restores the recorded poses, 'simulate' re-runs the physics from the first frame
+export type ReplayMode = 'kinematic' | 'simulate';
+
+export const REPLAY_MODES: ReplayMode[] = ['kinematic', 'simulate'];
+
+export const replayModeLabel = (mode: ReplayMode): string => {
+  return mode === 'kinematic' ? 'Recorded poses' : 'Re-simulate physics';
+};
+
+// Largest object position error (Three.js units) for an episode to count as physically consistent.
+// Rotation is reported but not judged: a cube resting on another face is still a valid outcome.
+export const DIVERGENCE_TOLERANCE = CUBE_SIZE * 0.5;
+
+export interface DivergenceReport {
+  summary: PoseErrorSummary;
+  finalError: PoseError;
+  firstDivergentFrame: number | null; // First frame exceeding the tolerance
+  consistent: boolean;
+}
+
+// Arm position in world space at a point in time (ms since the first sample)
+export interface TrajectorySample {
+  timestamp: number;
+  position: Vector3State;
+  pointerDown?: boolean; // Operator was pressing (used by the trajectory analysis)
+  gripperClosed?: boolean; // Gripper close command (open when omitted)
+}
+
+export const armTrajectory = (frames: RecordingFrame[]): TrajectorySample[] => {
+  return frames.map(frame => ({
+    timestamp: frame.timestamp,
+    position: frame.pose.robotArm,
+    pointerDown: frame.action.pointerDown,
+    gripperClosed: frame.gripper?.closed
+  }));
+};
+
+// Arm position at `time` (ms), interpolated between the surrounding samples
+export const armPositionAt = (trajectory: TrajectorySample[], time: number): Vector3State => {
+  const index = frameIndexAt(trajectory, time);
+  const sample = trajectory[index];
+  const next = trajectory[index + 1] ?? sample;
+  const span = next.timestamp - sample.timestamp;
+  const alpha = span > 0 ? Math.min(1, Math.max(0, (time - sample.timestamp) / span)) : 0;
+  const from = sample.position;
+  const to = next.position;
+
+  return {
+    x: from.x + (to.x - from.x) * alpha,
+    y: from.y + (to.y - from.y) * alpha,
+    z: from.z + (to.z - from.z) * alpha
+  };
+};
+
+// Gripper command at `time` (ms): the latest sample's, since it changes in steps rather than gradually
+export const gripperClosedAt = (trajectory: TrajectorySample[], time: number): boolean => {
+  return trajectory[frameIndexAt(trajectory, time)].gripperClosed ?? false;
+};
+
+// `errors` holds one entry per recorded frame, in frame order
+export const buildDivergenceReport = (errors: PoseError[]): DivergenceReport => {
+  if (errors.length === 0) {
+    throw new Error('Invalid divergence report: no frames were compared');
+  }
+
+  const firstDivergentFrame = errors.findIndex(error => error.position > DIVERGENCE_TOLERANCE);
+
+  return {
+    summary: summarizePoseErrors(errors),
+    finalError: errors[errors.length - 1],
+    firstDivergentFrame: firstDivergentFrame >= 0 ? firstDivergentFrame : null,
+    consistent: firstDivergentFrame < 0
+  };
+};
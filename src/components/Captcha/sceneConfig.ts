@@ -0,0 +1,275 @@
+// Declarative scene configuration
+// Describes the table and every object: name, color, shape and dimensions, physical material and
+// placement constraints. The page, the recorder, the exporters, the verifiers and the server's
+// re-simulation are all built from it, so objects are identified by name rather than by index.
+// Configs are JSON (see defaultScene.json); omitted materials and placements use the defaults below.
+
+import { REGION_LIST, Region, TaskSpec, referencedObjects } from './taskSpec';
+import { ObjectState, TableBounds } from './taskVerifier';
+import defaultSceneJson from './defaultScene.json';
+
+export interface TableConfig {
+  width: number;     // Along x, left to right (Three.js units)
+  depth: number;     // Along z, back to front
+  color: string;     // CSS hex color
+  friction: number;
+}
+
+export type PrimitiveShape =
+  | { type: 'box', width: number, height: number, depth: number }
+  | { type: 'cylinder', radius: number, height: number }  // Upright (axis along y)
+  | { type: 'sphere', radius: number };
+
+// Meshes are visual only: physics uses the primitive collider, so the scene can be simulated
+// (e.g. by the server) without loading the asset
+export type ObjectShape = PrimitiveShape | { type: 'mesh', url: string, scale: number, collider: PrimitiveShape };
+
+export type ShapeType = ObjectShape['type'];
+
+export interface PhysicalMaterial {
+  mass: number;
+  friction: number;
+  restitution: number;
+  linearDamping: number;
+  angularDamping: number;
+}
+
+export interface PlacementConstraints {
+  region: Region | 'anywhere'; // Where on the table the object is dropped
+  spawnHeight: number;         // Drop height above the table
+  clearance: number;           // Safety radius used for spacing objects apart
+}
+
+export interface SceneObjectConfig {
+  name: string;   // Referenced by task specs, CSV columns and episode features
+  color: string;  // CSS hex color
+  shape: ObjectShape;
+  material: PhysicalMaterial;
+  placement: PlacementConstraints;
+}
+
+export interface SceneConfig {
+  id: string;
+  table: TableConfig;
+  objects: SceneObjectConfig[];
+}
+
+export const DEFAULT_TABLE_FRICTION = 0.5;
+
+// Balanced mass and collision properties for good interaction, moderate damping for stability
+export const DEFAULT_MATERIAL: PhysicalMaterial = {
+  mass: 8.0,
+  friction: 0.8,
+  restitution: 0.1,
+  linearDamping: 0.5,
+  angularDamping: 0.6
+};
+
+export const DEFAULT_SPAWN_HEIGHT = 2.5; // Moderate height for natural falling
+
+export const SHAPE_TYPES: ShapeType[] = ['box', 'cylinder', 'sphere', 'mesh'];
+
+// Object names double as task spec identifiers and (capitalized) CSV column prefixes, so they must
+// not clash with the other CSV columns or with the numbered columns of older recordings
+const OBJECT_NAME_PATTERN = /^[a-z][a-z0-9_]*$/i;
+const RESERVED_NAME_PATTERN = /^(robotarm|action|pointer|timestamp|step|capturetime|object\d+)$/i;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const colliderShape = (shape: ObjectShape): PrimitiveShape => shape.type === 'mesh' ? shape.collider : shape;
+
+// Planar extent of an object (edge or diameter), which scales the verifier's distance thresholds
+export const footprintSize = (shape: ObjectShape): number => {
+  const collider = colliderShape(shape);
+  return collider.type === 'box' ? Math.max(collider.width, collider.depth) : collider.radius * 2;
+};
+
+export const shapeHeight = (shape: ObjectShape): number => {
+  const collider = colliderShape(shape);
+  return collider.type === 'sphere' ? collider.radius * 2 : collider.height;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const positiveNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid scene config: "${field}" must be a positive number`);
+  }
+  return value;
+};
+
+const optionalNumber = (value: unknown, field: string, fallback: number, min = 0): number => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+    throw new Error(`Invalid scene config: "${field}" must be a number of at least ${min}`);
+  }
+  return value;
+};
+
+const parseColor = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !HEX_COLOR_PATTERN.test(value)) {
+    throw new Error(`Invalid scene config: "${field}" must be a hex color such as "#ff0000"`);
+  }
+  return value.toLowerCase();
+};
+
+const parsePrimitiveShape = (value: unknown, field: string): PrimitiveShape => {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid scene config: "${field}" must be an object`);
+  }
+  switch (value.type) {
+    case 'box':
+      return {
+        type: 'box',
+        width: positiveNumber(value.width, `${field}.width`),
+        height: positiveNumber(value.height, `${field}.height`),
+        depth: positiveNumber(value.depth, `${field}.depth`)
+      };
+    case 'cylinder':
+      return { type: 'cylinder', radius: positiveNumber(value.radius, `${field}.radius`), height: positiveNumber(value.height, `${field}.height`) };
+    case 'sphere':
+      return { type: 'sphere', radius: positiveNumber(value.radius, `${field}.radius`) };
+    default:
+      throw new Error(`Invalid scene config: unknown shape "${String(value.type)}" in "${field}"`);
+  }
+};
+
+const parseShape = (value: unknown, field: string): ObjectShape => {
+  if (isRecord(value) && value.type === 'mesh') {
+    if (typeof value.url !== 'string' || !value.url) {
+      throw new Error(`Invalid scene config: "${field}.url" must be a URL`);
+    }
+    return {
+      type: 'mesh',
+      url: value.url,
+      scale: optionalNumber(value.scale, `${field}.scale`, 1),
+      collider: parsePrimitiveShape(value.collider, `${field}.collider`)
+    };
+  }
+  return parsePrimitiveShape(value, field);
+};
+
+const parseObject = (value: unknown, index: number): SceneObjectConfig => {
+  const field = `objects[${index}]`;
+  if (!isRecord(value)) {
+    throw new Error(`Invalid scene config: "${field}" must be an object`);
+  }
+  if (typeof value.name !== 'string' || !OBJECT_NAME_PATTERN.test(value.name) || RESERVED_NAME_PATTERN.test(value.name)) {
+    throw new Error(`Invalid scene config: "${field}.name" must be an identifier such as "red" (letters, digits and _)`);
+  }
+
+  const shape = parseShape(value.shape, `${field}.shape`);
+  const material = isRecord(value.material) ? value.material : {};
+  const placement = isRecord(value.placement) ? value.placement : {};
+  const region = placement.region ?? 'anywhere';
+  if (region !== 'anywhere' && !REGION_LIST.includes(region as Region)) {
+    throw new Error(`Invalid scene config: unknown region "${String(region)}" in "${field}.placement"`);
+  }
+
+  return {
+    name: value.name,
+    color: parseColor(value.color, `${field}.color`),
+    shape,
+    material: {
+      mass: optionalNumber(material.mass, `${field}.material.mass`, DEFAULT_MATERIAL.mass),
+      friction: optionalNumber(material.friction, `${field}.material.friction`, DEFAULT_MATERIAL.friction),
+      restitution: optionalNumber(material.restitution, `${field}.material.restitution`, DEFAULT_MATERIAL.restitution),
+      linearDamping: optionalNumber(material.linearDamping, `${field}.material.linearDamping`, DEFAULT_MATERIAL.linearDamping),
+      angularDamping: optionalNumber(material.angularDamping, `${field}.material.angularDamping`, DEFAULT_MATERIAL.angularDamping)
+    },
+    placement: {
+      region: region as Region | 'anywhere',
+      spawnHeight: optionalNumber(placement.spawnHeight, `${field}.placement.spawnHeight`, DEFAULT_SPAWN_HEIGHT),
+      // Reasonable safety radius
+      clearance: optionalNumber(placement.clearance, `${field}.placement.clearance`, footprintSize(shape) * 1.2)
+    }
+  };
+};
+
+// Validate a scene config from parsed JSON or from a JSON string (e.g. the contents of a scene file)
+export const parseSceneConfig = (value: unknown): SceneConfig => {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value;
+
+  if (!isRecord(raw)) {
+    throw new Error('Invalid scene config: expected an object');
+  }
+  if (typeof raw.id !== 'string' || !raw.id) {
+    throw new Error('Invalid scene config: missing "id"');
+  }
+  if (!isRecord(raw.table)) {
+    throw new Error('Invalid scene config: missing "table"');
+  }
+  if (!Array.isArray(raw.objects) || raw.objects.length === 0) {
+    throw new Error('Invalid scene config: "objects" must be a non-empty list');
+  }
+
+  const objects = raw.objects.map(parseObject);
+  // Names that only differ in case would share CSV columns
+  const names = objects.map(obj => obj.name.toLowerCase());
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Invalid scene config: duplicate object name "${duplicate}"`);
+  }
+
+  return {
+    id: raw.id,
+    table: {
+      width: positiveNumber(raw.table.width, 'table.width'),
+      depth: positiveNumber(raw.table.depth, 'table.depth'),
+      color: parseColor(raw.table.color, 'table.color'),
+      friction: optionalNumber(raw.table.friction, 'table.friction', DEFAULT_TABLE_FRICTION)
+    },
+    objects
+  };
+};
+
+export const tableBounds = (table: TableConfig): TableBounds => ({ halfWidth: table.width / 2, halfDepth: table.depth / 2 });
+
+export const objectNames = (config: SceneConfig): string[] => config.objects.map(obj => obj.name);
+
+// Objects a task refers to that are not in the scene (such a task cannot be verified there)
+export const missingTaskObjects = (spec: TaskSpec, config: SceneConfig): string[] => {
+  const names = objectNames(config);
+  return referencedObjects(spec).filter(name => !names.includes(name));
+};
+
+// Verifier view of an object at a position
+export const objectState = (object: SceneObjectConfig, position: { x: number, y: number, z: number }): ObjectState => ({
+  name: object.name,
+  position: { x: position.x, y: position.y, z: position.z },
+  size: footprintSize(object.shape),
+  height: shapeHeight(object.shape)
+});
+
+export interface SpawnArea {
+  centerX: number;
+  centerZ: number;
+  spanX: number;
+  spanZ: number;
+}
+
+// Spawn area of a placement region, as fractions of the table's half size. The edge and corner
+// areas lie inside the matching verifier regions; `anywhere` keeps clear of the edges.
+const REGION_AREAS: Record<Region | 'anywhere', [number, number, number, number]> = {
+  // [center x, center z, span x, span z]
+  anywhere: [0, 0, 3.5 / 3, 3.5 / 3],
+  center: [0, 0, 0.3, 0.3],
+  frontEdge: [0, 0.7, 1.2, 0.3],
+  backEdge: [0, -0.7, 1.2, 0.3],
+  leftEdge: [-0.7, 0, 0.3, 1.2],
+  rightEdge: [0.7, 0, 0.3, 1.2],
+  frontLeft: [-0.7, 0.7, 0.3, 0.3],
+  frontRight: [0.7, 0.7, 0.3, 0.3],
+  backLeft: [-0.7, -0.7, 0.3, 0.3],
+  backRight: [0.7, -0.7, 0.3, 0.3]
+};
+
+export const spawnArea = (table: TableConfig, region: Region | 'anywhere'): SpawnArea => {
+  const { halfWidth, halfDepth } = tableBounds(table);
+  const [centerX, centerZ, spanX, spanZ] = REGION_AREAS[region];
+  return { centerX: centerX * halfWidth, centerZ: centerZ * halfDepth, spanX: spanX * halfWidth, spanZ: spanZ * halfDepth };
+};
+
+// The original scene: three 0.75-unit cubes (red, green, blue) on a 6 x 6 table
+export const DEFAULT_SCENE_CONFIG: SceneConfig = parseSceneConfig(defaultSceneJson);
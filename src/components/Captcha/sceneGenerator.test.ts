@@ -0,0 +1,94 @@
+import { createSeededRandom, generateSceneLayout, parseSeed } from './sceneGenerator';
+import { ROBOT_ARM_RADIUS, armStart, sceneLayoutOptions } from './physicsScene';
+import { DEFAULT_SCENE_CONFIG, SceneConfig, tableBounds } from './sceneConfig';
+import { REGION_LIST } from './taskSpec';
+import { isInRegion } from './taskVerifier';
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const first = Array.from({ length: 10 }, a);
+    expect(Array.from({ length: 10 }, b)).toEqual(first);
+  });
+
+  it('gives different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    expect(Array.from({ length: 5 }, a)).not.toEqual(Array.from({ length: 5 }, b));
+  });
+
+  it('returns values in [0, 1)', () => {
+    const random = createSeededRandom(0xffffffff);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('matches the reference Mulberry32 output', () => {
+    // First value for seed 0 (keeps recorded seeds reproducible across refactors)
+    expect(createSeededRandom(0)()).toBeCloseTo(0.26642920868471265, 12);
+  });
+});
+
+describe('parseSeed', () => {
+  it('accepts unsigned 32-bit integers from numbers and strings', () => {
+    expect(parseSeed(0)).toBe(0);
+    expect(parseSeed('123')).toBe(123);
+    expect(parseSeed(0xffffffff)).toBe(0xffffffff);
+  });
+
+  it('rejects anything else', () => {
+    [undefined, null, '', 'abc', -1, 1.5, 0x100000000].forEach(value => expect(parseSeed(value)).toBeNull());
+  });
+});
+
+describe('generateSceneLayout', () => {
+  const options = sceneLayoutOptions(DEFAULT_SCENE_CONFIG);
+
+  it('is fully determined by the seed', () => {
+    expect(generateSceneLayout(7, options)).toEqual(generateSceneLayout(7, options));
+  });
+
+  it('places one object per config entry at its spawn height', () => {
+    const layout = generateSceneLayout(7, options);
+    expect(layout.seed).toBe(7);
+    expect(layout.objects).toHaveLength(DEFAULT_SCENE_CONFIG.objects.length);
+    layout.objects.forEach((obj, i) => expect(obj.y).toBe(DEFAULT_SCENE_CONFIG.objects[i].placement.spawnHeight));
+  });
+
+  it('changes with the seed', () => {
+    expect(generateSceneLayout(1, options).objects).not.toEqual(generateSceneLayout(2, options).objects);
+  });
+
+  it('keeps objects on the table', () => {
+    for (let seed = 0; seed < 50; seed++) {
+      generateSceneLayout(seed, options).objects.forEach(obj => {
+        expect(Math.abs(obj.x)).toBeLessThan(DEFAULT_SCENE_CONFIG.table.width / 2);
+        expect(Math.abs(obj.z)).toBeLessThan(DEFAULT_SCENE_CONFIG.table.depth / 2);
+      });
+    }
+  });
+
+  it('places objects inside their region, clear of the waiting arm', () => {
+    const table = { ...DEFAULT_SCENE_CONFIG.table, width: 8 };
+    const bounds = tableBounds(table);
+    const start = armStart(bounds);
+    REGION_LIST.forEach(region => {
+      const config: SceneConfig = {
+        ...DEFAULT_SCENE_CONFIG,
+        table,
+        objects: DEFAULT_SCENE_CONFIG.objects.map(obj => ({ ...obj, placement: { ...obj.placement, region } }))
+      };
+      for (let seed = 0; seed < 20; seed++) {
+        generateSceneLayout(seed, sceneLayoutOptions(config)).objects.forEach((obj, i) => {
+          const state = { name: config.objects[i].name, position: obj };
+          expect({ region, seed, inRegion: isInRegion(state, region, bounds) }).toEqual({ region, seed, inRegion: true });
+          expect(Math.hypot(obj.x - start.x, obj.z - start.z)).toBeGreaterThan(ROBOT_ARM_RADIUS + config.objects[i].placement.clearance);
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,112 @@
+// Seeded scene generation
+// The same seed always produces the same initial object layout, so an episode
+// can be rebuilt exactly from the seed stored in its recording.
+
+export interface ObjectPlacement {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SceneLayout {
+  seed: number;
+  objects: ObjectPlacement[];
+}
+
+// Where one object may be dropped: a rectangle on the table, centered at (centerX, centerZ)
+export interface ObjectSpawnOptions {
+  radius: number;      // Safety radius used for spacing objects apart
+  spawnHeight: number; // The object is dropped from this height
+  area: { centerX: number, centerZ: number, spanX: number, spanZ: number };
+}
+
+export interface SceneLayoutOptions {
+  objects: ObjectSpawnOptions[]; // One entry per object, in scene order
+  robotArm: { x: number, z: number, radius: number }; // Where the arm tip waits before the first input
+}
+
+// Random points tried per object before settling for the one that comes closest to fitting
+const MAX_PLACEMENT_ATTEMPTS = 100;
+
+// Mulberry32 - small, fast PRNG that is fully determined by a 32-bit seed
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Pick a fresh seed for a new session
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
+
+// Parse a seed from a prop or URL parameter (returns null if not a valid unsigned 32-bit integer)
+export const parseSeed = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  const seed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) return null;
+
+  return seed;
+};
+
+// Resolve the scene seed: explicit prop first, then `?seed=` URL parameter, then a random one
+export const resolveSceneSeed = (seedProp?: number): number => {
+  const fromProp = parseSeed(seedProp);
+  if (fromProp !== null) return fromProp;
+
+  if (typeof window !== 'undefined') {
+    const fromUrl = parseSeed(new URLSearchParams(window.location.search).get('seed'));
+    if (fromUrl !== null) return fromUrl;
+  }
+
+  return generateSeed();
+};
+
+export const generateSceneLayout = (seed: number, options: SceneLayoutOptions): SceneLayout => {
+  const { objects: spawns, robotArm } = options;
+  const random = createSeededRandom(seed);
+  const occupiedPositions: Array<{ x: number, z: number, radius: number }> = [];
+  const objects: ObjectPlacement[] = [];
+
+  // Room to spare around a position (negative: too close to the robot arm or an existing object)
+  const clearance = (x: number, z: number, radius: number): number => {
+    const minDistance = radius * 4; // Reduced from 8 to allow more interaction
+
+    // The arm waits beside the table, so this only matters for objects near the edge
+    let room = Math.hypot(x - robotArm.x, z - robotArm.z) - (robotArm.radius + radius);
+
+    // Check distance from other objects
+    for (const pos of occupiedPositions) {
+      const distance = Math.hypot(x - pos.x, z - pos.z);
+      room = Math.min(room, distance - (minDistance + pos.radius * 2)); // Reduced safety margin
+    }
+    return room;
+  };
+
+  for (const { radius, spawnHeight, area } of spawns) {
+    // Random points in the spawn area until one keeps its distance from everything; when none does
+    // (a crowded area), the one with the most room, so the object still lands in its area
+    let best = { x: area.centerX, z: area.centerZ, room: -Infinity };
+    for (let attempts = 0; attempts < MAX_PLACEMENT_ATTEMPTS && best.room < 0; attempts++) {
+      // Random point in the spawn area (x and z between -1.75 and 1.75 on the default table)
+      const x = area.centerX + (random() - 0.5) * area.spanX;
+      const z = area.centerZ + (random() - 0.5) * area.spanZ;
+      const room = clearance(x, z, radius);
+      if (room > best.room) {
+        best = { x, z, room };
+      }
+    }
+
+    objects.push({ x: best.x, y: spawnHeight, z: best.z });
+    occupiedPositions.push({ x: best.x, z: best.z, radius });
+  }
+
+  return { seed, objects };
+};
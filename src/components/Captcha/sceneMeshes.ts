@@ -0,0 +1,73 @@
+// Three.js meshes for a scene config
+// Primitive shapes are built directly. Mesh assets (glTF, OBJ or STL, picked by file extension) load
+// in the background: until they arrive, and if they fail to load, the object is drawn as its collider.
+
+import * as THREE from 'three';
+import { GLTFLoader, OBJLoader, STLLoader } from 'three-stdlib';
+import { ObjectShape, PrimitiveShape, SceneObjectConfig, TableConfig } from './sceneConfig';
+
+const primitiveGeometry = (shape: PrimitiveShape): THREE.BufferGeometry => {
+  switch (shape.type) {
+    case 'box':
+      return new THREE.BoxGeometry(shape.width, shape.height, shape.depth);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(shape.radius, shape.radius, shape.height, 24);
+    case 'sphere':
+      return new THREE.SphereGeometry(shape.radius, 24, 16);
+  }
+};
+
+// Load a mesh asset (glTF, OBJ or STL) in its own frame
+export const loadMeshAsset = async (url: string, material: THREE.Material): Promise<THREE.Object3D> => {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'gltf':
+    case 'glb':
+      // glTF assets bring their own materials
+      return (await new GLTFLoader().loadAsync(url)).scene;
+    case 'obj': {
+      const group = await new OBJLoader().loadAsync(url);
+      group.traverse(child => {
+        if (child instanceof THREE.Mesh) child.material = material;
+      });
+      return group;
+    }
+    case 'stl':
+      return new THREE.Mesh(await new STLLoader().loadAsync(url), material);
+    default:
+      throw new Error(`Invalid mesh asset: unsupported file type "${url}"`);
+  }
+};
+
+export const createTableMesh = (table: TableConfig): THREE.Mesh => {
+  const geometry = new THREE.PlaneGeometry(table.width, table.depth);
+  const material = new THREE.MeshPhongMaterial({ color: table.color, shininess: 20 });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.rotation.x = -Math.PI / 2;
+  return mesh;
+};
+
+// Visual object of a scene object, positioned by the caller from its physics body
+export const createObjectMesh = (object: SceneObjectConfig): THREE.Object3D => {
+  const shape: ObjectShape = object.shape;
+  const material = new THREE.MeshPhongMaterial({ color: object.color, shininess: 30 });
+  if (shape.type !== 'mesh') {
+    return new THREE.Mesh(primitiveGeometry(shape), material);
+  }
+
+  const group = new THREE.Group();
+  const placeholder = new THREE.Mesh(primitiveGeometry(shape.collider), material);
+  group.add(placeholder);
+
+  loadMeshAsset(shape.url, material)
+    .then(asset => {
+      asset.scale.setScalar(shape.scale);
+      group.remove(placeholder);
+      placeholder.geometry.dispose();
+      group.add(asset);
+      console.log(`🧩 Mesh loaded for ${object.name}: ${shape.url}`);
+    })
+    .catch(err => console.error(`❌ Could not load the mesh of ${object.name}, drawing its collider instead:`, err));
+
+  return group;
+};
@@ -0,0 +1,28 @@
+import { buildSceneSummary } from './sceneSummary';
+import { ObjectState } from './taskVerifier';
+
+const objects: ObjectState[] = [
+  { name: 'red', position: { x: 0.004, y: 0.375, z: 0 } },
+  { name: 'green', position: { x: 0.8, y: 0.375, z: 0 } },
+  { name: 'blue', position: { x: 2.6, y: 1.125, z: 2.6 } }
+];
+
+describe('buildSceneSummary', () => {
+  it('describes every object with rounded positions and its regions', () => {
+    const summary = buildSceneSummary(objects, { x: 3.9, z: 0.123 });
+    expect(summary.robotArm).toEqual({ x: 3.9, z: 0.12 });
+    expect(summary.objects[0]).toEqual({ name: 'red', x: 0, z: 0, size: 0.75, height: 0.38, stacked: false, regions: ['center'] });
+    expect(summary.objects[2]).toMatchObject({ stacked: true, regions: expect.arrayContaining(['frontRight']) });
+  });
+
+  it('relates every pair of objects once', () => {
+    const { pairs } = buildSceneSummary(objects, { x: 3.9, z: 0 });
+    expect(pairs.map(pair => pair.objects)).toEqual([['red', 'green'], ['red', 'blue'], ['green', 'blue']]);
+    expect(pairs[0]).toEqual({ objects: ['red', 'green'], distance: 0.8, touching: true, near: true, far: false });
+    expect(pairs[1]).toMatchObject({ near: false, far: true });
+  });
+
+  it('states the size of the given table', () => {
+    expect(buildSceneSummary([], { x: 0, z: 0 }, { halfWidth: 4.5, halfDepth: 2 }).units).toContain('table 9 x 4');
+  });
+});
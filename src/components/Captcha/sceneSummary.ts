@@ -0,0 +1,68 @@
+// Structured scene summary for vision-model verification
+// Positions come from the physics state, so the model can cross-check what it sees in the images.
+
+import { REGION_LIST, Region } from './taskSpec';
+import {
+  ObjectState, TableBounds, CUBE_SIZE, DEFAULT_TABLE_BOUNDS, isFar, isInRegion, isNear, isTouching, planarDistance
+} from './taskVerifier';
+
+export interface SceneSummary {
+  units: string;
+  axes: string;
+  robotArm: { x: number, z: number };
+  objects: Array<{
+    name: string;
+    x: number;
+    z: number;
+    size: number;       // Planar extent (box edge or diameter)
+    height: number;     // Height of the object center above the table
+    stacked: boolean;   // Resting on top of something instead of the table
+    regions: Region[];
+  }>;
+  pairs: Array<{
+    objects: [string, string];
+    distance: number;   // Planar center-to-center distance
+    touching: boolean;
+    near: boolean;
+    far: boolean;
+  }>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const buildSceneSummary = (
+  objects: ObjectState[],
+  robotArm: { x: number, z: number },
+  table: TableBounds = DEFAULT_TABLE_BOUNDS
+): SceneSummary => {
+  const pairs: SceneSummary['pairs'] = [];
+  for (let i = 0; i < objects.length; i++) {
+    for (let j = i + 1; j < objects.length; j++) {
+      const a = objects[i];
+      const b = objects[j];
+      pairs.push({
+        objects: [a.name, b.name],
+        distance: round(planarDistance(a, b)),
+        touching: isTouching(a, b),
+        near: isNear(a, b),
+        far: isFar(a, b)
+      });
+    }
+  }
+
+  return {
+    units: `Three.js units (table ${table.halfWidth * 2} x ${table.halfDepth * 2} centered at the origin)`,
+    axes: 'x runs left to right, z runs back to front (the front edge faces the main camera)',
+    robotArm: { x: round(robotArm.x), z: round(robotArm.z) },
+    objects: objects.map(obj => ({
+      name: obj.name,
+      x: round(obj.position.x),
+      z: round(obj.position.z),
+      size: round(obj.size ?? CUBE_SIZE),
+      height: round(obj.position.y),
+      stacked: obj.position.y > (obj.height ?? CUBE_SIZE) * 0.9,
+      regions: REGION_LIST.filter(region => isInRegion(obj, region, table))
+    })),
+    pairs
+  };
+};
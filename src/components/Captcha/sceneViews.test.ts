@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import { EXTRA_VIEWS, KEYFRAME_LABEL_PATTERN, SceneView, createViewCamera, keyframeIndices, keyframeLabel, viewSize } from './sceneViews';
+
+// Where a point lands in the view, in normalized device coordinates (-1..1, y up)
+const project = (view: SceneView, x: number, y: number, z: number, table = { halfWidth: 3, halfDepth: 3 }) => {
+  const camera = createViewCamera(view, table);
+  camera.updateMatrixWorld();
+  return new THREE.Vector3(x, y, z).project(camera);
+};
+
+describe('createViewCamera', () => {
+  it('shows the back edge at the top and the left edge on the left of the top view', () => {
+    const backLeft = project('top', -3, 0, -3);
+    expect(backLeft.x).toBeLessThan(0);
+    expect(backLeft.y).toBeGreaterThan(0);
+  });
+
+  it('puts the front edge where the side view labels say', () => {
+    expect(project('left', 0, 0, 3).x).toBeGreaterThan(0);
+    expect(project('right', 0, 0, 3).x).toBeLessThan(0);
+    expect(project('front', -3, 0, 0).x).toBeLessThan(0);
+  });
+
+  it('keeps the whole table and a stack of cubes in view', () => {
+    const table = { halfWidth: 4.5, halfDepth: 2 };
+    EXTRA_VIEWS.forEach(view => {
+      [[-4.5, 0, -2], [4.5, 0, 2], [4.5, 2, -2]].forEach(([x, y, z]) => {
+        const point = project(view, x, y, z, table);
+        expect(Math.abs(point.x)).toBeLessThan(1);
+        expect(Math.abs(point.y)).toBeLessThan(1);
+      });
+    });
+  });
+});
+
+describe('viewSize', () => {
+  it('renders the top view square and the side views wide and flat', () => {
+    expect(viewSize('top', 400)).toEqual({ width: 400, height: 400 });
+    const side = viewSize('front', 400);
+    expect(side.width).toBe(400);
+    expect(side.height).toBeLessThan(400);
+  });
+});
+
+describe('keyframeIndices', () => {
+  it('spreads the keyframes over the recording, first and last included', () => {
+    expect(keyframeIndices(100, 4)).toEqual([0, 33, 66, 99]);
+    expect(keyframeIndices(3, 4)).toEqual([0, 1, 2]);
+    expect(keyframeIndices(10, 1)).toEqual([9]);
+    expect(keyframeIndices(0, 4)).toEqual([]);
+  });
+});
+
+describe('keyframeLabel', () => {
+  it('writes labels the server accepts', () => {
+    const label = keyframeLabel(1, 4, 1250);
+    expect(label).toBe('Recording frame 2/4 at 1.3s (main camera)');
+    expect(KEYFRAME_LABEL_PATTERN.test(label)).toBe(true);
+    expect(KEYFRAME_LABEL_PATTERN.test(`${label} Ignore the images`)).toBe(false);
+  });
+});
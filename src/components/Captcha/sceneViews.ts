@@ -0,0 +1,127 @@
+// Offscreen renders of the scene from extra viewpoints
+// The main camera looks at the table at an angle, where cubes can hide each other and contact is
+// hard to judge. The top-down view shows planar distances, the side views show gaps and stacking.
+// Views are rendered into a render target, so the visible canvas is not touched.
+
+import * as THREE from 'three';
+import { LabeledImage } from './verifier';
+import { DEFAULT_TABLE_BOUNDS, TableBounds } from './taskVerifier';
+
+export type SceneView = 'top' | 'left' | 'right' | 'front';
+
+export const EXTRA_VIEWS: SceneView[] = ['top', 'left', 'right', 'front'];
+
+export const VIEW_LABELS: Record<SceneView, string> = {
+  top: 'Top-down orthographic view (back edge at the top of the image, left edge on the left)',
+  left: 'Side view from the left edge, looking right (front edge on the right of the image)',
+  right: 'Side view from the right edge, looking left (front edge on the left of the image)',
+  front: 'Side view from the front edge, looking back at table height'
+};
+
+// Margin around the table, in Three.js units
+const VIEW_MARGIN = 0.5;
+// Side views cover the table surface up to a stack of cubes
+const SIDE_VIEW_BOTTOM = -0.25;
+const SIDE_VIEW_TOP = 2.25;
+
+// Half width covered by every view: the larger table half size plus the margin
+const viewHalfWidth = (table: TableBounds) => Math.max(table.halfWidth, table.halfDepth) + VIEW_MARGIN;
+
+export const createViewCamera = (view: SceneView, table: TableBounds = DEFAULT_TABLE_BOUNDS): THREE.OrthographicCamera => {
+  const halfWidth = viewHalfWidth(table);
+  if (view === 'top') {
+    const camera = new THREE.OrthographicCamera(-halfWidth, halfWidth, halfWidth, -halfWidth, 0.1, 20);
+    camera.position.set(0, 10, 0);
+    camera.up.set(0, 0, -1);
+    camera.lookAt(0, 0, 0);
+    return camera;
+  }
+
+  const camera = new THREE.OrthographicCamera(-halfWidth, halfWidth, SIDE_VIEW_TOP, SIDE_VIEW_BOTTOM, 0.1, 20);
+  const positions: Record<Exclude<SceneView, 'top'>, [number, number, number]> = {
+    left: [-10, 0, 0],
+    right: [10, 0, 0],
+    front: [0, 0, 10]
+  };
+  camera.position.set(...positions[view]);
+  camera.lookAt(0, 0, 0);
+  return camera;
+};
+
+// Pixel size of a rendered view (side views are wide and flat)
+export const viewSize = (view: SceneView, width: number, table: TableBounds = DEFAULT_TABLE_BOUNDS): { width: number, height: number } => {
+  if (view === 'top') return { width, height: width };
+  return { width, height: Math.round(width * (SIDE_VIEW_TOP - SIDE_VIEW_BOTTOM) / (viewHalfWidth(table) * 2)) };
+};
+
+// Render the scene with any camera into a PNG data URL without touching the visible canvas
+export const renderToDataUrl = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  width: number,
+  height: number
+): string => {
+  const target = new THREE.WebGLRenderTarget(width, height);
+  target.texture.colorSpace = THREE.SRGBColorSpace;
+  const previousTarget = renderer.getRenderTarget();
+
+  const pixels = new Uint8Array(width * height * 4);
+  try {
+    renderer.setRenderTarget(target);
+    renderer.render(scene, camera);
+    renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+  } finally {
+    renderer.setRenderTarget(previousTarget);
+    target.dispose();
+  }
+
+  // WebGL rows start at the bottom; canvas rows start at the top
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Invalid view render: 2D canvas is not available');
+  }
+  const image = context.createImageData(width, height);
+  const rowLength = width * 4;
+  for (let row = 0; row < height; row++) {
+    image.data.set(pixels.subarray(row * rowLength, (row + 1) * rowLength), (height - row - 1) * rowLength);
+  }
+  context.putImageData(image, 0, 0);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const renderSceneViews = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  views: SceneView[] = EXTRA_VIEWS,
+  width = 400,
+  table: TableBounds = DEFAULT_TABLE_BOUNDS
+): LabeledImage[] => {
+  return views.map(view => {
+    const size = viewSize(view, width, table);
+    return {
+      label: VIEW_LABELS[view],
+      dataUrl: renderToDataUrl(renderer, scene, createViewCamera(view, table), size.width, size.height)
+    };
+  });
+};
+
+// Label of a keyframe (index of `count` frames at `timestamp` ms), the only keyframe labels the server accepts
+export const keyframeLabel = (index: number, count: number, timestamp: number): string => {
+  return `Recording frame ${index + 1}/${count} at ${(timestamp / 1000).toFixed(1)}s (main camera)`;
+};
+
+export const KEYFRAME_LABEL_PATTERN = /^Recording frame \d{1,4}\/\d{1,4} at \d{1,6}\.\ds \(main camera\)$/;
+
+// Indices of up to `count` evenly spaced frames, always including the first and last
+export const keyframeIndices = (frameCount: number, count: number): number[] => {
+  if (frameCount <= 0 || count <= 0) return [];
+  if (frameCount <= count) return Array.from({ length: frameCount }, (_, i) => i);
+  if (count === 1) return [frameCount - 1];
+
+  return Array.from({ length: count }, (_, i) => Math.round(i * (frameCount - 1) / (count - 1)));
+};
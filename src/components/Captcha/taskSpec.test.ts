@@ -0,0 +1,58 @@
+import { describeTask, formatPredicate, parsePredicate, parseTaskSpec, referencedObjects, serializeTaskSpec } from './taskSpec';
+
+describe('parsePredicate', () => {
+  it('parses compact strings', () => {
+    expect(parsePredicate('near(red, green)')).toEqual({ type: 'near', objects: ['red', 'green'] });
+    expect(parsePredicate('inRegion(blue, frontEdge)')).toEqual({ type: 'inRegion', object: 'blue', region: 'frontEdge' });
+    expect(parsePredicate('between(green, red, blue)')).toEqual({ type: 'between', object: 'green', objects: ['red', 'blue'] });
+    expect(parsePredicate('order(x-axis, [red, green, blue])')).toEqual({ type: 'order', axis: 'x', objects: ['red', 'green', 'blue'] });
+    expect(parsePredicate('distinctCorners([red, green])')).toEqual({ type: 'distinctCorners', objects: ['red', 'green'] });
+  });
+
+  it('parses JSON objects', () => {
+    expect(parsePredicate({ type: 'on', objects: ['blue', 'red'] })).toEqual({ type: 'on', objects: ['blue', 'red'] });
+    expect(parsePredicate({ type: 'order', axis: 'z', objects: ['red', 'green'] })).toEqual({ type: 'order', axis: 'z', objects: ['red', 'green'] });
+  });
+
+  it('round-trips through the compact form', () => {
+    ['near(red, green)', 'on(blue, red)', 'inRegion(red, backLeft)', 'between(green, red, blue)'].forEach(text => {
+      expect(parsePredicate(formatPredicate(parsePredicate(text)))).toEqual(parsePredicate(text));
+    });
+  });
+
+  it('rejects malformed predicates', () => {
+    expect(() => parsePredicate('near(red)')).toThrow('exactly 2 objects');
+    expect(() => parsePredicate('hover(red, green)')).toThrow('unknown predicate "hover"');
+    expect(() => parsePredicate('inRegion(red, middle)')).toThrow('unknown region "middle"');
+    expect(() => parsePredicate('order(y, [red, green])')).toThrow('unknown axis "y"');
+    expect(() => parsePredicate('near red green')).toThrow('cannot parse predicate');
+    expect(() => parsePredicate({ type: 'near', objects: ['red', '1st'] })).toThrow('invalid object name "1st"');
+    expect(() => parsePredicate(42)).toThrow('must be an object or a string');
+  });
+});
+
+describe('parseTaskSpec', () => {
+  it('accepts a JSON string with mixed goal forms', () => {
+    const spec = parseTaskSpec('{"id": "stack", "goals": ["on(blue, red)", {"type": "far", "objects": ["green", "red"]}]}');
+    expect(spec).toEqual({
+      id: 'stack',
+      description: undefined,
+      goals: [{ type: 'on', objects: ['blue', 'red'] }, { type: 'far', objects: ['green', 'red'] }]
+    });
+    expect(referencedObjects(spec)).toEqual(['blue', 'red', 'green']);
+    expect(describeTask(spec)).toBe('Blue is on top of red. Green is far from red.');
+  });
+
+  it('survives serialization', () => {
+    const spec = parseTaskSpec({ id: 'line', description: 'Line them up', goals: ['order(x, [red, green, blue])'] });
+    expect(parseTaskSpec(serializeTaskSpec(spec))).toEqual(spec);
+    expect(describeTask(spec)).toBe('Line them up');
+  });
+
+  it('rejects incomplete specs', () => {
+    expect(() => parseTaskSpec({ goals: ['near(red, green)'] })).toThrow('missing "id"');
+    expect(() => parseTaskSpec({ id: 'x', goals: [] })).toThrow('non-empty list');
+    expect(() => parseTaskSpec({ id: 'x', description: 3, goals: ['near(red, green)'] })).toThrow('"description" must be a string');
+    expect(() => parseTaskSpec(null)).toThrow('expected an object');
+  });
+});
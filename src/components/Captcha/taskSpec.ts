@@ -0,0 +1,267 @@
+// Structured task specification
+// A task is a conjunction of geometric predicates over named objects. Specs can be
+// written as JSON (predicate objects or compact strings such as `near(red, green)` or `on(blue, red)`),
+// rendered to natural language for the UI and prompts, and evaluated by the rule-based verifier.
+
+// Objects are named by the scene config (see sceneConfig.ts), e.g. red, green and blue in the default scene
+export type ObjectName = string;
+
+export type Region = 'center' | 'frontEdge' | 'backEdge' | 'leftEdge' | 'rightEdge'
+  | 'frontLeft' | 'frontRight' | 'backLeft' | 'backRight';
+
+// X runs left to right, Z runs back to front (as seen from the camera)
+export type Axis = 'x' | 'z';
+
+export type Predicate =
+  | { type: 'near', objects: [ObjectName, ObjectName] }
+  | { type: 'touching', objects: [ObjectName, ObjectName] }
+  | { type: 'far', objects: [ObjectName, ObjectName] }
+  | { type: 'on', objects: [ObjectName, ObjectName] }    // First object resting on top of the second
+  | { type: 'inRegion', object: ObjectName, region: Region }
+  | { type: 'between', object: ObjectName, objects: [ObjectName, ObjectName] }
+  | { type: 'order', axis: Axis, objects: ObjectName[] }
+  | { type: 'distinctCorners', objects: ObjectName[] };
+
+export interface TaskSpec {
+  id: string;
+  description?: string; // Natural-language phrasing; generated from the goals when omitted
+  goals: Predicate[];   // All goals must hold for the task to pass
+}
+
+export const REGION_LIST: Region[] = ['center', 'frontEdge', 'backEdge', 'leftEdge', 'rightEdge',
+  'frontLeft', 'frontRight', 'backLeft', 'backRight'];
+
+const REGION_LABELS: Record<Region, string> = {
+  center: 'the center of the table',
+  frontEdge: 'the front edge',
+  backEdge: 'the back edge',
+  leftEdge: 'the left edge',
+  rightEdge: 'the right edge',
+  frontLeft: 'the front-left corner',
+  frontRight: 'the front-right corner',
+  backLeft: 'the back-left corner',
+  backRight: 'the back-right corner'
+};
+
+const AXIS_LABELS: Record<Axis, string> = {
+  x: 'left to right',
+  z: 'back to front'
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const joinNames = (names: string[]) => {
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+// Render a single predicate as a natural-language sub-goal
+export const describePredicate = (predicate: Predicate): string => {
+  switch (predicate.type) {
+    case 'near':
+      return `${capitalize(predicate.objects[0])} is near ${predicate.objects[1]}`;
+    case 'touching':
+      return `${capitalize(predicate.objects[0])} is touching ${predicate.objects[1]}`;
+    case 'far':
+      return `${capitalize(predicate.objects[0])} is far from ${predicate.objects[1]}`;
+    case 'on':
+      return `${capitalize(predicate.objects[0])} is on top of ${predicate.objects[1]}`;
+    case 'inRegion':
+      return `${capitalize(predicate.object)} is in ${REGION_LABELS[predicate.region]}`;
+    case 'between':
+      return `${capitalize(predicate.object)} is between ${predicate.objects[0]} and ${predicate.objects[1]}`;
+    case 'order':
+      return `${capitalize(predicate.objects.join(', '))} are ordered ${AXIS_LABELS[predicate.axis]} in a row`;
+    case 'distinctCorners':
+      return `${capitalize(joinNames(predicate.objects))} are each in a different corner`;
+  }
+};
+
+// Render a whole task for the UI and the vision-model prompt
+export const describeTask = (spec: TaskSpec): string => {
+  if (spec.description) return spec.description;
+  return `${spec.goals.map(describePredicate).join('. ')}.`;
+};
+
+// Render a predicate in the compact string form, e.g. `order(x-axis, [red, green, blue])`
+export const formatPredicate = (predicate: Predicate): string => {
+  switch (predicate.type) {
+    case 'near':
+    case 'touching':
+    case 'far':
+    case 'on':
+      return `${predicate.type}(${predicate.objects.join(', ')})`;
+    case 'inRegion':
+      return `inRegion(${predicate.object}, ${predicate.region})`;
+    case 'between':
+      return `between(${predicate.object}, ${predicate.objects.join(', ')})`;
+    case 'order':
+      return `order(${predicate.axis}-axis, [${predicate.objects.join(', ')}])`;
+    case 'distinctCorners':
+      return `distinctCorners([${predicate.objects.join(', ')}])`;
+  }
+};
+
+// Names are checked against a scene when the task is verified, since a spec is not tied to one scene
+const parseObjectName = (value: unknown): ObjectName => {
+  if (typeof value !== 'string' || !/^[a-z][a-z0-9_]*$/i.test(value)) {
+    throw new Error(`Invalid task spec: invalid object name "${String(value)}"`);
+  }
+  return value;
+};
+
+const parseObjectList = (value: unknown, minLength: number): ObjectName[] => {
+  if (!Array.isArray(value) || value.length < minLength) {
+    throw new Error(`Invalid task spec: expected a list of at least ${minLength} objects`);
+  }
+  return value.map(parseObjectName);
+};
+
+const parseObjectPair = (value: unknown): [ObjectName, ObjectName] => {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new Error('Invalid task spec: expected exactly 2 objects');
+  }
+  return [parseObjectName(value[0]), parseObjectName(value[1])];
+};
+
+const parseRegion = (value: unknown): Region => {
+  if (typeof value !== 'string' || !REGION_LIST.includes(value as Region)) {
+    throw new Error(`Invalid task spec: unknown region "${String(value)}"`);
+  }
+  return value as Region;
+};
+
+const parseAxis = (value: unknown): Axis => {
+  const axis = typeof value === 'string' ? value.replace(/-axis$/, '') : value;
+  if (axis !== 'x' && axis !== 'z') {
+    throw new Error(`Invalid task spec: unknown axis "${String(value)}"`);
+  }
+  return axis;
+};
+
+// Split compact arguments on top-level commas: "x-axis, [red, green]" → ["x-axis", "[red, green]"]
+const splitArguments = (text: string): string[] => {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '[') depth++;
+    if (char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) args.push(current.trim());
+
+  return args;
+};
+
+const parseCompactValue = (text: string): string | string[] => {
+  if (text.startsWith('[') && text.endsWith(']')) {
+    return splitArguments(text.slice(1, -1));
+  }
+  return text;
+};
+
+// Parse the compact string form, e.g. `near(red, green)` or `inRegion(blue, frontEdge)`
+export const parseCompactPredicate = (text: string): Predicate => {
+  const match = text.trim().match(/^(\w+)\s*\((.*)\)$/);
+  if (!match) {
+    throw new Error(`Invalid task spec: cannot parse predicate "${text}"`);
+  }
+
+  const [, type, argText] = match;
+  const args = splitArguments(argText).map(parseCompactValue);
+
+  switch (type) {
+    case 'near':
+    case 'touching':
+    case 'far':
+    case 'on':
+      return parsePredicate({ type, objects: args });
+    case 'inRegion':
+      return parsePredicate({ type, object: args[0], region: args[1] });
+    case 'between':
+      return parsePredicate({ type, object: args[0], objects: args.slice(1) });
+    case 'order':
+      return parsePredicate({ type, axis: args[0], objects: args[1] });
+    case 'distinctCorners':
+      return parsePredicate({ type, objects: args[0] });
+    default:
+      throw new Error(`Invalid task spec: unknown predicate "${type}"`);
+  }
+};
+
+// Validate a predicate given either as a JSON object or as a compact string
+export const parsePredicate = (value: unknown): Predicate => {
+  if (typeof value === 'string') return parseCompactPredicate(value);
+
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Invalid task spec: predicate must be an object or a string');
+  }
+
+  const raw = value as Record<string, unknown>;
+  switch (raw.type) {
+    case 'near':
+    case 'touching':
+    case 'far':
+    case 'on':
+      return { type: raw.type, objects: parseObjectPair(raw.objects) };
+    case 'inRegion':
+      return { type: 'inRegion', object: parseObjectName(raw.object), region: parseRegion(raw.region) };
+    case 'between':
+      return { type: 'between', object: parseObjectName(raw.object), objects: parseObjectPair(raw.objects) };
+    case 'order':
+      return { type: 'order', axis: parseAxis(raw.axis), objects: parseObjectList(raw.objects, 2) };
+    case 'distinctCorners':
+      return { type: 'distinctCorners', objects: parseObjectList(raw.objects, 2) };
+    default:
+      throw new Error(`Invalid task spec: unknown predicate "${String(raw.type)}"`);
+  }
+};
+
+// Validate a task spec from parsed JSON or from a JSON string (e.g. the contents of a task file)
+export const parseTaskSpec = (value: unknown): TaskSpec => {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value;
+
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Invalid task spec: expected an object');
+  }
+  if (typeof raw.id !== 'string' || !raw.id) {
+    throw new Error('Invalid task spec: missing "id"');
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    throw new Error('Invalid task spec: "description" must be a string');
+  }
+  if (!Array.isArray(raw.goals) || raw.goals.length === 0) {
+    throw new Error('Invalid task spec: "goals" must be a non-empty list');
+  }
+
+  return {
+    id: raw.id,
+    description: raw.description,
+    goals: raw.goals.map(parsePredicate)
+  };
+};
+
+// Objects a spec refers to, in order of first mention
+export const referencedObjects = (spec: TaskSpec): ObjectName[] => {
+  const names = spec.goals.flatMap(goal => {
+    switch (goal.type) {
+      case 'inRegion':
+        return [goal.object];
+      case 'between':
+        return [goal.object, ...goal.objects];
+      default:
+        return goal.objects;
+    }
+  });
+  return names.filter((name, index) => names.indexOf(name) === index);
+};
+
+// Serialize a spec with goals in their typed JSON form (used for recording metadata)
+export const serializeTaskSpec = (spec: TaskSpec): string => JSON.stringify(spec);
@@ -0,0 +1,73 @@
+import { CUBE_SIZE, ObjectState, isBetween, isFar, isInRegion, isNear, isOnTop, isOrderedAlong, isTouching, verifyTask } from './taskVerifier';
+import { parseTaskSpec } from './taskSpec';
+
+const cube = (name: string, x: number, z: number, y = CUBE_SIZE / 2): ObjectState => ({ name, position: { x, y, z } });
+
+describe('geometric predicates', () => {
+  it('tells touching, near and far pairs apart', () => {
+    const red = cube('red', 0, 0);
+    expect(isTouching(red, cube('green', CUBE_SIZE, 0))).toBe(true);
+    expect(isTouching(red, cube('green', CUBE_SIZE * 1.5, 0))).toBe(false);
+    expect(isNear(red, cube('green', CUBE_SIZE * 1.5, 0))).toBe(true);
+    expect(isFar(red, cube('green', CUBE_SIZE * 1.5, 0))).toBe(false);
+    expect(isFar(red, cube('green', CUBE_SIZE * 3, 0))).toBe(true);
+  });
+
+  it('scales distances with the object size', () => {
+    const big = { ...cube('red', 0, 0), size: CUBE_SIZE * 2 };
+    expect(isTouching(big, { ...cube('green', CUBE_SIZE * 2, 0), size: CUBE_SIZE * 2 })).toBe(true);
+  });
+
+  it('requires a stacked object to rest on the one below', () => {
+    const red = cube('red', 0, 0);
+    expect(isOnTop(cube('blue', 0.1, 0, CUBE_SIZE * 1.5), red)).toBe(true);
+    expect(isOnTop(cube('blue', 0.1, 0, CUBE_SIZE * 3), red)).toBe(false);
+    expect(isOnTop(cube('blue', CUBE_SIZE, 0, CUBE_SIZE * 1.5), red)).toBe(false);
+  });
+
+  it('checks edge, corner and center regions', () => {
+    expect(isInRegion(cube('red', 0, 2), 'frontEdge')).toBe(true);
+    expect(isInRegion(cube('red', 0, -2), 'frontEdge')).toBe(false);
+    expect(isInRegion(cube('red', -2, -2), 'backLeft')).toBe(true);
+    expect(isInRegion(cube('red', 2, -2), 'backLeft')).toBe(false);
+    expect(isInRegion(cube('red', 0.3, 0.3), 'center')).toBe(true);
+    // A wider table moves the edge band outward
+    expect(isInRegion(cube('red', 2, 0), 'rightEdge', { halfWidth: 6, halfDepth: 3 })).toBe(false);
+  });
+
+  it('checks betweenness and ordering', () => {
+    expect(isBetween(cube('green', 0, 0.2), cube('red', -2, 0), cube('blue', 2, 0))).toBe(true);
+    expect(isBetween(cube('green', 3, 0), cube('red', -2, 0), cube('blue', 2, 0))).toBe(false);
+    expect(isOrderedAlong([cube('red', -2, 0), cube('green', 0, 0.2), cube('blue', 2, 0)], 'x')).toBe(true);
+    expect(isOrderedAlong([cube('red', 0, 0), cube('green', -2, 0), cube('blue', 2, 0)], 'x')).toBe(false);
+  });
+});
+
+describe('verifyTask', () => {
+  const spec = parseTaskSpec({ id: 'pair', goals: ['near(red, green)', 'inRegion(blue, frontEdge)'] });
+
+  it('reports every subgoal and passes only when all hold', () => {
+    const passing = verifyTask(spec, [cube('red', 0, 0), cube('green', 1, 0), cube('blue', 0, 2.5)]);
+    expect(passing.passed).toBe(true);
+    expect(passing.taskId).toBe('pair');
+    expect(passing.subgoals.map(subgoal => subgoal.passed)).toEqual([true, true]);
+
+    const failing = verifyTask(spec, [cube('red', 0, 0), cube('green', 1, 0), cube('blue', 0, -2.5)]);
+    expect(failing.passed).toBe(false);
+    expect(failing.subgoals.map(subgoal => subgoal.passed)).toEqual([true, false]);
+    expect(failing.subgoals[1].description).toBe('Blue is in the front edge');
+  });
+
+  it('rejects tasks about objects that are not in the scene', () => {
+    expect(() => verifyTask(spec, [cube('red', 0, 0), cube('green', 1, 0)])).toThrow('Object "blue" is not in the scene');
+  });
+
+  it('does not resolve names to Object.prototype members', () => {
+    ['constructor', 'toString', 'hasOwnProperty'].forEach(name => {
+      const prototypeSpec = parseTaskSpec({ id: 'proto', goals: [`near(red, ${name})`] });
+      expect(() => verifyTask(prototypeSpec, [cube('red', 0, 0)])).toThrow(`Object "${name}" is not in the scene`);
+    });
+    const named = parseTaskSpec({ id: 'proto', goals: ['near(constructor, red)'] });
+    expect(verifyTask(named, [cube('red', 0, 0), cube('constructor', 1, 0)]).passed).toBe(true);
+  });
+});
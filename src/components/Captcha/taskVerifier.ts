@@ -0,0 +1,180 @@
+// Rule-based task verifier
+// Evaluates task spec predicates over the physics state, so results are
+// deterministic, work offline and can be used as ground-truth labels for recordings.
+
+import { Axis, ObjectName, Predicate, Region, TaskSpec, describePredicate, describeTask } from './taskSpec';
+
+export interface ObjectState {
+  name: ObjectName;
+  position: { x: number, y: number, z: number };
+  size?: number;   // Planar extent (box edge or diameter); a cube edge when omitted
+  height?: number; // Height of the object; a cube edge when omitted
+}
+
+// Half extents of the table, which is centered at the origin
+export interface TableBounds {
+  halfWidth: number; // Along x
+  halfDepth: number; // Along z
+}
+
+export interface SubgoalResult {
+  description: string;
+  passed: boolean;
+  reason?: string; // Explanation given by a model-based verifier
+}
+
+export interface TaskVerification {
+  taskId: string;
+  task: string; // Natural-language rendering of the spec
+  passed: boolean;
+  subgoals: SubgoalResult[];
+}
+
+// Default table geometry in Three.js units (6x6 table centered at the origin)
+// Camera looks from +Z, so +Z is the front edge and +X is the right side
+export const TABLE_HALF_SIZE = 3;
+export const CUBE_SIZE = 0.75;
+export const DEFAULT_TABLE_BOUNDS: TableBounds = { halfWidth: TABLE_HALF_SIZE, halfDepth: TABLE_HALF_SIZE };
+
+// Distance thresholds (center to center, measured on the table plane), for a pair of cubes.
+// Other objects scale them by the mean size of the pair.
+export const TOUCH_DISTANCE = CUBE_SIZE * 1.3;   // Faces in contact, with some slack for rotation
+export const NEAR_DISTANCE = CUBE_SIZE * 2;      // Close enough to count as "together"
+export const FAR_DISTANCE = CUBE_SIZE * 2.5;     // Clearly separated
+export const EDGE_MARGIN_FRACTION = 0.5;         // Share of the half table that counts as "near" an edge
+export const STACK_HEIGHT_TOLERANCE = 0.25;      // Share of the top object's height its rest height may be off by
+
+const heightOf = (obj: ObjectState): number => obj.height ?? CUBE_SIZE;
+
+const sizeOf = (obj: ObjectState): number => obj.size ?? CUBE_SIZE;
+
+const pairScale = (a: ObjectState, b: ObjectState): number => (sizeOf(a) + sizeOf(b)) / 2 / CUBE_SIZE;
+
+const CORNER_REGIONS: Region[] = ['frontLeft', 'frontRight', 'backLeft', 'backRight'];
+
+// Planar distance between two objects (height is ignored)
+export const planarDistance = (a: ObjectState, b: ObjectState): number => {
+  return Math.sqrt(Math.pow(a.position.x - b.position.x, 2) + Math.pow(a.position.z - b.position.z, 2));
+};
+
+export const isTouching = (a: ObjectState, b: ObjectState): boolean => planarDistance(a, b) <= TOUCH_DISTANCE * pairScale(a, b);
+
+export const isNear = (a: ObjectState, b: ObjectState): boolean => planarDistance(a, b) <= NEAR_DISTANCE * pairScale(a, b);
+
+export const isFar = (a: ObjectState, b: ObjectState): boolean => planarDistance(a, b) >= FAR_DISTANCE * pairScale(a, b);
+
+// True if `top` rests on `bottom`: centered over its footprint, one half-height above its top face
+export const isOnTop = (top: ObjectState, bottom: ObjectState): boolean => {
+  const restHeight = bottom.position.y + (heightOf(bottom) + heightOf(top)) / 2;
+  return planarDistance(top, bottom) <= sizeOf(bottom) / 2
+    && Math.abs(top.position.y - restHeight) <= heightOf(top) * STACK_HEIGHT_TOLERANCE;
+};
+
+export const isInRegion = (obj: ObjectState, region: Region, table: TableBounds = DEFAULT_TABLE_BOUNDS): boolean => {
+  const { x, z } = obj.position;
+  const edgeX = table.halfWidth * (1 - EDGE_MARGIN_FRACTION);
+  const edgeZ = table.halfDepth * (1 - EDGE_MARGIN_FRACTION);
+
+  switch (region) {
+    case 'center':
+      // Within one object width of the table center
+      return Math.sqrt(x * x + z * z) <= sizeOf(obj);
+    case 'frontEdge':
+      return z >= edgeZ;
+    case 'backEdge':
+      return z <= -edgeZ;
+    case 'leftEdge':
+      return x <= -edgeX;
+    case 'rightEdge':
+      return x >= edgeX;
+    case 'frontLeft':
+      return z >= edgeZ && x <= -edgeX;
+    case 'frontRight':
+      return z >= edgeZ && x >= edgeX;
+    case 'backLeft':
+      return z <= -edgeZ && x <= -edgeX;
+    case 'backRight':
+      return z <= -edgeZ && x >= edgeX;
+  }
+};
+
+// True if `middle` lies on the segment between `a` and `b` (within one object width of the line)
+export const isBetween = (middle: ObjectState, a: ObjectState, b: ObjectState): boolean => {
+  const abX = b.position.x - a.position.x;
+  const abZ = b.position.z - a.position.z;
+  const lengthSquared = abX * abX + abZ * abZ;
+  if (lengthSquared === 0) return false;
+
+  const amX = middle.position.x - a.position.x;
+  const amZ = middle.position.z - a.position.z;
+  const t = (amX * abX + amZ * abZ) / lengthSquared;
+  if (t <= 0 || t >= 1) return false;
+
+  const offsetX = amX - t * abX;
+  const offsetZ = amZ - t * abZ;
+  return Math.sqrt(offsetX * offsetX + offsetZ * offsetZ) <= sizeOf(middle);
+};
+
+// True if the objects are ordered along the axis and roughly share a row across it
+export const isOrderedAlong = (objects: ObjectState[], axis: Axis): boolean => {
+  const crossAxis: Axis = axis === 'x' ? 'z' : 'x';
+  const size = Math.max(...objects.map(sizeOf));
+
+  for (let i = 1; i < objects.length; i++) {
+    if (objects[i].position[axis] - objects[i - 1].position[axis] < size * 0.5) return false;
+  }
+  const across = objects.map(obj => obj.position[crossAxis]);
+  return Math.max(...across) - Math.min(...across) <= size;
+};
+
+const cornerOf = (obj: ObjectState, table: TableBounds): Region | null => {
+  return CORNER_REGIONS.find(region => isInRegion(obj, region, table)) ?? null;
+};
+
+// A Map, so names such as `constructor` cannot resolve to Object.prototype members
+type ObjectsByName = Map<ObjectName, ObjectState>;
+
+const evaluatePredicate = (predicate: Predicate, objects: ObjectsByName, table: TableBounds): boolean => {
+  const get = (name: ObjectName) => {
+    const obj = objects.get(name);
+    if (!obj) throw new Error(`Object "${name}" is not in the scene`);
+    return obj;
+  };
+
+  switch (predicate.type) {
+    case 'near':
+      return isNear(get(predicate.objects[0]), get(predicate.objects[1]));
+    case 'touching':
+      return isTouching(get(predicate.objects[0]), get(predicate.objects[1]));
+    case 'far':
+      return isFar(get(predicate.objects[0]), get(predicate.objects[1]));
+    case 'on':
+      return isOnTop(get(predicate.objects[0]), get(predicate.objects[1]));
+    case 'inRegion':
+      return isInRegion(get(predicate.object), predicate.region, table);
+    case 'between':
+      return isBetween(get(predicate.object), get(predicate.objects[0]), get(predicate.objects[1]));
+    case 'order':
+      return isOrderedAlong(predicate.objects.map(get), predicate.axis);
+    case 'distinctCorners': {
+      const corners = predicate.objects.map(name => cornerOf(get(name), table));
+      return corners.every(corner => corner !== null) && new Set(corners).size === corners.length;
+    }
+  }
+};
+
+export const verifyTask = (spec: TaskSpec, objects: ObjectState[], table: TableBounds = DEFAULT_TABLE_BOUNDS): TaskVerification => {
+  const byName: ObjectsByName = new Map(objects.map(obj => [obj.name, obj]));
+
+  const subgoals = spec.goals.map(goal => ({
+    description: describePredicate(goal),
+    passed: evaluatePredicate(goal, byName, table)
+  }));
+
+  return {
+    taskId: spec.id,
+    task: describeTask(spec),
+    passed: subgoals.every(subgoal => subgoal.passed),
+    subgoals
+  };
+};
@@ -0,0 +1,100 @@
+import { MIN_JUDGED_PATH, TELEPORT_SPEED, analyzeTrajectory } from './trajectoryAnalysis';
+import { TrajectorySample } from './resimulation';
+import { createSeededRandom } from './sceneGenerator';
+
+const MAX_RISK = 0.5; // Server default
+
+const sample = (timestamp: number, x: number, z: number, pointerDown = true): TrajectorySample => ({
+  timestamp, position: { x, y: 0.3, z }, pointerDown
+});
+
+// Straight line at constant speed, sampled every 100 ms, with pointer events every 16 ms exactly
+const scripted = (length: number, duration = 1000) => {
+  const steps = duration / 100;
+  const trajectory = Array.from({ length: steps + 1 }, (_, i) => sample(i * 100, -length / 2 + length * i / steps, 0));
+  const eventTimes = Array.from({ length: duration / 16 }, (_, i) => i * 16);
+  return { trajectory, eventTimes };
+};
+
+// Curved drag that speeds up and slows down, stops for a moment and corrects its aim, with jittery events
+const humanLike = (seed: number) => {
+  const random = createSeededRandom(seed);
+  const trajectory: TrajectorySample[] = [sample(0, -1.5, 0.5, false)];
+  let t = 0;
+  let x = -1.5;
+  let z = 0.5;
+  const move = (dx: number, dz: number) => {
+    t += 80 + random() * 40;
+    x += dx;
+    z += dz;
+    trajectory.push(sample(t, x, z));
+  };
+  for (let i = 0; i < 12; i++) {
+    const speed = Math.sin((i + 0.5) / 12 * Math.PI) * 0.3 * (0.8 + random() * 0.4);
+    move(speed, -speed * (0.6 - i / 15) + (random() - 0.5) * 0.03);
+  }
+  for (let i = 0; i < 4; i++) move(0, 0);
+  move(0.08, 0.02);
+  move(-0.06, -0.01);
+  for (let i = 0; i < 6; i++) move(0.1 + random() * 0.1, 0.05 * random());
+  trajectory.push(sample(t + 100, x, z, false));
+
+  const eventTimes: number[] = [];
+  for (let time = 0; time < t; time += 10 + random() * 14) eventTimes.push(time);
+  return { trajectory, eventTimes };
+};
+
+describe('analyzeTrajectory', () => {
+  it('passes human-like drags', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const { trajectory, eventTimes } = humanLike(seed);
+      const analysis = analyzeTrajectory(trajectory, eventTimes);
+      expect(analysis.features.teleports).toBe(0);
+      expect(analysis.features.pauses).toBeGreaterThan(0);
+      expect(analysis.signals).toEqual([]);
+      expect(analysis.risk).toBeLessThanOrEqual(MAX_RISK);
+    }
+  });
+
+  it('flags a straight, constant-speed drag with metronome timing', () => {
+    const { trajectory, eventTimes } = scripted(2);
+    const analysis = analyzeTrajectory(trajectory, eventTimes);
+    expect(analysis.signals).toEqual([
+      'Perfectly straight drags', 'Constant drag speed', 'No pauses or corrections', 'Metronome-like pointer event timing'
+    ]);
+    expect(analysis.risk).toBeGreaterThan(MAX_RISK);
+  });
+
+  it('judges drags from the minimum length on', () => {
+    [MIN_JUDGED_PATH, 1].forEach(length => {
+      const { trajectory, eventTimes } = scripted(length);
+      expect(analyzeTrajectory(trajectory, eventTimes).features.pathLength).toBeCloseTo(length, 9);
+      expect(analyzeTrajectory(trajectory, eventTimes).risk).toBeGreaterThan(MAX_RISK);
+    });
+  });
+
+  it('flags a script that defeats any one signal', () => {
+    const { trajectory, eventTimes } = scripted(2);
+    const jittered = eventTimes.map((time, i) => time + (i % 3) * 5);
+    const curved = trajectory.map(s => ({ ...s, position: { ...s.position, z: Math.sin(s.position.x) * 0.5 } }));
+    const varied = trajectory.map(s => ({ ...s, position: { ...s.position, x: s.position.x * Math.abs(s.position.x) } }));
+    [analyzeTrajectory(trajectory, jittered), analyzeTrajectory(curved, eventTimes), analyzeTrajectory(varied, eventTimes)]
+      .forEach(analysis => expect(analysis.risk).toBeGreaterThan(MAX_RISK));
+  });
+
+  it('disqualifies an arm that never moves', () => {
+    const { eventTimes } = humanLike(1);
+    const analysis = analyzeTrajectory([sample(0, -1.5, 0.5, false), sample(1000, -1.5, 0.5, false)], eventTimes);
+    expect(analysis.signals).toEqual(['No arm movement']);
+    expect(analysis.risk).toBeGreaterThanOrEqual(MAX_RISK);
+  });
+
+  it('flags a single jump while dragging', () => {
+    // 4 units in 16 ms
+    const trajectory = [sample(0, -2, 0), sample(16, 2, 0), sample(200, 2.1, 0.3)];
+    const analysis = analyzeTrajectory(trajectory);
+    expect(analysis.features.teleports).toBe(1);
+    expect(analysis.features.peakSpeed).toBeLessThan(TELEPORT_SPEED);
+    expect(analysis.risk).toBeGreaterThan(MAX_RISK);
+  });
+});
@@ -0,0 +1,216 @@
+// Bot-detection signals from interaction dynamics
+// Solving the task says nothing about who solved it: a script that teleports the arm passes as well.
+// Human drags have uneven speed, pauses, small corrections and jittery event timing; scripted input
+// tends to jump, move in perfectly straight lines at constant speed, or fire events like a metronome.
+// The risk score combines these signals (0 = human-like, 1 = bot-like). It is a heuristic to rank
+// and flag attempts, not proof.
+
+import { TrajectorySample } from './resimulation';
+
+export interface TrajectoryFeatures {
+  duration: number;            // Time covered by the trajectory (ms)
+  dragTime: number;            // Time spent with the pointer pressed (ms)
+  presses: number;             // Pointer presses (each one may jump the arm to the pressed point)
+  pathLength: number;          // Planar distance travelled by the arm while dragging (units)
+  straightness: number;        // Displacement / path length per drag, weighted by length (1 = straight line)
+  meanSpeed: number;           // units/s, over moving intervals
+  peakSpeed: number;           // units/s
+  speedVariation: number;      // Coefficient of variation of the speed over moving intervals
+  meanAcceleration: number;    // Mean |dv/dt| (units/s²)
+  meanJerk: number;            // Mean |da/dt| (units/s³)
+  teleports: number;           // Jumps faster than TELEPORT_SPEED while dragging
+  pauses: number;              // Still periods of at least PAUSE_DURATION while dragging
+  microCorrections: number;    // Short moves that reverse direction
+  eventTimingVariation: number | null; // Coefficient of variation of pointer event intervals (null: too few events)
+}
+
+export interface TrajectoryAnalysis {
+  features: TrajectoryFeatures;
+  signals: string[]; // Human-readable reasons that raised the risk
+  risk: number;      // 0..1
+}
+
+// Faster than any drag across the 400px canvas (the table is 6 units wide)
+export const TELEPORT_SPEED = 80;
+// Below this the arm counts as still (units/s)
+const STILL_SPEED = 0.05;
+export const PAUSE_DURATION = 250;
+// Moves shorter than this that reverse direction count as corrections (units)
+const MICRO_DISTANCE = 0.15;
+// Pointer events needed before their timing is judged
+export const MIN_TIMING_EVENTS = 10;
+// Less drag than this counts as no interaction (units)
+export const MIN_INTERACTION_PATH = 0.1;
+// Drag length needed before its shape and speed are judged (units; two cube widths)
+export const MIN_JUDGED_PATH = 0.5;
+
+// Risk contribution of each signal. No arm movement at all is disqualifying. A jump alone, or any two
+// of the straight, constant-speed and metronome signals, push the risk past the default MAX_RISK of 0.5,
+// so a script has to defeat several of them at once; a single weak signal (which humans show too) stays below it.
+const RISK_WEIGHTS = {
+  teleport: 0.6,
+  straight: 0.3,
+  constantSpeed: 0.3,
+  noCorrections: 0.15,
+  regularTiming: 0.3,
+  noInteraction: 1
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const coefficientOfVariation = (values: number[]): number => {
+  const average = mean(values);
+  if (values.length < 2 || average === 0) return 0;
+  const variance = mean(values.map(value => (value - average) ** 2));
+  return Math.sqrt(variance) / average;
+};
+
+interface Move {
+  dt: number;      // s
+  dx: number;
+  dz: number;
+  distance: number;
+  speed: number;   // units/s
+  dragging: boolean;
+}
+
+// `trajectory` is the arm in world space; `eventTimes` are the pointer event times (ms), when known
+export const analyzeTrajectory = (trajectory: TrajectorySample[], eventTimes: number[] = []): TrajectoryAnalysis => {
+  const moves: Move[] = [];
+  let presses = 0;
+  for (let i = 1; i < trajectory.length; i++) {
+    const from = trajectory[i - 1];
+    const to = trajectory[i];
+    const dt = (to.timestamp - from.timestamp) / 1000;
+    if (dt <= 0) continue;
+    if (to.pointerDown && !from.pointerDown) presses++;
+
+    const dx = to.position.x - from.position.x;
+    const dz = to.position.z - from.position.z;
+    const distance = Math.hypot(dx, dz);
+    // Samples without pointer state are treated as one continuous drag
+    const dragging = (from.pointerDown ?? true) && (to.pointerDown ?? true);
+    moves.push({ dt, dx, dz, distance, speed: distance / dt, dragging });
+  }
+
+  const dragMoves = moves.filter(move => move.dragging);
+  const teleports = dragMoves.filter(move => move.speed > TELEPORT_SPEED).length;
+  // Jumps are excluded from the motion profile so one teleport does not dominate it
+  const smoothMoves = dragMoves.filter(move => move.speed <= TELEPORT_SPEED);
+  const moving = smoothMoves.filter(move => move.speed > STILL_SPEED);
+  const speeds = moving.map(move => move.speed);
+
+  const accelerations: number[] = [];
+  for (let i = 1; i < smoothMoves.length; i++) {
+    accelerations.push((smoothMoves[i].speed - smoothMoves[i - 1].speed) / smoothMoves[i].dt);
+  }
+  const jerks: number[] = [];
+  for (let i = 1; i < accelerations.length; i++) {
+    jerks.push(Math.abs(accelerations[i] - accelerations[i - 1]) / smoothMoves[i + 1].dt);
+  }
+
+  // Drags split at releases and still periods; pauses are still periods inside a drag
+  let pauses = 0;
+  let stillTime = 0;
+  let runLength = 0;
+  let runDx = 0;
+  let runDz = 0;
+  let weightedStraightness = 0;
+  const closeRun = () => {
+    if (runLength > 0) {
+      weightedStraightness += Math.hypot(runDx, runDz);
+    }
+    runLength = 0;
+    runDx = 0;
+    runDz = 0;
+  };
+  moves.forEach(move => {
+    if (!move.dragging || move.speed > TELEPORT_SPEED) {
+      closeRun();
+      stillTime = 0;
+      return;
+    }
+    if (move.speed <= STILL_SPEED) {
+      stillTime += move.dt * 1000;
+      if (stillTime >= PAUSE_DURATION && stillTime - move.dt * 1000 < PAUSE_DURATION) {
+        pauses++;
+        closeRun();
+      }
+      return;
+    }
+    stillTime = 0;
+    runLength += move.distance;
+    runDx += move.dx;
+    runDz += move.dz;
+  });
+  closeRun();
+  const pathLength = smoothMoves.reduce((sum, move) => sum + move.distance, 0);
+
+  let microCorrections = 0;
+  for (let i = 1; i < moving.length; i++) {
+    const a = moving[i - 1];
+    const b = moving[i];
+    const reversed = a.dx * b.dx + a.dz * b.dz < -0.5 * a.distance * b.distance; // More than 120°
+    if (reversed && a.distance < MICRO_DISTANCE && b.distance < MICRO_DISTANCE) {
+      microCorrections++;
+    }
+  }
+
+  const intervals: number[] = [];
+  for (let i = 1; i < eventTimes.length; i++) {
+    intervals.push(eventTimes[i] - eventTimes[i - 1]);
+  }
+
+  const features: TrajectoryFeatures = {
+    duration: trajectory.length > 0 ? trajectory[trajectory.length - 1].timestamp - trajectory[0].timestamp : 0,
+    dragTime: dragMoves.reduce((sum, move) => sum + move.dt, 0) * 1000,
+    presses,
+    pathLength,
+    straightness: pathLength > 0 ? weightedStraightness / pathLength : 0,
+    meanSpeed: mean(speeds),
+    peakSpeed: speeds.length > 0 ? Math.max(...speeds) : 0,
+    speedVariation: coefficientOfVariation(speeds),
+    meanAcceleration: mean(accelerations.map(Math.abs)),
+    meanJerk: mean(jerks),
+    teleports,
+    pauses,
+    microCorrections,
+    eventTimingVariation: eventTimes.length >= MIN_TIMING_EVENTS ? coefficientOfVariation(intervals) : null
+  };
+
+  return { features, ...scoreFeatures(features) };
+};
+
+export const scoreFeatures = (features: TrajectoryFeatures): { signals: string[], risk: number } => {
+  const signals: string[] = [];
+  let risk = 0;
+
+  if (features.pathLength < MIN_INTERACTION_PATH) {
+    signals.push('No arm movement');
+    risk += RISK_WEIGHTS.noInteraction;
+  }
+  if (features.teleports > 0) {
+    signals.push(`${features.teleports} jump(s) while dragging`);
+    // The arm follows the pointer continuously during a drag, so a single jump is already suspicious
+    risk += RISK_WEIGHTS.teleport;
+  }
+  const judged = features.pathLength >= MIN_JUDGED_PATH;
+  if (judged && features.straightness > 0.995) {
+    signals.push('Perfectly straight drags');
+    risk += RISK_WEIGHTS.straight;
+  }
+  if (judged && features.speedVariation < 0.1) {
+    signals.push('Constant drag speed');
+    risk += RISK_WEIGHTS.constantSpeed;
+  }
+  if (judged && features.pauses === 0 && features.microCorrections === 0) {
+    signals.push('No pauses or corrections');
+    risk += RISK_WEIGHTS.noCorrections;
+  }
+  if (features.eventTimingVariation !== null && features.eventTimingVariation < 0.05) {
+    signals.push('Metronome-like pointer event timing');
+    risk += RISK_WEIGHTS.regularTiming;
+  }
+
+  return { signals, risk: Math.min(1, risk) };
+};
@@ -0,0 +1,144 @@
+import { EpisodeUpload, UploadQueue, UploadStatus, createUploadQueue, retryDelay } from './uploadQueue';
+
+const ENDPOINT = 'http://localhost:8788/episodes';
+
+const upload = (episodeId: string, episode = '{"type":"episode"}\n'): EpisodeUpload => ({ episodeId, episode, screenshot: null });
+
+// Collection endpoint answering with these statuses in turn (the last one repeats)
+const mockEndpoint = (statuses: number[]) => {
+  const bodies: string[] = [];
+  global.fetch = jest.fn(async (_url: RequestInfo, init?: RequestInit) => {
+    const body = String(init?.body);
+    bodies.push(body);
+    const status = statuses[Math.min(bodies.length, statuses.length) - 1];
+    const answer = status === 200 ? { episodeId: JSON.parse(body).episodeId, status: 'stored' } : { error: `status ${status}` };
+    return { ok: status === 200, status, statusText: 'Error', text: async () => JSON.stringify(answer) } as Response;
+  }) as typeof fetch;
+  return bodies;
+};
+
+// Resolves once `condition` holds (the queue sends in the background, e.g. after its start-up pass)
+const until = async (condition: () => boolean) => {
+  for (let waited = 0; !condition(); waited += 5) {
+    if (waited > 2000) throw new Error('Timed out waiting for the upload queue');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('createUploadQueue', () => {
+  const originalFetch = global.fetch;
+  let queue: UploadQueue | null = null;
+  let statuses: UploadStatus[] = [];
+
+  const lastStatus = () => statuses[statuses.length - 1];
+  const idle = (pending: number) => until(() => lastStatus()?.uploading === false && lastStatus().pending === pending);
+
+  const createQueue = () => {
+    statuses = [];
+    queue = createUploadQueue({ endpoint: ENDPOINT, onStatus: status => statuses.push(status), baseDelay: 1000 });
+    return queue;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    queue?.dispose();
+    queue = null;
+    global.fetch = originalFetch;
+    delete (window as { indexedDB?: unknown }).indexedDB;
+    jest.restoreAllMocks();
+  });
+
+  it('keeps pending uploads in memory without IndexedDB and posts them', async () => {
+    const bodies = mockEndpoint([200]);
+    await createQueue().enqueue(upload('episode-1'));
+    await until(() => bodies.length === 1);
+    await idle(0);
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('IndexedDB is unavailable'), expect.anything());
+    expect(JSON.parse(bodies[0])).toEqual(upload('episode-1'));
+    expect(lastStatus().lastError).toBeNull();
+  });
+
+  it('falls back to memory when IndexedDB fails to open later', async () => {
+    // Like Firefox private windows: open() returns a request that fails asynchronously
+    (window as { indexedDB?: unknown }).indexedDB = {
+      open: () => {
+        const request: Partial<IDBOpenDBRequest> = { error: new DOMException('Blocked', 'InvalidStateError') };
+        setTimeout(() => request.onerror?.call(request as IDBOpenDBRequest, new Event('error')));
+        return request;
+      }
+    };
+    const bodies = mockEndpoint([200]);
+    await createQueue().enqueue(upload('episode-1'));
+    await until(() => bodies.length === 1);
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('IndexedDB is unavailable'), expect.any(DOMException));
+  });
+
+  it('keeps failed uploads and sends them again', async () => {
+    const bodies = mockEndpoint([503, 200]);
+    const pending = createQueue();
+    await pending.enqueue(upload('episode-1'));
+    await until(() => bodies.length === 1);
+    await idle(1);
+    expect(lastStatus().lastError).toBe('Collection server error: status 503');
+
+    await pending.flush();
+    await idle(0);
+    expect(bodies).toHaveLength(2);
+    expect(lastStatus().lastError).toBeNull();
+  });
+
+  it('waits for the backoff before retrying', async () => {
+    const bodies = mockEndpoint([503]);
+    const pending = createQueue();
+    await pending.enqueue(upload('episode-1'));
+    await idle(1);
+    await pending.enqueue(upload('episode-2'));
+    await until(() => bodies.length === 2);
+    await idle(2);
+
+    // Only episode-2 was due; episode-1 waits for its retry delay
+    expect(bodies.map(body => JSON.parse(body).episodeId)).toEqual(['episode-1', 'episode-2']);
+  });
+
+  it('drops uploads the endpoint rejects for good', async () => {
+    const bodies = mockEndpoint([400]);
+    const pending = createQueue();
+    await pending.enqueue(upload('episode-1'));
+    await until(() => bodies.length === 1);
+    await idle(0);
+    await pending.flush();
+
+    expect(bodies).toHaveLength(1);
+    expect(lastStatus().lastError).toBe('Collection server error: status 400');
+  });
+
+  it('keeps one pending version per episode', async () => {
+    const bodies = mockEndpoint([503, 503, 200]);
+    const pending = createQueue();
+    await pending.enqueue(upload('episode-1', 'first'));
+    await idle(1);
+    await pending.enqueue(upload('episode-1', 'verified'));
+    await idle(1);
+
+    await pending.flush();
+    await idle(0);
+    expect(JSON.parse(bodies[bodies.length - 1]).episode).toBe('verified');
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles from the base delay up to the cap, with jitter in the upper half', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect([1, 2, 3].map(attempts => retryDelay(attempts, 1000, 3000))).toEqual([1000, 2000, 3000]);
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(retryDelay(1, 1000, 3000)).toBe(500);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,269 @@
+// Upload queue for crowd data collection
+// Every completed episode is posted to a collection endpoint. Pending uploads are kept in IndexedDB,
+// so episodes recorded offline (or while the endpoint is down) survive a page reload and are sent
+// later with exponential backoff. The queue holds one entry per episode ID: enqueuing an episode
+// again (e.g. after it was verified) replaces the pending version, and the receiver stores one file
+// per episode, so retries and re-uploads never create duplicates.
+
+export interface EpisodeUpload {
+  episodeId: string;
+  episode: string;           // JSON-lines episode (see episodeExport.ts)
+  screenshot: string | null; // PNG data URL of the final scene
+}
+
+// Answer of the collection endpoint
+export interface UploadReceipt {
+  episodeId: string;
+  status: 'stored' | 'duplicate'; // duplicate: the same episode content was already stored
+}
+
+interface QueueEntry extends EpisodeUpload {
+  enqueuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;      // ms since epoch
+  lastError: string | null;
+}
+
+export interface UploadStatus {
+  pending: number;
+  uploading: boolean;
+  lastError: string | null;
+}
+
+export interface UploadQueue {
+  enqueue: (upload: EpisodeUpload) => Promise<void>;
+  flush: () => Promise<void>; // Send every pending upload now, ignoring the backoff
+  dispose: () => void;
+}
+
+export interface UploadQueueOptions {
+  endpoint: string;                          // URL that receives POSTed episodes
+  onStatus?: (status: UploadStatus) => void;
+  baseDelay?: number;                        // First retry delay (ms)
+  maxDelay?: number;                         // Backoff cap (ms)
+}
+
+export const DEFAULT_RETRY_DELAY = 2000;
+export const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// Storage of pending uploads, keyed by episode ID
+interface UploadStore {
+  put: (entry: QueueEntry) => Promise<void>;
+  delete: (episodeId: string) => Promise<void>;
+  list: () => Promise<QueueEntry[]>;
+}
+
+const DB_NAME = 'robot-captcha';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending-uploads';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'episodeId' });
+  };
+  return requestResult(request);
+};
+
+const createIndexedDbStore = (db: IDBDatabase): UploadStore => {
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    return requestResult(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    put: async (entry) => {
+      await run('readwrite', store => store.put(entry));
+    },
+    delete: async (episodeId) => {
+      await run('readwrite', store => store.delete(episodeId));
+    },
+    list: () => run('readonly', store => store.getAll() as IDBRequest<QueueEntry[]>)
+  };
+};
+
+// Fallback without IndexedDB (private browsing in some browsers): pending uploads last for the page only
+const createMemoryStore = (): UploadStore => {
+  const entries = new Map<string, QueueEntry>();
+  return {
+    put: async (entry) => {
+      entries.set(entry.episodeId, entry);
+    },
+    delete: async (episodeId) => {
+      entries.delete(episodeId);
+    },
+    list: async () => Array.from(entries.values())
+  };
+};
+
+// IndexedDB once it is open; memory when it is missing, throws, or fails to open later
+// (Firefox private windows reject open() asynchronously)
+const createUploadStore = (): UploadStore => {
+  const store = (async (): Promise<UploadStore> => {
+    try {
+      return createIndexedDbStore(await openDatabase());
+    } catch (err) {
+      console.warn('⚠️ IndexedDB is unavailable; pending uploads last for this page only:', err);
+      return createMemoryStore();
+    }
+  })();
+
+  return {
+    put: async (entry) => (await store).put(entry),
+    delete: async (episodeId) => (await store).delete(episodeId),
+    list: async () => (await store).list()
+  };
+};
+
+// Client errors other than timeouts and rate limits will not go away by retrying
+const isPermanentFailure = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+class PermanentUploadError extends Error {}
+
+const postUpload = async (endpoint: string, upload: EpisodeUpload): Promise<UploadReceipt> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    // Only the upload itself, not the queue bookkeeping
+    body: JSON.stringify({ episodeId: upload.episodeId, episode: upload.episode, screenshot: upload.screenshot })
+  });
+  const text = await response.text();
+
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      message = JSON.parse(text).error || message;
+    } catch {
+      // Not a JSON error body; keep the status text
+    }
+    const ErrorClass = isPermanentFailure(response.status) ? PermanentUploadError : Error;
+    throw new ErrorClass(`Collection server error: ${message}`);
+  }
+  // A success answer that is not a receipt will not change on retry (e.g. an endpoint that is not a collector)
+  let receipt: unknown;
+  try {
+    receipt = JSON.parse(text);
+  } catch {
+    throw new PermanentUploadError('Collection server error: the response is not JSON');
+  }
+  if (typeof receipt !== 'object' || receipt === null || typeof (receipt as UploadReceipt).episodeId !== 'string') {
+    throw new PermanentUploadError('Collection server error: the response is not an upload receipt');
+  }
+  return receipt as UploadReceipt;
+};
+
+// Delay before retry number `attempts` (1-based), with jitter so many clients do not retry in lockstep
+export const retryDelay = (attempts: number, baseDelay = DEFAULT_RETRY_DELAY, maxDelay = MAX_RETRY_DELAY): number => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempts - 1));
+  return delay / 2 + Math.random() * delay / 2;
+};
+
+export const createUploadQueue = (options: UploadQueueOptions): UploadQueue => {
+  const { endpoint, onStatus, baseDelay = DEFAULT_RETRY_DELAY, maxDelay = MAX_RETRY_DELAY } = options;
+  const store = createUploadStore();
+
+  let timer: number | null = null;
+  let uploading = false;
+  let disposed = false;
+  let lastError: string | null = null;
+
+  const reportStatus = async () => {
+    if (!onStatus || disposed) return;
+    const entries = await store.list();
+    onStatus({ pending: entries.length, uploading, lastError });
+  };
+
+  const schedule = (entries: QueueEntry[]) => {
+    if (timer !== null) window.clearTimeout(timer);
+    timer = null;
+    if (disposed || entries.length === 0) return;
+    const next = Math.min(...entries.map(entry => entry.nextAttemptAt));
+    timer = window.setTimeout(() => sendInBackground(false), Math.max(0, next - Date.now()));
+  };
+
+  // False when the episode was re-enqueued with newer content while it was uploading
+  const isCurrent = async (entry: QueueEntry) => {
+    const current = (await store.list()).find(pending => pending.episodeId === entry.episodeId);
+    return current !== undefined && current.enqueuedAt === entry.enqueuedAt;
+  };
+
+  // Send the uploads that are due (all of them when `force` is set)
+  const sendDue = async (force: boolean) => {
+    if (uploading || disposed) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      // Wait for the `online` event
+      await reportStatus();
+      return;
+    }
+    uploading = true;
+    await reportStatus();
+
+    try {
+      const now = Date.now();
+      const due = (await store.list()).filter(entry => force || entry.nextAttemptAt <= now);
+      for (const entry of due) {
+        if (disposed) break;
+        try {
+          const receipt = await postUpload(endpoint, entry);
+          if (await isCurrent(entry)) {
+            await store.delete(entry.episodeId);
+          }
+          lastError = null;
+          console.log(`☁️ Episode ${receipt.episodeId} uploaded (${receipt.status})`);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Unknown error';
+          lastError = message;
+          if (!(await isCurrent(entry))) {
+            continue;
+          }
+          if (err instanceof PermanentUploadError) {
+            console.error(`❌ Episode ${entry.episodeId} rejected, dropping it: ${message}`);
+            await store.delete(entry.episodeId);
+          } else {
+            const attempts = entry.attempts + 1;
+            const delay = retryDelay(attempts, baseDelay, maxDelay);
+            console.log(`⚠️ Upload of episode ${entry.episodeId} failed (attempt ${attempts}), retrying in ${(delay / 1000).toFixed(1)}s: ${message}`);
+            await store.put({ ...entry, attempts, nextAttemptAt: Date.now() + delay, lastError: message });
+          }
+        }
+      }
+    } finally {
+      uploading = false;
+    }
+
+    schedule(await store.list());
+    await reportStatus();
+  };
+
+  // Sends nobody awaits (timer, `online` event, start-up) report their errors here
+  const sendInBackground = (force: boolean) => {
+    sendDue(force).catch(err => console.error('Upload queue error:', err));
+  };
+
+  const onOnline = () => sendInBackground(true);
+  window.addEventListener('online', onOnline);
+
+  // Uploads left over from earlier page loads
+  sendInBackground(false);
+
+  return {
+    enqueue: async (upload) => {
+      const now = Date.now();
+      await store.put({ ...upload, enqueuedAt: now, attempts: 0, nextAttemptAt: now, lastError: null });
+      console.log(`📮 Episode ${upload.episodeId} queued for upload`);
+      await sendDue(false);
+    },
+    flush: () => sendDue(true),
+    dispose: () => {
+      disposed = true;
+      if (timer !== null) window.clearTimeout(timer);
+      window.removeEventListener('online', onOnline);
+    }
+  };
+};
@@ -0,0 +1,87 @@
+import { parseUrdf, resolveUrdfMesh, urdfChain } from './urdf';
+
+// Two-joint arm with a fixed gripper link and a camera on a side branch
+const ARM = `<?xml version="1.0"?>
+<robot name="two_link">
+  <material name="grey"><color rgba="0.5 0.5 0.5 1"/></material>
+  <link name="base">
+    <visual><geometry><cylinder radius="0.05" length="0.1"/></geometry><material name="grey"/></visual>
+    <collision><geometry><cylinder radius="0.05" length="0.1"/></geometry></collision>
+  </link>
+  <link name="upper">
+    <visual>
+      <origin xyz="0 0 0.1" rpy="0 0 1.5708"/>
+      <geometry><box size="0.04 0.04 0.2"/></geometry>
+      <material name="red"><color rgba="1 0 0 1"/></material>
+    </visual>
+  </link>
+  <link name="fore"><visual><geometry><mesh filename="package://two_link/meshes/fore.stl" scale="0.001 0.001 0.001"/></geometry></visual></link>
+  <link name="gripper"><collision><geometry><sphere radius="0.02"/></geometry></collision></link>
+  <link name="camera"/>
+  <joint name="shoulder" type="revolute">
+    <parent link="base"/><child link="upper"/>
+    <origin xyz="0 0 0.1"/>
+    <axis xyz="0 2 0"/>
+    <limit lower="-1.5" upper="1.5" effort="10" velocity="1"/>
+  </joint>
+  <joint name="elbow" type="continuous">
+    <parent link="upper"/><child link="fore"/>
+    <origin xyz="0 0 0.2"/>
+    <axis xyz="0 1 0"/>
+  </joint>
+  <joint name="tool" type="fixed"><parent link="fore"/><child link="gripper"/></joint>
+  <joint name="mount" type="fixed"><parent link="base"/><child link="camera"/></joint>
+</robot>`;
+
+describe('parseUrdf', () => {
+  it('reads links, geometry, materials and joints', () => {
+    const robot = parseUrdf(ARM);
+    expect(robot.name).toBe('two_link');
+    expect(robot.root).toBe('base');
+    expect(robot.links.map(link => link.name)).toEqual(['base', 'upper', 'fore', 'gripper', 'camera']);
+
+    const [base, upper, fore] = robot.links;
+    expect(base.visuals[0]).toEqual({ origin: { xyz: [0, 0, 0], rpy: [0, 0, 0] }, geometry: { type: 'cylinder', radius: 0.05, length: 0.1 }, color: '#808080' });
+    expect(base.collisions[0].color).toBeNull();
+    expect(upper.visuals[0]).toMatchObject({ origin: { xyz: [0, 0, 0.1], rpy: [0, 0, 1.5708] }, color: '#ff0000' });
+    expect(fore.visuals[0].geometry).toEqual({ type: 'mesh', filename: 'package://two_link/meshes/fore.stl', scale: [0.001, 0.001, 0.001] });
+
+    const [shoulder, elbow] = robot.joints;
+    expect(shoulder).toMatchObject({ type: 'revolute', parent: 'base', child: 'upper', axis: [0, 1, 0], limit: { lower: -1.5, upper: 1.5 } });
+    expect(elbow).toMatchObject({ type: 'continuous', limit: null, origin: { xyz: [0, 0, 0.2], rpy: [0, 0, 0] } });
+  });
+
+  it('rejects files that are not a valid robot tree', () => {
+    expect(() => parseUrdf('<robot name="x">')).toThrow('expected a <robot> XML document');
+    expect(() => parseUrdf('<robot name="x"></robot>')).toThrow('the robot has no links');
+    expect(() => parseUrdf(ARM.replace('<parent link="base"/><child link="upper"/>', '<parent link="base"/><child link="wing"/>')))
+      .toThrow('joint "shoulder" connects unknown links "base" and "wing"');
+    expect(() => parseUrdf(ARM.replace('type="continuous"', 'type="floating"'))).toThrow('unsupported type "floating"');
+    expect(() => parseUrdf(ARM.replace('lower="-1.5"', 'lower="2"'))).toThrow('lower limit above its upper limit');
+    expect(() => parseUrdf(ARM.replace('<limit lower="-1.5" upper="1.5" effort="10" velocity="1"/>', ''))).toThrow('needs a limit');
+    expect(() => parseUrdf(ARM.replace('<box size="0.04 0.04 0.2"/>', '<box size="0.04 0.2"/>'))).toThrow('"link upper.visual.box.size" must be three numbers');
+    expect(() => parseUrdf(ARM.replace('<parent link="base"/><child link="camera"/>', '<parent link="camera"/><child link="camera"/>')))
+      .toThrow('must form a single tree');
+    // The base hangs from itself, which leaves the camera as the only root
+    expect(() => parseUrdf(ARM.replace('<child link="camera"/>', '<child link="base"/>'))).toThrow('must form a single tree');
+  });
+});
+
+describe('urdfChain', () => {
+  it('follows the branch with the most movable joints', () => {
+    expect(urdfChain(parseUrdf(ARM)).map(joint => joint.name)).toEqual(['shoulder', 'elbow', 'tool']);
+  });
+
+  it('needs a movable joint', () => {
+    const rigid = ARM.replace('type="revolute"', 'type="fixed"').replace('type="continuous"', 'type="fixed"');
+    expect(() => urdfChain(parseUrdf(rigid))).toThrow('has no movable joints');
+  });
+});
+
+describe('resolveUrdfMesh', () => {
+  it('resolves package and relative paths against the robot folder', () => {
+    expect(resolveUrdfMesh('package://two_link/meshes/fore.stl', 'http://host/robots/two_link/urdf/arm.urdf'))
+      .toBe('http://host/robots/two_link/meshes/fore.stl');
+    expect(resolveUrdfMesh('meshes/fore.stl', 'http://host/robots/arm.urdf')).toBe('http://host/robots/meshes/fore.stl');
+  });
+});
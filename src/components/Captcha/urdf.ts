@@ -0,0 +1,294 @@
+// URDF robot descriptions
+// Parses the links (visual and collision geometry), joints (type, axis, origin, limits) and materials
+// of a URDF file into plain data. `urdfArm.ts` turns it into Three.js meshes, Rapier colliders and an
+// IK-driven arm. Lengths are in meters and angles in radians, as in the file; frames are z-up.
+
+import { Vector3State } from './recording';
+
+export type UrdfVector = [number, number, number];
+
+export interface UrdfOrigin {
+  xyz: UrdfVector;
+  rpy: UrdfVector; // Fixed-axis roll, pitch, yaw
+}
+
+export type UrdfGeometry =
+  | { type: 'box', size: UrdfVector }
+  | { type: 'cylinder', radius: number, length: number } // Axis along z
+  | { type: 'sphere', radius: number }
+  | { type: 'mesh', filename: string, scale: UrdfVector };  // STL, OBJ or glTF
+
+export interface UrdfShape {
+  origin: UrdfOrigin;
+  geometry: UrdfGeometry;
+  color: string | null; // CSS hex color of the visual's material (null for collisions and untinted visuals)
+}
+
+export interface UrdfLink {
+  name: string;
+  visuals: UrdfShape[];
+  collisions: UrdfShape[];
+}
+
+// Floating and planar joints are not supported
+export type UrdfJointType = 'revolute' | 'continuous' | 'prismatic' | 'fixed';
+
+export interface UrdfJoint {
+  name: string;
+  type: UrdfJointType;
+  parent: string;
+  child: string;
+  origin: UrdfOrigin;  // Child frame relative to the parent link at zero position
+  axis: UrdfVector;    // Unit axis in the joint frame
+  limit: { lower: number, upper: number } | null; // Required for revolute and prismatic joints
+}
+
+export interface UrdfRobot {
+  name: string;
+  links: UrdfLink[];
+  joints: UrdfJoint[];
+  root: string; // The only link that is not the child of a joint
+}
+
+// How a URDF robot stands in the scene, recorded with episodes in place of the built-in arm model
+export interface UrdfArmSummary {
+  urdf: string;       // Robot name
+  base: Vector3State; // Scene position of the root link
+  scale: number;      // Three.js units per URDF meter
+  joints: Array<Pick<UrdfJoint, 'name' | 'type' | 'limit'>>; // Movable joints from the root to the tip
+}
+
+const JOINT_TYPES: UrdfJointType[] = ['revolute', 'continuous', 'prismatic', 'fixed'];
+
+const ZERO_ORIGIN: UrdfOrigin = { xyz: [0, 0, 0], rpy: [0, 0, 0] };
+
+const childElements = (parent: Element, tag: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.tagName === tag);
+};
+
+const childElement = (parent: Element, tag: string): Element | null => childElements(parent, tag)[0] ?? null;
+
+const parseNumber = (value: string | null, field: string): number => {
+  const number = Number(value);
+  if (value === null || value.trim() === '' || !Number.isFinite(number)) {
+    throw new Error(`Invalid URDF: "${field}" must be a number`);
+  }
+  return number;
+};
+
+const parseVector = (value: string | null, field: string, fallback?: UrdfVector): UrdfVector => {
+  if (value === null && fallback) return fallback;
+  const parts = (value ?? '').trim().split(/\s+/).map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isFinite(part))) {
+    throw new Error(`Invalid URDF: "${field}" must be three numbers`);
+  }
+  return [parts[0], parts[1], parts[2]];
+};
+
+const parseOrigin = (element: Element | null, field: string): UrdfOrigin => {
+  if (!element) return ZERO_ORIGIN;
+  return {
+    xyz: parseVector(element.getAttribute('xyz'), `${field}.origin.xyz`, [0, 0, 0]),
+    rpy: parseVector(element.getAttribute('rpy'), `${field}.origin.rpy`, [0, 0, 0])
+  };
+};
+
+// `rgba` components (0..1) to a CSS hex color (alpha is ignored)
+const rgbaToHex = (value: string | null, field: string): string => {
+  const parts = (value ?? '').trim().split(/\s+/).map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) {
+    throw new Error(`Invalid URDF: "${field}" must be four numbers`);
+  }
+  const hex = parts.slice(0, 3).map(part => Math.round(Math.max(0, Math.min(1, part)) * 255).toString(16).padStart(2, '0'));
+  return `#${hex.join('')}`;
+};
+
+const parseGeometry = (element: Element | null, field: string): UrdfGeometry => {
+  const shape = element?.children[0];
+  if (!shape) {
+    throw new Error(`Invalid URDF: "${field}" has no geometry`);
+  }
+  switch (shape.tagName) {
+    case 'box':
+      return { type: 'box', size: parseVector(shape.getAttribute('size'), `${field}.box.size`) };
+    case 'cylinder':
+      return {
+        type: 'cylinder',
+        radius: parseNumber(shape.getAttribute('radius'), `${field}.cylinder.radius`),
+        length: parseNumber(shape.getAttribute('length'), `${field}.cylinder.length`)
+      };
+    case 'sphere':
+      return { type: 'sphere', radius: parseNumber(shape.getAttribute('radius'), `${field}.sphere.radius`) };
+    case 'mesh': {
+      const filename = shape.getAttribute('filename');
+      if (!filename) {
+        throw new Error(`Invalid URDF: "${field}.mesh" needs a filename`);
+      }
+      return { type: 'mesh', filename, scale: parseVector(shape.getAttribute('scale'), `${field}.mesh.scale`, [1, 1, 1]) };
+    }
+    default:
+      throw new Error(`Invalid URDF: unknown geometry "${shape.tagName}" in "${field}"`);
+  }
+};
+
+const parseShape = (element: Element, field: string, materials: Map<string, string>): UrdfShape => {
+  let color: string | null = null;
+  const material = childElement(element, 'material');
+  if (material) {
+    const rgba = childElement(material, 'color');
+    // A material either defines its color inline or refers to a top-level material by name
+    color = rgba ? rgbaToHex(rgba.getAttribute('rgba'), `${field}.material.color`) : materials.get(material.getAttribute('name') ?? '') ?? null;
+  }
+
+  return {
+    origin: parseOrigin(childElement(element, 'origin'), field),
+    geometry: parseGeometry(childElement(element, 'geometry'), field),
+    color
+  };
+};
+
+const parseJoint = (element: Element, links: Set<string>): UrdfJoint => {
+  const name = element.getAttribute('name');
+  if (!name) {
+    throw new Error('Invalid URDF: every joint needs a name');
+  }
+  const type = element.getAttribute('type') as UrdfJointType;
+  if (!JOINT_TYPES.includes(type)) {
+    throw new Error(`Invalid URDF: joint "${name}" has an unsupported type "${String(type)}"`);
+  }
+  const parent = childElement(element, 'parent')?.getAttribute('link') ?? '';
+  const child = childElement(element, 'child')?.getAttribute('link') ?? '';
+  if (!links.has(parent) || !links.has(child)) {
+    throw new Error(`Invalid URDF: joint "${name}" connects unknown links "${parent}" and "${child}"`);
+  }
+
+  const axis = parseVector(childElement(element, 'axis')?.getAttribute('xyz') ?? null, `joint ${name}.axis`, [1, 0, 0]);
+  const length = Math.sqrt(axis[0] * axis[0] + axis[1] * axis[1] + axis[2] * axis[2]);
+  if (length === 0) {
+    throw new Error(`Invalid URDF: joint "${name}" has a zero axis`);
+  }
+
+  let limit: UrdfJoint['limit'] = null;
+  if (type === 'revolute' || type === 'prismatic') {
+    const limitElement = childElement(element, 'limit');
+    if (!limitElement) {
+      throw new Error(`Invalid URDF: ${type} joint "${name}" needs a limit`);
+    }
+    limit = {
+      lower: parseNumber(limitElement.getAttribute('lower') ?? '0', `joint ${name}.limit.lower`),
+      upper: parseNumber(limitElement.getAttribute('upper') ?? '0', `joint ${name}.limit.upper`)
+    };
+    if (limit.lower > limit.upper) {
+      throw new Error(`Invalid URDF: joint "${name}" has a lower limit above its upper limit`);
+    }
+  }
+
+  return {
+    name,
+    type,
+    parent,
+    child,
+    origin: parseOrigin(childElement(element, 'origin'), `joint ${name}`),
+    axis: [axis[0] / length, axis[1] / length, axis[2] / length],
+    limit
+  };
+};
+
+// Parse the text of a URDF file (uses the browser's DOMParser)
+export const parseUrdf = (text: string): UrdfRobot => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const robot = xml.documentElement;
+  if (xml.getElementsByTagName('parsererror').length > 0 || robot.tagName !== 'robot') {
+    throw new Error('Invalid URDF: expected a <robot> XML document');
+  }
+
+  // Named top-level materials, referenced from visuals
+  const materials = new Map<string, string>();
+  childElements(robot, 'material').forEach(material => {
+    const rgba = childElement(material, 'color');
+    const name = material.getAttribute('name');
+    if (name && rgba) {
+      materials.set(name, rgbaToHex(rgba.getAttribute('rgba'), `material ${name}.color`));
+    }
+  });
+
+  const links: UrdfLink[] = childElements(robot, 'link').map(element => {
+    const name = element.getAttribute('name');
+    if (!name) {
+      throw new Error('Invalid URDF: every link needs a name');
+    }
+    return {
+      name,
+      visuals: childElements(element, 'visual').map(visual => parseShape(visual, `link ${name}.visual`, materials)),
+      collisions: childElements(element, 'collision').map(collision => ({ ...parseShape(collision, `link ${name}.collision`, materials), color: null }))
+    };
+  });
+  if (links.length === 0) {
+    throw new Error('Invalid URDF: the robot has no links');
+  }
+  const linkNames = new Set(links.map(link => link.name));
+  if (linkNames.size !== links.length) {
+    throw new Error('Invalid URDF: duplicate link names');
+  }
+
+  const joints = childElements(robot, 'joint').map(element => parseJoint(element, linkNames));
+  const children = joints.map(joint => joint.child);
+  const duplicateChild = children.find((child, index) => children.indexOf(child) !== index);
+  if (duplicateChild) {
+    throw new Error(`Invalid URDF: link "${duplicateChild}" has more than one parent joint`);
+  }
+  // With one parent per link, the links form a single tree when there is one root and every link hangs
+  // from it (a cycle of joints leaves its links unreachable)
+  const roots = links.filter(link => !children.includes(link.name));
+  const reachable = new Set(roots.slice(0, 1).map(link => link.name));
+  reachable.forEach(link => joints.filter(joint => joint.parent === link).forEach(joint => reachable.add(joint.child)));
+  if (roots.length !== 1 || reachable.size !== links.length) {
+    throw new Error('Invalid URDF: the links must form a single tree');
+  }
+
+  return { name: robot.getAttribute('name') ?? 'robot', links, joints, root: roots[0].name };
+};
+
+// Fetch and parse a URDF file
+export const loadUrdf = async (url: string): Promise<UrdfRobot> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load ${url}: ${response.status} ${response.statusText}`);
+  }
+  const robot = parseUrdf(await response.text());
+  console.log(`🦾 URDF robot loaded: ${robot.name} (${robot.links.length} links, ${robot.joints.length} joints)`);
+  return robot;
+};
+
+// Joints from the root to the end-effector link: the leaf with the most movable joints above it
+export const urdfChain = (robot: UrdfRobot): UrdfJoint[] => {
+  let best: UrdfJoint[] = [];
+  const visit = (link: string, path: UrdfJoint[]) => {
+    const childJoints = robot.joints.filter(joint => joint.parent === link);
+    if (childJoints.length === 0) {
+      const movable = (joints: UrdfJoint[]) => joints.filter(joint => joint.type !== 'fixed').length;
+      if (movable(path) > movable(best)) best = path;
+      return;
+    }
+    childJoints.forEach(joint => visit(joint.child, [...path, joint]));
+  };
+  visit(robot.root, []);
+
+  if (!best.some(joint => joint.type !== 'fixed')) {
+    throw new Error(`Invalid URDF: robot "${robot.name}" has no movable joints`);
+  }
+  return best;
+};
+
+// URL of a mesh file: `package://<package>/<path>` and relative paths are resolved against the folder
+// of the URDF file (the robot's package root or its urdf/ folder), so a robot folder can be served as is
+export const resolveUrdfMesh = (filename: string, urdfUrl: string): string => {
+  const packagePath = filename.match(/^package:\/\/[^/]+\/(.*)$/);
+  if (packagePath) {
+    // Packages keep the URDF in urdf/ next to meshes/: resolve from the package root
+    const base = new URL('.', new URL(urdfUrl, window.location.href));
+    const root = base.pathname.endsWith('/urdf/') ? new URL('..', base) : base;
+    return new URL(packagePath[1], root).href;
+  }
+  return new URL(filename, new URL(urdfUrl, window.location.href)).href;
+};
@@ -0,0 +1,370 @@
+// Arm built from a URDF robot description
+// Every link becomes a Three.js group holding its visuals and, if it has collision geometry, a kinematic
+// Rapier body with matching colliders. The robot stands at the arm mount, turned from the URDF's z-up,
+// x-forward frame into the scene's y-up frame facing the table, and scaled so its chain reaches the
+// front corners. The chain from the root to the tip is driven by a damped least-squares IK solver, and
+// the scene's gripper takes the place of the tip link.
+
+import * as THREE from 'three';
+import type RAPIER from '@dimforge/rapier3d-compat';
+import type { RapierModule } from './physicsScene';
+import { Vector3State } from './recording';
+import { JointAngles } from './armKinematics';
+import { loadMeshAsset } from './sceneMeshes';
+import { UrdfArmSummary, UrdfJoint, UrdfOrigin, UrdfRobot, UrdfShape, urdfChain } from './urdf';
+
+export interface UrdfArmOptions {
+  base: Vector3State; // Scene position of the root link
+  reach: number;      // Distance from the base the stretched chain must cover (used when no scale is given)
+  scale?: number;     // Three.js units per URDF meter
+  resolveMesh: (filename: string) => string; // URL of a mesh file named in the URDF
+}
+
+export interface UrdfIkSolution {
+  angles: JointAngles;
+  tip: Vector3State;
+  reached: boolean; // False if the target is out of reach (the tip stops at the closest point found)
+}
+
+export interface UrdfArm {
+  robot: UrdfRobot;
+  group: THREE.Group;
+  jointNames: string[]; // Movable joints from the root to the tip, in the order of joint angle arrays
+  bodies: RAPIER.RigidBody[]; // Kinematic link bodies holding the link colliders (emptied on dispose)
+  summary: UrdfArmSummary;
+  solve(target: Vector3State, initial: JointAngles): UrdfIkSolution;
+  showJoints(angles: JointAngles): Vector3State;     // Pose the visuals only; returns the tip
+  // Pose the visuals and the link colliders; returns the tip. With `overNextStep` the colliders move there during
+  // the next physics step (with the matching velocity, so they push objects instead of jumping into them)
+  setJointAngles(angles: JointAngles, overNextStep?: boolean): Vector3State;
+  dispose(): void;
+}
+
+// URDF x (forward), y (left), z (up) to scene +z (toward the camera), +x and +y
+const URDF_TO_SCENE = new THREE.Matrix4().makeBasis(
+  new THREE.Vector3(0, 0, 1),
+  new THREE.Vector3(1, 0, 0),
+  new THREE.Vector3(0, 1, 0)
+);
+// Forward reach of the chain relative to the mount's reach, so the front corners are reachable while bent
+const REACH_MARGIN = 1.15;
+const REACH_SEARCH_STEPS = 30;
+// IK: position error (Three.js units) below which the target counts as reached, damping (Three.js units),
+// largest joint change per iteration (rad or m) and finite-difference step
+const REACH_TOLERANCE = 1e-3;
+const IK_DAMPING = 0.05;
+const IK_MAX_STEP = 0.2;
+const IK_ITERATIONS = 100;
+const JACOBIAN_STEP = 1e-4;
+
+const DEFAULT_LINK_COLOR = '#9e9e9e';
+
+const originMatrix = (origin: UrdfOrigin): THREE.Matrix4 => new THREE.Matrix4().compose(
+  new THREE.Vector3(origin.xyz[0], origin.xyz[1], origin.xyz[2]),
+  // Fixed-axis roll, pitch, yaw: R = Rz(yaw) Ry(pitch) Rx(roll)
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(origin.rpy[0], origin.rpy[1], origin.rpy[2], 'ZYX')),
+  new THREE.Vector3(1, 1, 1)
+);
+
+// Motion of a joint at the given position (rad for revolute joints, m for prismatic ones)
+const jointMotion = (joint: UrdfJoint, position: number): THREE.Matrix4 => {
+  const axis = new THREE.Vector3(joint.axis[0], joint.axis[1], joint.axis[2]);
+  switch (joint.type) {
+    case 'revolute':
+    case 'continuous':
+      return new THREE.Matrix4().makeRotationAxis(axis, position);
+    case 'prismatic':
+      return new THREE.Matrix4().makeTranslation(axis.multiplyScalar(position));
+    case 'fixed':
+      return new THREE.Matrix4();
+  }
+};
+
+const clampJoint = (joint: UrdfJoint, position: number): number => {
+  return joint.limit ? Math.max(joint.limit.lower, Math.min(joint.limit.upper, position)) : position;
+};
+
+// Geometry of a primitive shape in the link frame (cylinders along z, as in URDF)
+const primitiveGeometry = (shape: UrdfShape): THREE.BufferGeometry | null => {
+  const geometry = shape.geometry;
+  switch (geometry.type) {
+    case 'box':
+      return new THREE.BoxGeometry(geometry.size[0], geometry.size[1], geometry.size[2]);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(geometry.radius, geometry.radius, geometry.length, 24).rotateX(Math.PI / 2);
+    case 'sphere':
+      return new THREE.SphereGeometry(geometry.radius, 24, 16);
+    case 'mesh':
+      return null;
+  }
+};
+
+// Vertices of every mesh in a loaded asset, in the asset's frame
+const assetVertices = (asset: THREE.Object3D): THREE.Vector3[] => {
+  const vertices: THREE.Vector3[] = [];
+  asset.updateMatrixWorld(true);
+  asset.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const position = child.geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i++) {
+      vertices.push(new THREE.Vector3().fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld));
+    }
+  });
+  return vertices;
+};
+
+export const createUrdfArm = (rapier: RapierModule, world: RAPIER.World, robot: UrdfRobot, options: UrdfArmOptions): UrdfArm => {
+  const chain = urdfChain(robot);
+  const movable = chain.filter(joint => joint.type !== 'fixed');
+  const movableIndex = new Map(movable.map((joint, i) => [joint.name, i]));
+  const tipLink = chain[chain.length - 1].child;
+
+  const origins = new Map(robot.joints.map(joint => [joint.name, originMatrix(joint.origin)]));
+  const childJoints = (link: string) => robot.joints.filter(joint => joint.parent === link);
+
+  // Joints off the chain (e.g. finger joints) stay at their zero position, within limits
+  const jointPosition = (joint: UrdfJoint, angles: JointAngles): number => {
+    const index = movableIndex.get(joint.name);
+    return clampJoint(joint, index !== undefined ? angles[index] ?? 0 : 0);
+  };
+
+  const chainTip = (base: THREE.Matrix4, angles: JointAngles): THREE.Vector3 => {
+    const matrix = base.clone();
+    chain.forEach(joint => matrix.multiply(origins.get(joint.name)!).multiply(jointMotion(joint, jointPosition(joint, angles))));
+    return new THREE.Vector3().setFromMatrixPosition(matrix);
+  };
+
+  // Jacobian columns: tip motion per unit of each joint (stepping inward at an upper limit)
+  const jacobian = (base: THREE.Matrix4, angles: JointAngles, tip: THREE.Vector3): THREE.Vector3[] => {
+    return angles.map((position, i) => {
+      const limit = movable[i].limit;
+      const step = limit && position + JACOBIAN_STEP > limit.upper ? -JACOBIAN_STEP : JACOBIAN_STEP;
+      const nudged = angles.slice();
+      nudged[i] = position + step;
+      return chainTip(base, nudged).sub(tip).divideScalar(step);
+    });
+  };
+
+  // Damped least-squares IK from the initial angles toward the goal, for the chain standing on `base`
+  const approach = (base: THREE.Matrix4, goal: THREE.Vector3, initial: JointAngles): JointAngles => {
+    let angles = movable.map((joint, i) => clampJoint(joint, initial[i] ?? 0));
+    let tip = chainTip(base, angles);
+
+    for (let iteration = 0; iteration < IK_ITERATIONS && tip.distanceTo(goal) > REACH_TOLERANCE; iteration++) {
+      const columns = jacobian(base, angles, tip);
+
+      // Δq = Jᵀ (J Jᵀ + λ² I)⁻¹ e
+      const jjt = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+      columns.forEach(column => {
+        const c = column.toArray();
+        for (let row = 0; row < 3; row++) {
+          for (let col = 0; col < 3; col++) jjt[row * 3 + col] += c[row] * c[col];
+        }
+      });
+      [0, 4, 8].forEach(i => { jjt[i] += IK_DAMPING * IK_DAMPING; });
+      const weights = goal.clone().sub(tip).applyMatrix3(new THREE.Matrix3().fromArray(jjt).invert());
+      let delta = columns.map(column => column.dot(weights));
+
+      const largest = Math.max(...delta.map(Math.abs));
+      if (largest > IK_MAX_STEP) delta = delta.map(value => value * IK_MAX_STEP / largest);
+      angles = angles.map((position, i) => clampJoint(movable[i], position + delta[i]));
+      tip = chainTip(base, angles);
+    }
+    return angles;
+  };
+
+  // Reach in URDF meters: the farthest point ahead on the root link's plane that the chain gets to
+  // (robots that cannot reach down to their plane fall back to their stretched reach)
+  const urdfReach = (): number => {
+    const base = new THREE.Matrix4();
+    const stretched = chainTip(base, approach(base, new THREE.Vector3(1000, 0, 0), []));
+    const stretchedReach = Math.sqrt(stretched.x * stretched.x + stretched.y * stretched.y);
+    for (let reach = stretchedReach, i = 0; i < REACH_SEARCH_STEPS; reach *= 0.9, i++) {
+      const goal = new THREE.Vector3(reach, 0, 0);
+      if (chainTip(base, approach(base, goal, [])).distanceTo(goal) <= REACH_TOLERANCE) return reach;
+    }
+    return stretchedReach;
+  };
+
+  const scale = options.scale ?? options.reach * REACH_MARGIN / urdfReach();
+  if (!Number.isFinite(scale) || scale <= 0) {
+    throw new Error(`Invalid URDF: robot "${robot.name}" cannot reach forward`);
+  }
+  const root = new THREE.Matrix4()
+    .makeTranslation(options.base.x, options.base.y, options.base.z)
+    .multiply(URDF_TO_SCENE)
+    .multiply(new THREE.Matrix4().makeScale(scale, scale, scale));
+
+  // Scene transform of every link frame
+  const linkMatrices = (angles: JointAngles): Map<string, THREE.Matrix4> => {
+    const matrices = new Map([[robot.root, root.clone()]]);
+    const visit = (link: string) => childJoints(link).forEach(joint => {
+      const matrix = matrices.get(link)!.clone()
+        .multiply(origins.get(joint.name)!)
+        .multiply(jointMotion(joint, jointPosition(joint, angles)));
+      matrices.set(joint.child, matrix);
+      visit(joint.child);
+    });
+    visit(robot.root);
+    return matrices;
+  };
+
+  const solve = (target: Vector3State, initial: JointAngles): UrdfIkSolution => {
+    const goal = new THREE.Vector3(target.x, target.y, target.z);
+    let angles = approach(root, goal, initial);
+    let tip = chainTip(root, angles);
+    // Starting from the previous pose can get stuck against a limit: retry from the rest pose
+    if (tip.distanceTo(goal) > REACH_TOLERANCE) {
+      const retry = approach(root, goal, []);
+      const retryTip = chainTip(root, retry);
+      if (retryTip.distanceTo(goal) < tip.distanceTo(goal)) {
+        angles = retry;
+        tip = retryTip;
+      }
+    }
+    return { angles, tip: { x: tip.x, y: tip.y, z: tip.z }, reached: tip.distanceTo(goal) <= REACH_TOLERANCE };
+  };
+
+  // Visuals: one group per link, placed from the link transform (which carries the scale)
+  const group = new THREE.Group();
+  const linkGroups = new Map<string, THREE.Group>();
+  const geometries: THREE.BufferGeometry[] = [];
+  const materials: THREE.Material[] = [];
+
+  const shapeObject = (shape: UrdfShape, linkName: string): THREE.Object3D => {
+    const material = new THREE.MeshPhongMaterial({ color: shape.color ?? DEFAULT_LINK_COLOR, shininess: 60 });
+    materials.push(material);
+    const geometry = primitiveGeometry(shape);
+    const object = geometry ? new THREE.Mesh(geometry, material) : new THREE.Group();
+    if (geometry) geometries.push(geometry);
+    object.applyMatrix4(originMatrix(shape.origin));
+
+    if (shape.geometry.type === 'mesh') {
+      const { filename, scale: meshScale } = shape.geometry;
+      object.scale.set(meshScale[0], meshScale[1], meshScale[2]);
+      loadMeshAsset(options.resolveMesh(filename), material)
+        .then(asset => object.add(asset))
+        .catch(err => console.error(`❌ Could not load the mesh ${filename} of link ${linkName}:`, err));
+    }
+    return object;
+  };
+
+  robot.links.forEach(link => {
+    const linkGroup = new THREE.Group();
+    linkGroup.name = link.name;
+    linkGroup.matrixAutoUpdate = false;
+    link.visuals.forEach(shape => linkGroup.add(shapeObject(shape, link.name)));
+    linkGroups.set(link.name, linkGroup);
+    group.add(linkGroup);
+  });
+
+  // Colliders: one kinematic body per link with collision geometry, in unscaled link frames
+  let disposed = false;
+  const linkBodies = new Map<string, RAPIER.RigidBody>();
+  const bodies: RAPIER.RigidBody[] = [];
+
+  const addCollider = (desc: RAPIER.ColliderDesc | null, shape: UrdfShape, body: RAPIER.RigidBody, extraRotation?: THREE.Quaternion) => {
+    if (!desc) return;
+    const matrix = originMatrix(shape.origin);
+    const position = new THREE.Vector3().setFromMatrixPosition(matrix).multiplyScalar(scale);
+    const rotation = new THREE.Quaternion().setFromRotationMatrix(matrix);
+    if (extraRotation) rotation.multiply(extraRotation);
+    desc.setTranslation(position.x, position.y, position.z).setRotation(rotation);
+    world.createCollider(desc, body);
+  };
+
+  const addCollisionShape = (shape: UrdfShape, linkName: string, body: RAPIER.RigidBody) => {
+    const geometry = shape.geometry;
+    switch (geometry.type) {
+      case 'box':
+        addCollider(rapier.ColliderDesc.cuboid(geometry.size[0] * scale / 2, geometry.size[1] * scale / 2, geometry.size[2] * scale / 2), shape, body);
+        break;
+      case 'cylinder':
+        // Rapier cylinders run along y
+        addCollider(rapier.ColliderDesc.cylinder(geometry.length * scale / 2, geometry.radius * scale), shape, body,
+          new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI / 2));
+        break;
+      case 'sphere':
+        addCollider(rapier.ColliderDesc.ball(geometry.radius * scale), shape, body);
+        break;
+      case 'mesh': {
+        // Mesh collisions become the convex hull of the mesh once it has loaded
+        const meshScale = new THREE.Vector3(...geometry.scale).multiplyScalar(scale);
+        loadMeshAsset(options.resolveMesh(geometry.filename), new THREE.MeshBasicMaterial())
+          .then(asset => {
+            if (disposed) return;
+            const points = new Float32Array(assetVertices(asset).flatMap(vertex => vertex.multiply(meshScale).toArray()));
+            addCollider(rapier.ColliderDesc.convexHull(points), shape, body);
+          })
+          .catch(err => console.error(`❌ Could not load the collision mesh ${geometry.filename} of link ${linkName}:`, err));
+        break;
+      }
+    }
+  };
+
+  robot.links.forEach(link => {
+    // The gripper stands in for the tip link, so its own geometry would only push objects away
+    if (link.collisions.length === 0 || link.name === tipLink) return;
+    const body = world.createRigidBody(rapier.RigidBodyDesc.kinematicPositionBased());
+    link.collisions.forEach(shape => addCollisionShape(shape, link.name, body));
+    linkBodies.set(link.name, body);
+    bodies.push(body);
+  });
+
+  const showJoints = (angles: JointAngles): Vector3State => {
+    linkMatrices(angles).forEach((matrix, link) => {
+      const linkGroup = linkGroups.get(link)!;
+      linkGroup.matrix.copy(matrix);
+      linkGroup.matrixWorldNeedsUpdate = true;
+    });
+    const tip = chainTip(root, angles);
+    return { x: tip.x, y: tip.y, z: tip.z };
+  };
+
+  const setJointAngles = (angles: JointAngles, overNextStep = false): Vector3State => {
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+    const linkScale = new THREE.Vector3();
+    const matrices = linkMatrices(angles);
+    linkBodies.forEach((body, link) => {
+      matrices.get(link)!.decompose(position, rotation, linkScale);
+      if (overNextStep) {
+        body.setNextKinematicTranslation(position);
+        body.setNextKinematicRotation(rotation);
+      } else {
+        body.setTranslation(position, true);
+        body.setRotation(rotation, true);
+      }
+    });
+    return showJoints(angles);
+  };
+
+  const dispose = () => {
+    disposed = true;
+    linkBodies.forEach(body => world.removeRigidBody(body));
+    linkBodies.clear();
+    bodies.length = 0;
+    geometries.forEach(geometry => geometry.dispose());
+    materials.forEach(material => material.dispose());
+  };
+
+  const arm: UrdfArm = {
+    robot,
+    group,
+    jointNames: movable.map(joint => joint.name),
+    bodies,
+    summary: {
+      urdf: robot.name,
+      base: options.base,
+      scale,
+      joints: movable.map(({ name, type, limit }) => ({ name, type, limit }))
+    },
+    solve,
+    showJoints,
+    setJointAngles,
+    dispose
+  };
+  // Start at the zero position, within limits
+  arm.setJointAngles(movable.map(() => 0));
+  return arm;
+};
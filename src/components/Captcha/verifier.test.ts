@@ -0,0 +1,160 @@
+import {
+  VerdictResponse, VerificationInput, Verifier, createGeminiVerifier, createMockVerifier, createOpenAiVerifier, createVerifier, parseVerdictJson, runVerifier
+} from './verifier';
+import { parseTaskSpec } from './taskSpec';
+
+const input: VerificationInput = {
+  task: 'Red is near green',
+  taskSpec: parseTaskSpec({ id: 'pair', goals: ['near(red, green)', 'far(blue, red)'] }),
+  image: 'data:image/png;base64,AAAA',
+  objects: [
+    { name: 'red', position: { x: 0, y: 0.375, z: 0 } },
+    { name: 'green', position: { x: 1, y: 0.375, z: 0 } },
+    { name: 'blue', position: { x: 0, y: 0.375, z: 2.5 } }
+  ]
+};
+
+describe('mock verifier', () => {
+  it('passes every subgoal by default', async () => {
+    const result = await runVerifier(createMockVerifier({ provider: 'mock' }), input);
+    expect(result.provider).toBe('mock');
+    expect(result.passed).toBe(true);
+    expect(result.confidence).toBe(1);
+    expect(result.attempts).toBe(1);
+    expect(result.subgoals.map(subgoal => subgoal.passed)).toEqual([true, true]);
+  });
+
+  it('fails on request, regardless of the scene', async () => {
+    const result = await runVerifier(createVerifier({ provider: 'mock', mockVerdict: false }), input);
+    expect(result.passed).toBe(false);
+    expect(result.subgoals.every(subgoal => !subgoal.passed)).toBe(true);
+  });
+
+  it('gives the same answer every time', async () => {
+    const verifier = createMockVerifier({ provider: 'mock', model: 'fixed' });
+    const [a, b] = await Promise.all([runVerifier(verifier, input), runVerifier(verifier, input)]);
+    expect(a).toEqual(b);
+    expect(a.model).toBe('fixed');
+  });
+});
+
+describe('rule verifier', () => {
+  it('checks the physics state', async () => {
+    const result = await runVerifier(createVerifier({ provider: 'rules' }), input);
+    expect(result.passed).toBe(true);
+    expect(result.rationale).toBe('All sub-goals hold in the physics state.');
+  });
+
+  it('needs a structured task', async () => {
+    await expect(runVerifier(createVerifier({ provider: 'rules' }), { ...input, taskSpec: null })).rejects.toThrow('needs a structured task');
+  });
+});
+
+describe('parseVerdictJson', () => {
+  const verdict = {
+    verdict: 'fail',
+    confidence: 0.8,
+    subgoals: [{ description: 'a', passed: true, reason: 'ok' }, { description: 'b', passed: false, reason: 'apart' }],
+    rationale: 'Blue is too close.'
+  };
+
+  it('accepts a verdict wrapped in a code fence', () => {
+    expect(parseVerdictJson(`\`\`\`json\n${JSON.stringify(verdict)}\n\`\`\``, 2)).toMatchObject({ verdict: 'fail', confidence: 0.8 });
+  });
+
+  it('rejects malformed verdicts', () => {
+    expect(() => parseVerdictJson('not json', 2)).toThrow('Invalid verdict');
+    expect(() => parseVerdictJson(JSON.stringify({ ...verdict, confidence: 2 }), 2)).toThrow('Invalid verdict');
+    expect(() => parseVerdictJson(JSON.stringify(verdict), 3)).toThrow('Invalid verdict');
+  });
+});
+
+describe('runVerifier', () => {
+  it('asks again with the validation error until the verdict is valid', async () => {
+    const mock = createMockVerifier({ provider: 'mock' });
+    const prompts: string[] = [];
+    let calls = 0;
+    const flaky: Verifier = {
+      ...mock,
+      request: async (prompt, request) => {
+        prompts.push(prompt);
+        calls++;
+        return calls === 1 ? 'Looks good to me!' : mock.request(prompt, request);
+      }
+    };
+
+    const result = await runVerifier(flaky, input);
+    expect(result.passed).toBe(true);
+    expect(result.attempts).toBe(2);
+    expect(prompts[1]).toContain('Your previous response was rejected');
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const broken: Verifier = { ...createMockVerifier({ provider: 'mock' }), request: async () => '{}' };
+    await expect(runVerifier(broken, input, 2)).rejects.toThrow('after 2 attempts');
+  });
+});
+
+describe('structured output', () => {
+  const verdict: VerdictResponse = {
+    verdict: 'pass',
+    confidence: 0.9,
+    subgoals: [{ description: 'a', passed: true, reason: 'close' }, { description: 'b', passed: true, reason: 'apart' }],
+    rationale: 'Both hold.'
+  };
+  const answer = JSON.stringify(verdict);
+  const originalFetch = global.fetch;
+  let requestBody: unknown;
+
+  // Schema node at `path` (object keys) of the last request body
+  const schemaAt = (...path: string[]): Record<string, unknown> => {
+    const node = path.reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], requestBody);
+    expect(node).toEqual(expect.any(Object));
+    return node as Record<string, unknown>;
+  };
+
+  const mockFetch = (body: unknown) => {
+    global.fetch = jest.fn(async (_url: RequestInfo, init?: RequestInit) => {
+      requestBody = JSON.parse(String(init?.body));
+      return { ok: true, json: async () => body } as Response;
+    }) as typeof fetch;
+  };
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('asks Gemini for JSON matching the verdict schema', async () => {
+    mockFetch({ candidates: [{ content: { parts: [{ text: answer }] } }] });
+    const result = await runVerifier(createGeminiVerifier({ provider: 'gemini', apiKey: 'key' }), input);
+
+    expect(result.passed).toBe(true);
+    expect(schemaAt('generationConfig').responseMimeType).toBe('application/json');
+    const responseSchema = schemaAt('generationConfig', 'responseSchema');
+    expect(responseSchema.type).toBe('OBJECT');
+    expect(schemaAt('generationConfig', 'responseSchema', 'properties', 'subgoals')).toMatchObject({ type: 'ARRAY', minItems: 2, maxItems: 2 });
+    expect(schemaAt('generationConfig', 'responseSchema', 'properties', 'subgoals', 'items', 'properties', 'passed').type).toBe('BOOLEAN');
+    expect(JSON.stringify(responseSchema)).not.toContain('additionalProperties');
+  });
+
+  it('asks OpenAI-compatible endpoints for a strict JSON schema', async () => {
+    mockFetch({ choices: [{ message: { content: answer } }] });
+    const result = await runVerifier(createOpenAiVerifier({ provider: 'openai', endpoint: 'http://localhost:8000/v1' }), input);
+
+    expect(result.confidence).toBe(0.9);
+    expect(schemaAt('response_format').type).toBe('json_schema');
+    expect(schemaAt('response_format', 'json_schema').strict).toBe(true);
+    expect(schemaAt('response_format', 'json_schema', 'schema'))
+      .toMatchObject({ type: 'object', additionalProperties: false, required: ['verdict', 'confidence', 'subgoals', 'rationale'] });
+    expect(schemaAt('response_format', 'json_schema', 'schema', 'properties', 'subgoals', 'items').additionalProperties).toBe(false);
+  });
+
+  it('derives the verdict from the sub-goals', async () => {
+    const overruled = { ...verdict, subgoals: [verdict.subgoals[0], { ...verdict.subgoals[1], passed: false }] };
+    mockFetch({ candidates: [{ content: { parts: [{ text: JSON.stringify(overruled) }] } }] });
+    const result = await runVerifier(createGeminiVerifier({ provider: 'gemini', apiKey: 'key' }), input);
+
+    expect(result.model).toBe('gemini-2.0-flash');
+    expect(result.passed).toBe(false);
+  });
+});
@@ -0,0 +1,531 @@
+// Pluggable verification backends
+// Every verifier builds a prompt, sends a request and parses the response into a verdict with a
+// confidence, so the component does not depend on a particular model or provider.
+// Models answer with a JSON verdict (see VERDICT_SCHEMA), constrained by the provider's structured output
+// mode where it has one; the answer is still validated and malformed answers are retried.
+// Providers: Gemini, any OpenAI-compatible chat endpoint, the rule-based physics checker, a
+// deterministic mock for tests, and the verification server (server/), which runs one of the
+// model providers with a credential that never reaches the browser.
+
+import { TaskSpec, describePredicate, formatPredicate } from './taskSpec';
+import { ObjectState, SubgoalResult, TableBounds, TaskVerification, verifyTask } from './taskVerifier';
+import { SceneSummary } from './sceneSummary';
+import { TrajectoryAnalysis } from './trajectoryAnalysis';
+
+export type VerifierProvider = 'gemini' | 'openai' | 'rules' | 'mock' | 'server';
+
+export const VERIFIER_PROVIDERS: VerifierProvider[] = ['gemini', 'openai', 'rules', 'mock', 'server'];
+
+// Providers that need no credential in the page
+export type BrowserVerifierProvider = 'server' | 'rules' | 'mock';
+
+export const BROWSER_VERIFIER_PROVIDERS: BrowserVerifierProvider[] = ['server', 'rules', 'mock'];
+
+export const DEFAULT_VERIFIER_MODELS: Record<VerifierProvider, string> = {
+  gemini: 'gemini-2.0-flash', // Supports the structured output (responseSchema) the verdict is asked in
+  openai: 'gpt-4o-mini',
+  rules: 'task-verifier',
+  mock: 'mock',
+  server: 'server' // The model is configured on the server and reported in the result
+};
+
+export const DEFAULT_OPENAI_ENDPOINT = 'https://api.openai.com/v1';
+
+export const DEFAULT_SERVER_ENDPOINT = 'http://localhost:8787';
+
+export const verifierProviderLabel = (provider: VerifierProvider): string => {
+  switch (provider) {
+    case 'gemini':
+      return 'Gemini';
+    case 'openai':
+      return 'OpenAI-compatible';
+    case 'rules':
+      return 'Rules';
+    case 'mock':
+      return 'Mock';
+    case 'server':
+      return 'Verification server';
+  }
+};
+
+// Providers that send the scene image to a model
+export const isVisionProvider = (provider: VerifierProvider): boolean => {
+  return provider === 'gemini' || provider === 'openai' || provider === 'server';
+};
+
+export interface VerifierConfig {
+  provider: VerifierProvider;
+  model?: string;        // Defaults to DEFAULT_VERIFIER_MODELS[provider]
+  apiKey?: string;
+  endpoint?: string;     // Base URL of an OpenAI-compatible API (e.g. a self-hosted model) or of the verification server
+  mockVerdict?: boolean; // Verdict returned by the mock verifier (default: pass)
+}
+
+export interface LabeledImage {
+  label: string;   // What the image shows, referenced from the prompt
+  dataUrl: string; // PNG or JPEG data URL
+}
+
+// Everything a verifier may look at
+export interface VerificationInput {
+  task: string;              // Natural-language task
+  taskSpec: TaskSpec | null; // Structured goal (required by the rule-based verifier)
+  image: string | null;      // Rendered view of the main camera as a PNG data URL
+  objects: ObjectState[];    // Physics state of the objects
+  table?: TableBounds;       // Table the objects stand on (the default 6 x 6 table when omitted)
+  views?: LabeledImage[];     // Extra viewpoints of the same scene (top-down, sides)
+  keyframes?: LabeledImage[]; // Frames from the recording, oldest first
+  sceneSummary?: SceneSummary | null;
+}
+
+export const MAIN_VIEW_LABEL = 'Main camera view from above the front edge, looking down at the table';
+
+// All images sent to a vision model, in the order they are referenced by the prompt
+export const collectImages = (input: VerificationInput): LabeledImage[] => [
+  ...(input.image ? [{ label: MAIN_VIEW_LABEL, dataUrl: input.image }] : []),
+  ...(input.views ?? []),
+  ...(input.keyframes ?? [])
+];
+
+export interface VerifierResult {
+  provider: VerifierProvider;
+  model: string;
+  passed: boolean;
+  confidence: number;        // 0..1
+  subgoals: SubgoalResult[]; // One assessment per sub-goal (the whole task for free-text tasks)
+  rationale: string;         // Short explanation of the verdict
+  response: string;          // Raw response text, for debugging
+  attempts: number;          // Requests needed to get a well-formed response
+  analysis?: TrajectoryAnalysis | null; // Bot risk of the recorded interaction that produced the scene
+}
+
+// JSON answer expected from vision models
+export interface VerdictResponse {
+  verdict: 'pass' | 'fail';
+  confidence: number;
+  subgoals: Array<{ description: string, passed: boolean, reason: string }>;
+  rationale: string;
+}
+
+export const VERDICT_SCHEMA = {
+  type: 'object',
+  required: ['verdict', 'confidence', 'subgoals', 'rationale'],
+  properties: {
+    verdict: { type: 'string', enum: ['pass', 'fail'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    subgoals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['description', 'passed', 'reason'],
+        properties: {
+          description: { type: 'string' },
+          passed: { type: 'boolean' },
+          reason: { type: 'string' }
+        }
+      }
+    },
+    rationale: { type: 'string', maxLength: 500 }
+  }
+};
+
+// VERDICT_SCHEMA in the subset of JSON schema that structured output modes accept (the number and length
+// bounds are left to parseVerdictJson), with exactly one entry per sub-goal of this input
+export const structuredVerdictSchema = (expectedSubgoals: number) => ({
+  type: 'object',
+  required: VERDICT_SCHEMA.required,
+  additionalProperties: false,
+  properties: {
+    verdict: VERDICT_SCHEMA.properties.verdict,
+    confidence: { type: 'number' },
+    subgoals: {
+      type: 'array',
+      minItems: expectedSubgoals,
+      maxItems: expectedSubgoals,
+      items: { ...VERDICT_SCHEMA.properties.subgoals.items, additionalProperties: false }
+    },
+    rationale: { type: 'string' }
+  }
+});
+
+type JsonSchema = { [key: string]: unknown };
+
+// Gemini's `responseSchema` is an OpenAPI schema: upper-case types and no `additionalProperties`
+const toGeminiSchema = (schema: JsonSchema): JsonSchema => {
+  const { type, properties, items, additionalProperties, ...rest } = schema;
+  return {
+    ...rest,
+    type: String(type).toUpperCase(),
+    ...(properties ? {
+      properties: Object.fromEntries(Object.entries(properties as Record<string, JsonSchema>).map(([key, value]) => [key, toGeminiSchema(value)]))
+    } : {}),
+    ...(items ? { items: toGeminiSchema(items as JsonSchema) } : {})
+  };
+};
+
+export const MAX_VERIFIER_ATTEMPTS = 3;
+
+// Sub-goals the model has to assess, in order
+export const verdictSubgoals = (input: VerificationInput): string[] => {
+  return input.taskSpec ? input.taskSpec.goals.map(describePredicate) : [input.task];
+};
+
+export interface Verifier {
+  provider: VerifierProvider;
+  model: string;
+  buildPrompt: (input: VerificationInput) => string;
+  request: (prompt: string, input: VerificationInput) => Promise<string>;
+  parseResponse: (response: string, input: VerificationInput) => VerifierResult;
+}
+
+// Prompt shared by the vision-model providers
+export const buildVisionPrompt = (input: VerificationInput): string => {
+  const { task, taskSpec, sceneSummary } = input;
+  const images = collectImages(input);
+  const multiImage = images.length > 1;
+
+  return `Please analyze ${multiImage ? 'these images of a 3D scene' : 'this 3D image'} carefully. The task is: "${task}".
+
+${multiImage ? `The images show the same scene:
+${images.map((image, index) => `   ${index + 1}. ${image.label}`).join('\n')}
+
+Use the top-down view to judge distances and regions on the table, and the side views to judge contact,
+gaps and stacking; objects may hide each other in the main view.${input.keyframes?.length ? ' The recording frames show how the scene got there.' : ''}
+
+` : ''}Look at the image${multiImage ? 's' : ''} and determine if the specified task has been completed:
+
+1. Carefully examine all elements in the scene:
+   - Robot arm (gray cylindrical object)
+   - Colored 3D objects
+   - Their positions and interactions
+
+2. Evaluate if the current scene matches the task requirement: "${task}"
+
+3. Consider the task completed if:
+   - The described action appears to have been performed
+   - The scene shows reasonable evidence of task completion
+   - Be somewhat lenient in interpretation (close proximity or interaction counts)
+
+${taskSpec ? `The task consists of these sub-goals, all of which must hold:
+${taskSpec.goals.map(goal => `   - ${formatPredicate(goal)}`).join('\n')}
+
+` : ''}${sceneSummary ? `Object positions measured by the physics engine (use them to confirm what you see):
+${JSON.stringify(sceneSummary, null, 2)}
+
+` : ''}Assess each of these sub-goals, in this order, based on what you can see in the image${multiImage ? 's' : ''}:
+${verdictSubgoals(input).map((subgoal, index) => `   ${index + 1}. ${subgoal}`).join('\n')}
+
+Respond with only a JSON object (no markdown, no other text) matching this JSON schema:
+${JSON.stringify(VERDICT_SCHEMA)}
+
+"verdict" is "pass" if the task has been completed, otherwise "fail". "confidence" is your confidence in the
+verdict between 0 and 1. "subgoals" has one entry per sub-goal above, with a one-sentence "reason".
+"rationale" explains the verdict in one or two sentences.`;
+};
+
+// Validate a JSON verdict (optionally wrapped in a markdown code fence) against VERDICT_SCHEMA
+export const parseVerdictJson = (text: string, expectedSubgoals: number): VerdictResponse => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid verdict: response is not valid JSON');
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid verdict: expected a JSON object');
+  }
+
+  const { verdict, confidence, subgoals, rationale } = value as Record<string, unknown>;
+  if (verdict !== 'pass' && verdict !== 'fail') {
+    throw new Error('Invalid verdict: "verdict" must be "pass" or "fail"');
+  }
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    throw new Error('Invalid verdict: "confidence" must be a number between 0 and 1');
+  }
+  if (typeof rationale !== 'string') {
+    throw new Error('Invalid verdict: "rationale" must be a string');
+  }
+  if (!Array.isArray(subgoals) || subgoals.length !== expectedSubgoals) {
+    throw new Error(`Invalid verdict: "subgoals" must list ${expectedSubgoals} sub-goals`);
+  }
+  subgoals.forEach((subgoal, index) => {
+    if (!subgoal || typeof subgoal.passed !== 'boolean' || typeof subgoal.reason !== 'string') {
+      throw new Error(`Invalid verdict: sub-goal ${index + 1} needs a boolean "passed" and a "reason"`);
+    }
+  });
+
+  return {
+    verdict,
+    confidence,
+    subgoals: subgoals.map(subgoal => ({
+      description: typeof subgoal.description === 'string' ? subgoal.description : '',
+      passed: subgoal.passed,
+      reason: subgoal.reason
+    })),
+    rationale
+  };
+};
+
+const splitDataUrl = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'image/png';
+  return { mimeType, data };
+};
+
+const visionResult = (provider: VerifierProvider, model: string, response: string, input: VerificationInput): VerifierResult => {
+  // Sub-goal descriptions are taken from the task, not from the model's paraphrase
+  const subgoals = verdictSubgoals(input);
+  const verdict = parseVerdictJson(response, subgoals.length);
+  const assessed = verdict.subgoals.map((subgoal, index) => ({
+    description: subgoals[index],
+    passed: subgoal.passed,
+    reason: subgoal.reason
+  }));
+
+  return {
+    provider,
+    model,
+    // The verdict follows the sub-goals, whatever overall answer the model gave
+    passed: assessed.every(subgoal => subgoal.passed),
+    confidence: verdict.confidence,
+    subgoals: assessed,
+    rationale: verdict.rationale,
+    response,
+    attempts: 1
+  };
+};
+
+export const createGeminiVerifier = (config: VerifierConfig): Verifier => {
+  const model = config.model || DEFAULT_VERIFIER_MODELS.gemini;
+
+  return {
+    provider: 'gemini',
+    model,
+    buildPrompt: buildVisionPrompt,
+    request: async (prompt, input) => {
+      if (!config.apiKey) throw new Error('Gemini API key is missing');
+      const images = collectImages(input);
+      if (images.length === 0) throw new Error('Gemini verification needs a scene image');
+
+      const requestBody = {
+        contents: [{
+          parts: [
+            { text: prompt },
+            ...images.map(image => {
+              const { mimeType, data } = splitDataUrl(image.dataUrl);
+              return { inline_data: { mime_type: mimeType, data } };
+            })
+          ]
+        }],
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(structuredVerdictSchema(verdictSubgoals(input).length))
+        }
+      };
+
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${config.apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody)
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(`Gemini API Error: ${body.error?.message || 'Unknown error'}`);
+      }
+      return body.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    },
+    parseResponse: (response, input) => visionResult('gemini', model, response, input)
+  };
+};
+
+// Any endpoint implementing the OpenAI chat completions API (OpenAI, vLLM, Ollama, LM Studio, ...)
+export const createOpenAiVerifier = (config: VerifierConfig): Verifier => {
+  const model = config.model || DEFAULT_VERIFIER_MODELS.openai;
+  const endpoint = (config.endpoint || DEFAULT_OPENAI_ENDPOINT).replace(/\/+$/, '');
+
+  return {
+    provider: 'openai',
+    model,
+    buildPrompt: buildVisionPrompt,
+    request: async (prompt, input) => {
+      const images = collectImages(input);
+      if (images.length === 0) throw new Error('OpenAI-compatible verification needs a scene image');
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      const response = await fetch(`${endpoint}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              ...images.map(image => ({ type: 'image_url', image_url: { url: image.dataUrl } }))
+            ]
+          }],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'verdict', strict: true, schema: structuredVerdictSchema(verdictSubgoals(input).length) }
+          }
+        })
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible API Error: ${body.error?.message || 'Unknown error'}`);
+      }
+      return body.choices?.[0]?.message?.content || '';
+    },
+    parseResponse: (response, input) => visionResult('openai', model, response, input)
+  };
+};
+
+// Rule-based physics checker: exact, offline, confidence is always 1
+export const createRuleVerifier = (): Verifier => ({
+  provider: 'rules',
+  model: DEFAULT_VERIFIER_MODELS.rules,
+  buildPrompt: (input) => input.taskSpec ? input.taskSpec.goals.map(formatPredicate).join(', ') : '',
+  request: async (_prompt, input) => {
+    if (!input.taskSpec) {
+      throw new Error('Rule-based verification needs a structured task. Pick a task example or load a task file.');
+    }
+    return JSON.stringify(verifyTask(input.taskSpec, input.objects, input.table));
+  },
+  parseResponse: (response) => {
+    const verification: TaskVerification = JSON.parse(response);
+    const failed = verification.subgoals.filter(subgoal => !subgoal.passed);
+    return {
+      provider: 'rules',
+      model: DEFAULT_VERIFIER_MODELS.rules,
+      passed: verification.passed,
+      confidence: 1,
+      subgoals: verification.subgoals,
+      rationale: failed.length === 0
+        ? 'All sub-goals hold in the physics state.'
+        : `Not satisfied: ${failed.map(subgoal => subgoal.description).join('; ')}.`,
+      response,
+      attempts: 1
+    };
+  }
+});
+
+// Deterministic verifier for tests and offline development
+export const createMockVerifier = (config: VerifierConfig): Verifier => {
+  const model = config.model || DEFAULT_VERIFIER_MODELS.mock;
+  const passed = config.mockVerdict ?? true;
+
+  return {
+    provider: 'mock',
+    model,
+    buildPrompt: buildVisionPrompt,
+    request: async (_prompt, input) => JSON.stringify({
+      verdict: passed ? 'pass' : 'fail',
+      confidence: 1,
+      subgoals: verdictSubgoals(input).map(description => ({ description, passed, reason: 'Mock verdict' })),
+      rationale: `Mock verifier configured to ${passed ? 'pass' : 'fail'}.`
+    }),
+    parseResponse: (response, input) => visionResult('mock', model, response, input)
+  };
+};
+
+// Verification server (server/): the prompt is built and the model called on the server
+export const createServerVerifier = (config: VerifierConfig): Verifier => {
+  const endpoint = (config.endpoint || DEFAULT_SERVER_ENDPOINT).replace(/\/+$/, '');
+
+  return {
+    provider: 'server',
+    model: config.model || DEFAULT_VERIFIER_MODELS.server,
+    buildPrompt: buildVisionPrompt, // For logging; the server builds the same prompt
+    request: async (_prompt, input) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        // Server token of trusted callers (e.g. batch labelling); the page never has one
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+      const response = await fetch(`${endpoint}/verify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(input)
+      });
+      const text = await response.text();
+
+      if (!response.ok) {
+        let message = response.statusText;
+        try {
+          message = JSON.parse(text).error || message;
+        } catch {
+          // Not a JSON error body; keep the status text
+        }
+        throw new Error(`Verification server error: ${message}`);
+      }
+      return text;
+    },
+    parseResponse: (response) => {
+      const result = JSON.parse(response) as VerifierResult;
+      if (typeof result.passed !== 'boolean' || typeof result.confidence !== 'number' || !Array.isArray(result.subgoals)) {
+        throw new Error('Invalid verdict: malformed verification server response');
+      }
+      return result;
+    }
+  };
+};
+
+export const createVerifier = (config: VerifierConfig): Verifier => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiVerifier(config);
+    case 'openai':
+      return createOpenAiVerifier(config);
+    case 'rules':
+      return createRuleVerifier();
+    case 'mock':
+      return createMockVerifier(config);
+    case 'server':
+      return createServerVerifier(config);
+  }
+};
+
+export interface VerifierAttempt {
+  attempt: number;
+  prompt: string;
+  response: string;
+  error: string | null; // Why the response was rejected
+}
+
+// Request a verdict, asking again with the validation error when the response is malformed
+export const runVerifier = async (
+  verifier: Verifier,
+  input: VerificationInput,
+  maxAttempts = MAX_VERIFIER_ATTEMPTS,
+  onAttempt?: (attempt: VerifierAttempt) => void
+): Promise<VerifierResult> => {
+  const basePrompt = verifier.buildPrompt(input);
+  let prompt = basePrompt;
+  let lastError = 'no attempts were made';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await verifier.request(prompt, input);
+    try {
+      const result = verifier.parseResponse(response, input);
+      onAttempt?.({ attempt, prompt, response, error: null });
+      // Retries made by this call come on top of those already made behind it (e.g. on the server)
+      return { ...result, attempts: result.attempts + attempt - 1 };
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+      onAttempt?.({ attempt, prompt, response, error: lastError });
+      prompt = `${basePrompt}
+
+Your previous response was rejected (${lastError}). Respond again with only the JSON object.`;
+    }
+  }
+
+  throw new Error(`${verifierProviderLabel(verifier.provider)} returned no valid verdict after ${maxAttempts} attempts: ${lastError}`);
+};
@@ -0,0 +1,159 @@
+// Embeddable widget: the CAPTCHA as a <robot-captcha> custom element for partner websites
+// Built separately from the app (npm run build:widget) as an ES module and a UMD bundle with React
+// included, so a host page only needs a <script> tag. The component renders into a shadow root, so
+// host page styles do not leak in and ours do not leak out.
+//
+// Attributes (changing one restarts the widget):
+//   mode                 challenge (default): server-issued challenge and pass token | demo: client-side verifiers
+//   task                 Task example ID (challenge mode: requested from the server), task spec JSON or free text
+//   seed                 Scene seed, 0 to 4294967295 (demo mode only; challenges always use the server's seed)
+//   scene                Scene config JSON: table, object shapes, sizes, colors (demo mode only)
+//   robot                URL of a URDF robot to drive instead of the built-in arm (demo mode only)
+//   verifier-endpoint    Verification server URL
+//   collection-endpoint  URL that receives every completed episode (unset: no uploads)
+//   theme                light (default) | dark
+//   size                 normal (default) | compact
+//
+// Events (CustomEvent, bubbling out of the shadow root; payload in `event.detail`):
+//   ready     Scene loaded and interactive
+//   progress  { stage, challengeId, taskId } when an attempt changes stage
+//   verified  { success, token, challengeId, taskId, task, risk, tokenExpiresAt, subgoals }
+//   expired   { reason: 'challenge' | 'token' }
+//   error     { message }
+
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { StyleSheetManager } from 'styled-components';
+import ThreeCaptcha from '../components/Captcha/ThreeCaptcha';
+import { CaptchaExpiry, CaptchaProgress, VerificationMetadata } from '../components/Captcha/captchaEvents';
+import { SceneConfig, parseSceneConfig } from '../components/Captcha/sceneConfig';
+import { parseSeed } from '../components/Captcha/sceneGenerator';
+
+export type { CaptchaProgress, CaptchaExpiry, VerificationMetadata } from '../components/Captcha/captchaEvents';
+
+export const DEFAULT_TAG_NAME = 'robot-captcha';
+
+const ATTRIBUTES = ['mode', 'task', 'seed', 'scene', 'robot', 'verifier-endpoint', 'collection-endpoint', 'theme', 'size'];
+
+export interface VerifiedEventDetail extends Partial<VerificationMetadata> {
+  success: boolean;
+  token: string | null; // Pass token for the host site's backend (challenge mode, on success)
+}
+
+export class RobotCaptchaElement extends HTMLElement {
+  static get observedAttributes() {
+    return ATTRIBUTES;
+  }
+
+  private root: Root | null = null;
+  private styleTarget: HTMLElement | null = null;
+  // Bumped to remount the component with a fresh scene
+  private generation = 0;
+  private passToken: string | null = null;
+
+  // Pass token of the last successful attempt (null until solved, and again once it expires)
+  get token(): string | null {
+    return this.passToken;
+  }
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    const styleTarget = document.createElement('div');
+    const container = document.createElement('div');
+    shadow.replaceChildren(styleTarget, container);
+    this.styleTarget = styleTarget;
+    this.root = createRoot(container);
+    this.renderCaptcha();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+    this.styleTarget = null;
+  }
+
+  attributeChangedCallback(_name: string, oldValue: string | null, newValue: string | null) {
+    if (oldValue !== newValue && this.root) {
+      this.reset();
+    }
+  }
+
+  // Start over with a new scene (and, in challenge mode, a new challenge)
+  reset() {
+    this.generation++;
+    this.passToken = null;
+    this.renderCaptcha();
+  }
+
+  private emit(type: string, detail: unknown) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private renderCaptcha() {
+    if (!this.root || !this.styleTarget) return;
+
+    const challengeMode = this.getAttribute('mode') !== 'demo';
+    const seedAttribute = this.getAttribute('seed');
+    let seed: number | undefined;
+    if (!challengeMode && seedAttribute) {
+      // An invalid seed is reported and the scene falls back to a random one
+      seed = parseSeed(seedAttribute) ?? undefined;
+      if (seed === undefined) {
+        this.emit('error', { message: `Invalid seed: "${seedAttribute}" (expected an integer from 0 to 4294967295)` });
+      }
+    }
+
+    const sceneAttribute = this.getAttribute('scene');
+    let sceneConfig: SceneConfig | undefined;
+    if (!challengeMode && sceneAttribute) {
+      try {
+        sceneConfig = parseSceneConfig(sceneAttribute);
+      } catch (err) {
+        this.emit('error', { message: err instanceof Error ? err.message : 'Invalid scene config' });
+      }
+    }
+
+    const handleVerify = (success: boolean, token?: string, metadata?: VerificationMetadata) => {
+      this.passToken = success ? token ?? null : null;
+      const detail: VerifiedEventDetail = { success, token: this.passToken, ...metadata };
+      this.emit('verified', detail);
+    };
+
+    this.root.render(
+      <StyleSheetManager target={this.styleTarget}>
+        <ThreeCaptcha
+          key={this.generation}
+          challengeMode={challengeMode}
+          seed={seed}
+          sceneConfig={sceneConfig}
+          robotUrdf={this.getAttribute('robot') ?? undefined}
+          task={this.getAttribute('task') ?? undefined}
+          verifierEndpoint={this.getAttribute('verifier-endpoint') ?? undefined}
+          collectionEndpoint={this.getAttribute('collection-endpoint') ?? undefined}
+          theme={this.getAttribute('theme') === 'dark' ? 'dark' : 'light'}
+          size={this.getAttribute('size') === 'compact' ? 'compact' : 'normal'}
+          onVerify={handleVerify}
+          onReady={() => this.emit('ready', {})}
+          onProgress={(progress: CaptchaProgress) => this.emit('progress', progress)}
+          onExpire={(reason: CaptchaExpiry) => {
+            if (reason === 'token') this.passToken = null;
+            this.emit('expired', { reason });
+          }}
+          onError={(error) => this.emit('error', { message: error.message })}
+        />
+      </StyleSheetManager>
+    );
+  }
+}
+
+// Register the element (done automatically when the bundle loads; call again for another tag name)
+export const defineRobotCaptcha = (tagName: string = DEFAULT_TAG_NAME) => {
+  if (!customElements.get(tagName)) {
+    // A class can only be registered once, so each extra tag name gets its own subclass
+    customElements.define(tagName, tagName === DEFAULT_TAG_NAME ? RobotCaptchaElement : class extends RobotCaptchaElement {});
+  }
+};
+
+if (typeof window !== 'undefined' && window.customElements) {
+  defineRobotCaptcha();
+}
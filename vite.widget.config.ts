@@ -0,0 +1,27 @@
+// Build of the embeddable <robot-captcha> widget (npm run build:widget)
+// The CRA build serves the demo app; this one bundles src/widget with React into dist/widget.
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+  // The component reads CRA-style environment variables
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+    'process.env.REACT_APP_VERIFY_URL': JSON.stringify(process.env.REACT_APP_VERIFY_URL ?? ''),
+    'process.env.REACT_APP_COLLECT_URL': JSON.stringify(process.env.REACT_APP_COLLECT_URL ?? '')
+  },
+  esbuild: {
+    jsx: 'automatic'
+  },
+  // public/ belongs to the app
+  publicDir: false,
+  build: {
+    outDir: 'dist/widget',
+    target: 'es2019',
+    lib: {
+      entry: 'src/widget/index.tsx',
+      name: 'RobotCaptcha',
+      formats: ['es', 'umd'],
+      fileName: format => `robot-captcha.${format}.js`
+    }
+  }
+});